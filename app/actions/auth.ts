@@ -1,32 +1,18 @@
 'use server'
 
-import { createClient } from '@supabase/supabase-js'
-import { cookies } from 'next/headers'
-import type { Database } from '@/types/supabase'
-
-// Create a Supabase client with the service role key for admin privileges
-const supabaseAdmin = createClient<Database>(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-)
+import { enrollPublicKeyAction, KeyEnrollmentParams } from '@/app/actions/enrollment'
 
 /**
- * Creates a user profile with the provided user ID and public key
- * Uses the service role to bypass RLS policies
+ * Registers the signed-in user's public key on their profile
+ * The user comes from the session, and the key is only accepted with a proof
+ * of possession over an enrollment challenge, like any other enrollment
  */
-export async function createUserProfile(userId: string, publicKey: string) {
+export async function createUserProfile(params: KeyEnrollmentParams) {
   try {
-    // Insert the user profile with admin privileges
-    const { error } = await supabaseAdmin
-      .from('user_profiles')
-      .insert({
-        user_id: userId,
-        public_key: publicKey,
-      })
-      
-    if (error) {
-      console.error('Error creating user profile:', error)
-      return { success: false, error: error.message }
+    const result = await enrollPublicKeyAction(params)
+    
+    if (!result.success) {
+      return { success: false, error: result.message }
     }
     
     return { success: true }
@@ -1,6 +1,7 @@
 "use server";
 
 import { createServiceRoleClient } from "@/lib/supabase/server";
+import { recordUserPublicKey } from "@/lib/key-store";
 import { cookies } from "next/headers";
 import { createServerComponentClient } from "@supabase/auth-helpers-nextjs";
 
@@ -102,29 +103,14 @@ export async function debugUserProfile(): Promise<{
         };
       }
       
-      // Fix the user profile
-      let result;
-      if (!profileExists) {
-        // Create new profile
-        result = await serviceClient
-          .from("user_profiles")
-          .insert({ 
-            user_id: userId, 
-            public_key: metadataPublicKey 
-          });
-      } else {
-        // Update existing profile
-        result = await serviceClient
-          .from("user_profiles")
-          .update({ public_key: metadataPublicKey })
-          .eq("user_id", userId);
-      }
-      
-      if (result.error) {
-        console.error("Server action: Error fixing user profile", result.error);
+      // Fix the user profile and key history
+      try {
+        await recordUserPublicKey(serviceClient, userId, metadataPublicKey);
+      } catch (fixError) {
+        console.error("Server action: Error fixing user profile", fixError);
         return { 
           success: false, 
-          message: `Failed to fix user profile: ${result.error.message}`,
+          message: `Failed to fix user profile: ${fixError instanceof Error ? fixError.message : String(fixError)}`,
           userId,
           profileExists,
           publicKeyExists
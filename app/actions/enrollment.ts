@@ -0,0 +1,240 @@
+"use server";
+
+import { randomBytes } from "crypto";
+import { createServiceRoleClient } from "@/lib/supabase/server";
+import { cookies } from "next/headers";
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs";
+import { importPublicKey, verifyDataSignature, isSigningAlgorithm, SigningAlgorithm } from "@/lib/crypto-utils";
+import { recordUserPublicKey } from "@/lib/key-store";
+import { validatePublicKey } from "@/lib/key-policy";
+
+// Challenges must be answered quickly and can only be used once
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+interface ChallengeResult {
+  success: boolean;
+  message: string;
+  challengeId?: string;
+  challenge?: string;
+  expiresAt?: string;
+}
+
+export interface KeyEnrollmentParams {
+  challengeId: string;
+  publicKey: string;
+  algorithm: SigningAlgorithm;
+  proof: string;
+}
+
+interface EnrollmentResult {
+  success: boolean;
+  message: string;
+  keyId?: string;
+  fingerprint?: string;
+  notAfter?: string;
+}
+
+/**
+ * Server action to issue a key enrollment challenge
+ * The browser signs the challenge with its freshly generated private key to
+ * prove possession before the matching public key is accepted
+ */
+export async function createEnrollmentChallengeAction(): Promise<ChallengeResult> {
+  try {
+    // Get the current user from the session
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+
+    if (userError) {
+      console.error("Auth error:", userError);
+      return {
+        success: false,
+        message: `Authentication error: ${userError.message}`
+      };
+    }
+
+    if (!userData.user) {
+      console.error("No user found");
+      return {
+        success: false,
+        message: "User not authenticated"
+      };
+    }
+
+    const userId = userData.user.id;
+
+    // Bind the challenge to its purpose and user so a proof cannot be replayed elsewhere
+    const challenge = `image-security-key-enrollment:${userId}:${randomBytes(32).toString("hex")}`;
+    const expiresAt = new Date(Date.now() + CHALLENGE_TTL_MS).toISOString();
+
+    // Use service role client to bypass RLS policies
+    const serviceClient = createServiceRoleClient();
+
+    const { data: challengeData, error: insertError } = await serviceClient
+      .from("key_enrollment_challenges")
+      .insert({
+        user_id: userId,
+        challenge,
+        expires_at: expiresAt,
+      })
+      .select("id")
+      .single();
+
+    if (insertError) {
+      console.error("Error storing enrollment challenge:", insertError);
+      return {
+        success: false,
+        message: `Failed to create challenge: ${insertError.message}`
+      };
+    }
+
+    return {
+      success: true,
+      message: "Challenge created",
+      challengeId: challengeData.id,
+      challenge,
+      expiresAt
+    };
+  } catch (error) {
+    console.error("Error in createEnrollmentChallengeAction:", error);
+    return {
+      success: false,
+      message: `Error: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
+
+/**
+ * Server action to enroll a public key generated in the browser
+ * Only the public key and a proof-of-possession signature over a previously
+ * issued challenge are accepted; private keys never reach the server
+ */
+export async function enrollPublicKeyAction(params: KeyEnrollmentParams): Promise<EnrollmentResult> {
+  try {
+    // Get the current user from the session
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+
+    if (userError) {
+      console.error("Auth error:", userError);
+      return {
+        success: false,
+        message: `Authentication error: ${userError.message}`
+      };
+    }
+
+    if (!userData.user) {
+      console.error("No user found");
+      return {
+        success: false,
+        message: "User not authenticated"
+      };
+    }
+
+    const userId = userData.user.id;
+
+    if (!isSigningAlgorithm(params.algorithm)) {
+      return {
+        success: false,
+        message: `Unsupported signature algorithm: ${params.algorithm}`
+      };
+    }
+
+    // Use service role client to bypass RLS policies
+    const serviceClient = createServiceRoleClient();
+
+    const { data: challengeData, error: challengeError } = await serviceClient
+      .from("key_enrollment_challenges")
+      .select("*")
+      .eq("id", params.challengeId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (challengeError) {
+      console.error("Error fetching enrollment challenge:", challengeError);
+      return {
+        success: false,
+        message: `Failed to check challenge: ${challengeError.message}`
+      };
+    }
+
+    if (!challengeData || challengeData.used_at) {
+      return {
+        success: false,
+        message: "Enrollment challenge is invalid or has already been used"
+      };
+    }
+
+    if (new Date(challengeData.expires_at).getTime() < Date.now()) {
+      return {
+        success: false,
+        message: "Enrollment challenge has expired, please try again"
+      };
+    }
+
+    // The key must meet the key policy, parse as the declared algorithm and have produced the proof
+    const policyResult = await validatePublicKey(params.publicKey, params.algorithm);
+    if (!policyResult.valid) {
+      return {
+        success: false,
+        message: policyResult.reason
+      };
+    }
+
+    let publicKey: CryptoKey;
+    try {
+      publicKey = await importPublicKey(params.publicKey, params.algorithm);
+    } catch (importError) {
+      console.error("Invalid public key submitted for enrollment:", importError);
+      return {
+        success: false,
+        message: "Invalid public key"
+      };
+    }
+
+    const isValidProof = await verifyDataSignature(challengeData.challenge, params.proof, publicKey);
+
+    if (!isValidProof) {
+      return {
+        success: false,
+        message: "Proof of possession failed: the signature does not match the public key"
+      };
+    }
+
+    // Consume the challenge; the used_at filter makes concurrent replays fail
+    const { data: consumed, error: consumeError } = await serviceClient
+      .from("key_enrollment_challenges")
+      .update({ used_at: new Date().toISOString() })
+      .eq("id", challengeData.id)
+      .is("used_at", null)
+      .select("id");
+
+    if (consumeError || !consumed || consumed.length === 0) {
+      console.error("Error consuming enrollment challenge:", consumeError);
+      return {
+        success: false,
+        message: "Enrollment challenge is invalid or has already been used"
+      };
+    }
+
+    const keyRecord = await recordUserPublicKey(serviceClient, userId, params.publicKey, params.algorithm);
+
+    return {
+      success: true,
+      message: "Public key enrolled successfully",
+      keyId: keyRecord.id,
+      fingerprint: keyRecord.fingerprint,
+      notAfter: keyRecord.notAfter
+    };
+  } catch (error) {
+    console.error("Error in enrollPublicKeyAction:", error);
+    return {
+      success: false,
+      message: `Enrollment error: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -3,26 +3,146 @@
 import { createServiceRoleClient } from "@/lib/supabase/server";
 import { cookies } from "next/headers";
 import { createServerComponentClient } from "@supabase/auth-helpers-nextjs";
+import { getActiveUserKey, getSubkeyById, getUserKeyById } from "@/lib/key-store";
+import { bytesToBase64, calculateFileHash, parseSignatureEnvelope, SignatureEnvelope, SigningAlgorithm } from "@/lib/crypto-utils";
+import { extractEmbeddedSignature } from "@/lib/embedded-signature";
+import {
+  compareManifest,
+  hashManifest,
+  ImageManifest,
+  ManifestSubject,
+  MANIFEST_CLOCK_TOLERANCE_MS,
+  MANIFEST_VERSION,
+  verifyImageSignature,
+} from "@/lib/image-manifest";
+import { resolveImageSigningKey } from "@/lib/key-certificates";
+import { isPerceptualHash, PerceptualHashes, perceptualHashBands } from "@/lib/perceptual-hash";
+import { ChainRecord } from "@/lib/manifest-chain";
+import { BUNDLE_FORMAT, BUNDLE_VERSION, SignatureBundle } from "@/lib/signature-bundle";
+import { requestTimestamp } from "@/lib/timestamp-authority";
+import { appendLogEntry } from "@/lib/transparency-log-store";
+
+// Postgres unique violation, raised when two uploads link to the same previous manifest
+const UNIQUE_VIOLATION = "23505";
 
 interface UploadImageParams {
   fileName: string;
   filePath: string;
   fileHash: string;
   signature: string;
+  signatureAlgorithm?: SigningAlgorithm;
+  subkeyId?: string;
   fileSize: number;
   fileType: string;
+  manifest: ImageManifest;
+  // Computed in the browser, which can decode the image; omitted when it couldn't
+  perceptualHashes?: PerceptualHashes;
 }
 
 interface UploadResult {
   success: boolean;
   error?: string;
+  imageId?: string;
+}
+
+/**
+ * Gets the hash of the manifest a user's next upload must link to
+ * A deleted image still counts, so deleting the newest upload leaves a trace in the next
+ * @param serviceClient - Service role client
+ * @param userId - The user's ID
+ * @returns Promise with the hash of their latest manifest, or null before their first
+ */
+async function getManifestChainHead(serviceClient: ReturnType<typeof createServiceRoleClient>, userId: string): Promise<string | null> {
+  const [stored, deleted] = await Promise.all([
+    serviceClient
+      .from("images")
+      .select("manifest, created_at")
+      .eq("user_id", userId)
+      .not("manifest", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    serviceClient
+      .from("image_deletions")
+      .select("manifest, created_at:image_created_at")
+      .eq("user_id", userId)
+      .not("manifest", "is", null)
+      .order("image_created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  const error = stored.error ?? deleted.error;
+  if (error) {
+    throw new Error(`Failed to get your latest manifest: ${error.message}`);
+  }
+
+  const candidates = [stored.data, deleted.data].filter(row => row !== null);
+  const latest = candidates.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+
+  return latest ? hashManifest(latest.manifest) : null;
+}
+
+/**
+ * Reads back a file the user uploaded to storage
+ * @returns Promise with the stored file, or null if it could not be read
+ */
+async function readStoredFile(
+  serviceClient: ReturnType<typeof createServiceRoleClient>,
+  filePath: string,
+  fileName: string,
+  fileType: string
+): Promise<File | null> {
+  const { data, error } = await serviceClient.storage.from("images").download(filePath);
+
+  if (error || !data) {
+    console.error("Could not read the uploaded file:", error);
+    return null;
+  }
+
+  return new File([data], fileName, { type: fileType });
+}
+
+/**
+ * Rejects an upload and removes its file from storage, so nothing unverified is left behind
+ * A file an image is already registered with is kept, so a failed retry can't remove it
+ */
+async function rejectUpload(
+  serviceClient: ReturnType<typeof createServiceRoleClient>,
+  filePath: string,
+  error: string
+): Promise<UploadResult> {
+  const { count, error: countError } = await serviceClient
+    .from("images")
+    .select("id", { count: "exact", head: true })
+    .eq("file_path", filePath);
+
+  if (countError) {
+    console.error("Could not check whether the rejected upload is registered:", countError);
+  } else if (count === 0) {
+    const { error: removeError } = await serviceClient.storage.from("images").remove([filePath]);
+
+    if (removeError) {
+      console.error("Could not remove the rejected upload:", removeError);
+    }
+  }
+
+  return {
+    success: false,
+    error
+  };
 }
 
 /**
  * Server action to upload image metadata to the database
+ * The file hash and signature are checked against the stored file and the
+ * user's current key before anything is registered
  * Uses service role client to bypass RLS policies
  */
 export async function uploadImageMetadata(params: UploadImageParams): Promise<UploadResult> {
+  // Set after the ownership check; from then on every failure removes the uploaded file
+  let serviceClient: ReturnType<typeof createServiceRoleClient> | null = null;
+  
   try {
     // Get the current user from the session
     const cookieStore = cookies();
@@ -48,40 +168,513 @@ export async function uploadImageMetadata(params: UploadImageParams): Promise<Up
     
     const userId = userData.user.id;
     
+    // Users may only register files in their own folder
+    if (!params.filePath.startsWith(`${userId}/`)) {
+      return {
+        success: false,
+        error: "You can only register your own files"
+      };
+    }
+    
     // Use service role client to bypass RLS policies
-    const serviceClient = createServiceRoleClient();
+    serviceClient = createServiceRoleClient();
+    
+    // Pin the image to the key that is active at signing time so it stays
+    // verifiable after the user rotates their key
+    const signingKey = await getActiveUserKey(serviceClient, userId);
+    
+    // Users whose key was revoked must enroll a new key before signing again
+    if (!signingKey) {
+      return rejectUpload(serviceClient, params.filePath, "No active signing key. Set up a new signing key on the dashboard.");
+    }
+    
+    // Expired keys may not sign; the user has to rotate to a new key first
+    if (new Date(signingKey.notAfter).getTime() <= Date.now()) {
+      return rejectUpload(serviceClient, params.filePath, `Your signing key expired on ${new Date(signingKey.notAfter).toLocaleDateString()}. Rotate your key on the dashboard.`);
+    }
+    
+    // Device sub-keys sign on behalf of the identity key that certified them
+    const subkey = params.subkeyId ? await getSubkeyById(serviceClient, userId, params.subkeyId) : null;
+    
+    if (params.subkeyId) {
+      const now = Date.now();
+      
+      if (!subkey) {
+        return rejectUpload(serviceClient, params.filePath, "Sub-key not found");
+      }
+      
+      if (subkey.identityKeyId !== signingKey.id) {
+        return rejectUpload(serviceClient, params.filePath, "This device's sub-key was certified by a key that is no longer active. Create a new sub-key.");
+      }
+      
+      if (subkey.revocation) {
+        return rejectUpload(serviceClient, params.filePath, "This device's sub-key has been revoked");
+      }
+      
+      if (now < new Date(subkey.notBefore).getTime() || now > new Date(subkey.notAfter).getTime()) {
+        return rejectUpload(serviceClient, params.filePath, "This device's sub-key has expired. Load your identity key to create a new one.");
+      }
+    }
+    
+    // The signature must have been made with the signing key's algorithm
+    const signatureAlgorithm = subkey?.algorithm ?? signingKey.algorithm;
+    if (params.signatureAlgorithm && params.signatureAlgorithm !== signatureAlgorithm) {
+      return rejectUpload(serviceClient, params.filePath, `Signature algorithm ${params.signatureAlgorithm} does not match your signing key (${signatureAlgorithm})`);
+    }
+    
+    // New signatures come in an envelope naming the key and algorithm they were made with
+    let envelope: SignatureEnvelope | null;
+    try {
+      envelope = parseSignatureEnvelope(params.signature);
+    } catch (error) {
+      return rejectUpload(serviceClient, params.filePath, `Invalid signature envelope: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    
+    if (!envelope) {
+      return rejectUpload(serviceClient, params.filePath, "The signature must be wrapped in a JWS or COSE_Sign1 envelope");
+    }
+    
+    if (envelope.header.alg !== signatureAlgorithm || envelope.header.kid !== (subkey?.fingerprint ?? signingKey.fingerprint)) {
+      return rejectUpload(serviceClient, params.filePath, "The signature envelope does not name your signing key");
+    }
+    
+    if (params.manifest && Math.abs(envelope.header.iat * 1000 - new Date(params.manifest.signedAt).getTime()) > MANIFEST_CLOCK_TOLERANCE_MS) {
+      return rejectUpload(serviceClient, params.filePath, "The signature envelope's signing time does not match the manifest");
+    }
+    
+    // The signed manifest must describe exactly the record being stored, so
+    // that editing the record later is detected at verification
+    const createdAt = new Date().toISOString();
+    
+    if (params.manifest?.version !== MANIFEST_VERSION) {
+      return rejectUpload(serviceClient, params.filePath, "Missing or unsupported signed manifest");
+    }
+    
+    // Each manifest links to the user's previous one; linking anywhere else would fork the chain
+    const chainHead = await getManifestChainHead(serviceClient, userId);
+    if (params.manifest.previousManifestHash !== chainHead) {
+      return rejectUpload(serviceClient, params.filePath, "The signed manifest does not link to your latest upload. Please upload the image again.");
+    }
+    
+    // The hash the client sent is only trusted if it is the hash of what was stored
+    const storedFile = await readStoredFile(serviceClient, params.filePath, params.fileName, params.fileType);
+    if (!storedFile) {
+      return rejectUpload(serviceClient, params.filePath, "The uploaded file could not be read back. Please upload the image again.");
+    }
+    
+    const { content: storedContent } = await extractEmbeddedSignature(storedFile);
+    const storedHash = await calculateFileHash(storedContent);
+    
+    if (storedHash !== params.fileHash || storedContent.size !== params.fileSize) {
+      return rejectUpload(serviceClient, params.filePath, "The uploaded file does not match the file that was signed");
+    }
+    
+    const record: ManifestSubject = {
+      hash: storedHash,
+      fileSize: storedContent.size,
+      fileType: params.fileType,
+      fileName: params.fileName,
+      userId,
+      keyId: signingKey.id,
+      subkeyId: subkey?.id ?? null,
+      createdAt,
+    };
+    
+    const manifestMismatches = compareManifest(params.manifest, record);
+    
+    if (manifestMismatches.length > 0) {
+      return rejectUpload(serviceClient, params.filePath, `The signed manifest does not match the upload: ${manifestMismatches.join(", ")}`);
+    }
+    
+    // The signature must verify against the user's current key, through the sub-key's certificate if one signed
+    const certificateChain = subkey ? [subkey.certificate] : null;
+    const verificationKey = await resolveImageSigningKey({ signatureAlgorithm, certificateChain, createdAt }, signingKey.publicKey);
+    
+    if (!verificationKey.valid) {
+      return rejectUpload(serviceClient, params.filePath, `Invalid sub-key certificate: ${verificationKey.reason}`);
+    }
+    
+    const signatureResult = await verifyImageSignature(
+      storedHash,
+      { ...record, signature: params.signature, manifest: params.manifest },
+      verificationKey.signingKey
+    );
+    
+    if (!signatureResult.valid) {
+      return rejectUpload(serviceClient, params.filePath, "The signature does not verify against your signing key");
+    }
+    
+    // Perceptual hashes only serve to find copies of the image, so they aren't signed
+    const perceptualHashes = params.perceptualHashes ?? null;
+    if (perceptualHashes && ![perceptualHashes.aHash, perceptualHashes.dHash, perceptualHashes.pHash].every(isPerceptualHash)) {
+      return rejectUpload(serviceClient, params.filePath, "Invalid perceptual hashes");
+    }
+    
+    // A TSA countersigns the signature value, fixing when it was made. The upload
+    // doesn't depend on it: without a token the claimed signing time is used
+    let timestampToken: string | null = null;
+    try {
+      timestampToken = bytesToBase64(await requestTimestamp(envelope.signature));
+    } catch (error) {
+      console.error("Could not timestamp the signature:", error);
+    }
     
     // Insert image metadata into the database
-    const { error: insertError } = await serviceClient
+    const { data: inserted, error: insertError } = await serviceClient
       .from("images")
       .insert({
         user_id: userId,
         file_name: params.fileName,
         file_path: params.filePath,
-        hash: params.fileHash,
+        hash: storedHash,
         signature: params.signature,
+        key_id: signingKey.id,
+        signature_algorithm: signatureAlgorithm,
+        // Stored with the image so it verifies back to the identity key
+        subkey_id: subkey?.id ?? null,
+        certificate_chain: certificateChain,
+        manifest: params.manifest,
+        timestamp_token: timestampToken,
+        ahash: perceptualHashes?.aHash ?? null,
+        dhash: perceptualHashes?.dHash ?? null,
+        phash: perceptualHashes?.pHash ?? null,
+        phash_bands: perceptualHashes ? perceptualHashBands(perceptualHashes.pHash) : null,
         file_size: params.fileSize,
         file_type: params.fileType,
         public_url: `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/images/${params.filePath}`,
-        created_at: new Date().toISOString(),
-      });
+        created_at: createdAt,
+      })
+      .select("id")
+      .single();
+    
+    if (insertError?.code === UNIQUE_VIOLATION) {
+      return rejectUpload(serviceClient, params.filePath, "Another upload was linked to your latest image at the same time. Please upload the image again.");
+    }
     
     if (insertError) {
       console.error("Database insert error:", insertError);
+      return rejectUpload(serviceClient, params.filePath, `Failed to save image metadata: ${insertError.message}`);
+    }
+    
+    // Record the signature in the transparency log, so removing or swapping the row later is detectable
+    try {
+      await appendLogEntry(serviceClient, {
+        imageId: inserted.id,
+        sha256: storedHash,
+        signature: params.signature,
+        keyFingerprint: envelope.header.kid,
+        timestamp: createdAt,
+      });
+    } catch (error) {
+      console.error("Could not append the signature to the transparency log:", error);
+    }
+    
+    return {
+      success: true,
+      imageId: inserted.id
+    };
+  } catch (error: any) {
+    console.error("Error in uploadImageMetadata:", error);
+    const message = `Error: ${error.message || JSON.stringify(error)}`;
+    
+    if (serviceClient) {
+      return rejectUpload(serviceClient, params.filePath, message);
+    }
+    
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+interface SignatureBundleResult {
+  success: boolean;
+  error?: string;
+  bundle?: SignatureBundle;
+}
+
+/**
+ * Server action to build the detached signature bundle for one of the current user's images
+ * The bundle holds everything needed to verify the image offline
+ */
+export async function getSignatureBundleAction(imageId: string): Promise<SignatureBundleResult> {
+  try {
+    // Get the current user from the session
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+    
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    
+    if (userError || !userData.user) {
+      return {
+        success: false,
+        error: "User not authenticated"
+      };
+    }
+    
+    const userId = userData.user.id;
+    
+    // Use service role client to bypass RLS policies
+    const serviceClient = createServiceRoleClient();
+    
+    const { data: image, error: imageError } = await serviceClient
+      .from("images")
+      .select("*")
+      .eq("id", imageId)
+      .eq("user_id", userId)
+      .maybeSingle();
+    
+    if (imageError) {
+      return {
+        success: false,
+        error: `Failed to get image: ${imageError.message}`
+      };
+    }
+    
+    if (!image) {
+      return {
+        success: false,
+        error: "Image not found"
+      };
+    }
+    
+    if (!image.key_id) {
       return {
         success: false,
-        error: `Failed to save image metadata: ${insertError.message}`
+        error: "This image is not pinned to a signing key, so no proof can be produced for it"
+      };
+    }
+    
+    const signingKey = await getUserKeyById(serviceClient, userId, image.key_id);
+    
+    if (!signingKey) {
+      return {
+        success: false,
+        error: "The image's signing key was not found"
       };
     }
     
     return {
-      success: true
+      success: true,
+      bundle: {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        sha256: image.hash,
+        signedAt: image.created_at,
+        manifest: image.manifest ?? null,
+        signature: image.signature,
+        signatureAlgorithm: image.signature_algorithm,
+        signer: {
+          publicKey: signingKey.publicKey,
+          fingerprint: signingKey.fingerprint,
+          algorithm: signingKey.algorithm,
+          notAfter: signingKey.notAfter,
+        },
+        certificateChain: image.certificate_chain ?? null,
+        ...(image.timestamp_token ? { timestamp: image.timestamp_token } : {}),
+      }
     };
-  } catch (error: any) {
-    console.error("Error in uploadImageMetadata:", error);
+  } catch (error) {
+    console.error("Error in getSignatureBundleAction:", error);
+    return {
+      success: false,
+      error: `Error: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
+
+interface ManifestChainHeadResult {
+  success: boolean;
+  error?: string;
+  previousManifestHash?: string | null;
+}
+
+/**
+ * Server action to get the hash the current user's next manifest links to
+ */
+export async function getManifestChainHeadAction(): Promise<ManifestChainHeadResult> {
+  try {
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+    
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    
+    if (userError || !userData.user) {
+      return {
+        success: false,
+        error: "User not authenticated"
+      };
+    }
+    
+    const serviceClient = createServiceRoleClient();
+    
+    return {
+      success: true,
+      previousManifestHash: await getManifestChainHead(serviceClient, userData.user.id)
+    };
+  } catch (error) {
+    console.error("Error in getManifestChainHeadAction:", error);
+    return {
+      success: false,
+      error: `Error: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
+
+interface ManifestChainResult {
+  success: boolean;
+  error?: string;
+  records?: ChainRecord[];
+}
+
+/**
+ * Server action to list the current user's signed manifests, including those
+ * of deleted images, for auditing their chain
+ */
+export async function getManifestChainAction(): Promise<ManifestChainResult> {
+  try {
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+    
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    
+    if (userError || !userData.user) {
+      return {
+        success: false,
+        error: "User not authenticated"
+      };
+    }
+    
+    const serviceClient = createServiceRoleClient();
+    
+    const [stored, deleted] = await Promise.all([
+      serviceClient
+        .from("images")
+        .select("id, file_name, created_at, manifest")
+        .eq("user_id", userData.user.id)
+        .not("manifest", "is", null)
+        .order("created_at", { ascending: false }),
+      serviceClient
+        .from("image_deletions")
+        .select("image_id, file_name, image_created_at, manifest, deleted_at")
+        .eq("user_id", userData.user.id)
+        .not("manifest", "is", null)
+        .order("image_created_at", { ascending: false }),
+    ]);
+    
+    const error = stored.error ?? deleted.error;
+    if (error) {
+      return {
+        success: false,
+        error: `Failed to get your manifests: ${error.message}`
+      };
+    }
+    
+    return {
+      success: true,
+      records: [
+        ...(stored.data ?? []).map(image => ({
+          id: image.id,
+          fileName: image.file_name,
+          createdAt: image.created_at,
+          manifest: image.manifest,
+        })),
+        ...(deleted.data ?? []).map(deletion => ({
+          id: deletion.image_id,
+          fileName: deletion.file_name,
+          createdAt: deletion.image_created_at,
+          manifest: deletion.manifest,
+          deletedAt: deletion.deleted_at,
+        })),
+      ]
+    };
+  } catch (error) {
+    console.error("Error in getManifestChainAction:", error);
+    return {
+      success: false,
+      error: `Error: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
+
+interface ImageVisibilityResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Server action to publish one of the current user's images for public
+ * verification, or withdraw it
+ * Published images verify for anyone under the owner's display name, so
+ * publishing needs one to be set
+ */
+export async function setImagePublicAction(imageId: string, isPublic: boolean): Promise<ImageVisibilityResult> {
+  try {
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+    
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    
+    if (userError || !userData.user) {
+      return {
+        success: false,
+        error: "User not authenticated"
+      };
+    }
+    
+    const userId = userData.user.id;
+    const serviceClient = createServiceRoleClient();
+    
+    if (isPublic) {
+      const { data: profile, error: profileError } = await serviceClient
+        .from("user_profiles")
+        .select("display_name")
+        .eq("user_id", userId)
+        .maybeSingle();
+      
+      if (profileError) {
+        return {
+          success: false,
+          error: `Failed to get your display name: ${profileError.message}`
+        };
+      }
+      
+      if (!profile?.display_name) {
+        return {
+          success: false,
+          error: "Set the display name your published images are verified under first"
+        };
+      }
+    }
+    
+    const { data, error } = await serviceClient
+      .from("images")
+      .update({ is_public: isPublic })
+      .eq("id", imageId)
+      .eq("user_id", userId)
+      .select("id");
+    
+    if (error) {
+      return {
+        success: false,
+        error: `Failed to update the image: ${error.message}`
+      };
+    }
+    
+    if (data.length === 0) {
+      return {
+        success: false,
+        error: "Image not found"
+      };
+    }
+    
+    return { success: true };
+  } catch (error) {
+    console.error("Error in setImagePublicAction:", error);
     return {
       success: false,
-      error: `Error: ${error.message || JSON.stringify(error)}`
+      error: `Error: ${error instanceof Error ? error.message : String(error)}`
     };
   }
 }
@@ -0,0 +1,592 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs";
+import { createServiceRoleClient } from "@/lib/supabase/server";
+import {
+  getActiveUserKey,
+  revokeUserKey,
+  listSubkeys,
+  recordSubkey,
+  revokeSubkey,
+  SubkeyRecord
+} from "@/lib/key-store";
+import { SigningAlgorithm } from "@/lib/crypto-utils";
+import { isRevocationReason, RevocationReason } from "@/lib/key-status";
+import { validatePublicKey } from "@/lib/key-policy";
+import { CertificateLink, MAX_SUBKEY_VALIDITY_DAYS, verifyCertificateChain } from "@/lib/key-certificates";
+
+export interface KeySummary {
+  id: string;
+  fingerprint: string;
+  algorithm: SigningAlgorithm;
+  createdAt: string;
+  notAfter: string;
+}
+
+interface RevokeKeyParams {
+  keyId: string;
+  reason: RevocationReason;
+  effectiveAt: string;
+}
+
+interface KeyActionResult {
+  success: boolean;
+  message: string;
+}
+
+export interface DeviceKeySummary {
+  id: string;
+  keyId: string;
+  deviceId: string;
+  deviceName: string;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+interface RegisterDeviceKeyParams {
+  keyId: string;
+  deviceId: string;
+  deviceName: string;
+}
+
+interface DeviceKeysResult {
+  success: boolean;
+  message: string;
+  devices?: DeviceKeySummary[];
+}
+
+export interface SubkeySummary {
+  id: string;
+  identityKeyId: string;
+  fingerprint: string;
+  algorithm: SigningAlgorithm;
+  deviceLabel: string;
+  notBefore: string;
+  notAfter: string;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+interface SubkeyResult {
+  success: boolean;
+  message: string;
+  subkey?: SubkeySummary;
+}
+
+interface SubkeysResult {
+  success: boolean;
+  message: string;
+  subkeys?: SubkeySummary[];
+}
+
+interface ActiveKeyResult {
+  success: boolean;
+  message: string;
+  key?: KeySummary;
+}
+
+function toSubkeySummary(subkey: SubkeyRecord): SubkeySummary {
+  return {
+    id: subkey.id,
+    identityKeyId: subkey.identityKeyId,
+    fingerprint: subkey.fingerprint,
+    algorithm: subkey.algorithm,
+    deviceLabel: subkey.deviceLabel,
+    notBefore: subkey.notBefore,
+    notAfter: subkey.notAfter,
+    createdAt: subkey.createdAt,
+    revokedAt: subkey.revocation?.revokedAt ?? null
+  };
+}
+
+/**
+ * Server action to get the current user's active signing key
+ * Only public details are returned, for display and fingerprint comparison
+ */
+export async function getActiveKeyAction(): Promise<ActiveKeyResult> {
+  try {
+    // Get the current user from the session
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !userData.user) {
+      return {
+        success: false,
+        message: "User not authenticated"
+      };
+    }
+
+    // Use service role client to bypass RLS policies
+    const serviceClient = createServiceRoleClient();
+    const activeKey = await getActiveUserKey(serviceClient, userData.user.id);
+
+    if (!activeKey) {
+      return {
+        success: true,
+        message: "No active key"
+      };
+    }
+
+    return {
+      success: true,
+      message: "Active key found",
+      key: {
+        id: activeKey.id,
+        fingerprint: activeKey.fingerprint,
+        algorithm: activeKey.algorithm,
+        createdAt: activeKey.createdAt,
+        notAfter: activeKey.notAfter
+      }
+    };
+  } catch (error) {
+    console.error("Error in getActiveKeyAction:", error);
+    return {
+      success: false,
+      message: `Error: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
+
+/**
+ * Server action to revoke one of the current user's keys
+ * Signatures made with the key at or after the effective date are reported as
+ * revoked; the effective date may be backdated to when a compromise began
+ */
+export async function revokeKeyAction(params: RevokeKeyParams): Promise<KeyActionResult> {
+  try {
+    // Get the current user from the session
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !userData.user) {
+      return {
+        success: false,
+        message: "User not authenticated"
+      };
+    }
+
+    if (!isRevocationReason(params.reason)) {
+      return {
+        success: false,
+        message: `Invalid revocation reason: ${params.reason}`
+      };
+    }
+
+    const effectiveAt = new Date(params.effectiveAt);
+
+    if (isNaN(effectiveAt.getTime())) {
+      return {
+        success: false,
+        message: "Invalid effective date"
+      };
+    }
+
+    if (effectiveAt.getTime() > Date.now()) {
+      return {
+        success: false,
+        message: "The effective date cannot be in the future"
+      };
+    }
+
+    // Use service role client to bypass RLS policies
+    const serviceClient = createServiceRoleClient();
+    await revokeUserKey(serviceClient, userData.user.id, params.keyId, params.reason, effectiveAt.toISOString());
+
+    console.log("Key revoked", { userId: userData.user.id, keyId: params.keyId, reason: params.reason });
+
+    return {
+      success: true,
+      message: "Key revoked"
+    };
+  } catch (error) {
+    console.error("Error in revokeKeyAction:", error);
+    return {
+      success: false,
+      message: `Error: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
+
+/**
+ * Server action to record that this device remembers one of the user's keys
+ * Registering again only refreshes last_used_at
+ */
+export async function registerDeviceKeyAction(params: RegisterDeviceKeyParams): Promise<KeyActionResult> {
+  try {
+    // Get the current user from the session
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !userData.user) {
+      return {
+        success: false,
+        message: "User not authenticated"
+      };
+    }
+
+    const userId = userData.user.id;
+
+    // Use service role client to bypass RLS policies
+    const serviceClient = createServiceRoleClient();
+
+    // Only the active key may be remembered
+    const activeKey = await getActiveUserKey(serviceClient, userId);
+    if (!activeKey || activeKey.id !== params.keyId) {
+      return {
+        success: false,
+        message: "Only your active signing key can be remembered on a device"
+      };
+    }
+
+    const { error: upsertError } = await serviceClient
+      .from("device_keys")
+      .upsert({
+        user_id: userId,
+        key_id: params.keyId,
+        device_id: params.deviceId,
+        device_name: params.deviceName.slice(0, 100),
+        last_used_at: new Date().toISOString()
+      }, {
+        onConflict: "user_id,device_id,key_id"
+      });
+
+    if (upsertError) {
+      console.error("Error registering device key:", upsertError);
+      return {
+        success: false,
+        message: `Failed to register device: ${upsertError.message}`
+      };
+    }
+
+    return {
+      success: true,
+      message: "Device registered"
+    };
+  } catch (error) {
+    console.error("Error in registerDeviceKeyAction:", error);
+    return {
+      success: false,
+      message: `Error: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
+
+/**
+ * Server action to list the devices that remember one of the user's keys
+ */
+export async function listDeviceKeysAction(): Promise<DeviceKeysResult> {
+  try {
+    // Get the current user from the session
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !userData.user) {
+      return {
+        success: false,
+        message: "User not authenticated"
+      };
+    }
+
+    // Use service role client to bypass RLS policies
+    const serviceClient = createServiceRoleClient();
+
+    const { data, error } = await serviceClient
+      .from("device_keys")
+      .select("*")
+      .eq("user_id", userData.user.id)
+      .order("last_used_at", { ascending: false });
+
+    if (error) {
+      console.error("Error listing device keys:", error);
+      return {
+        success: false,
+        message: `Failed to list devices: ${error.message}`
+      };
+    }
+
+    return {
+      success: true,
+      message: "Devices listed",
+      devices: (data ?? []).map((row: {
+        id: string;
+        key_id: string;
+        device_id: string;
+        device_name: string;
+        created_at: string;
+        last_used_at: string;
+      }) => ({
+        id: row.id,
+        keyId: row.key_id,
+        deviceId: row.device_id,
+        deviceName: row.device_name,
+        createdAt: row.created_at,
+        lastUsedAt: row.last_used_at
+      }))
+    };
+  } catch (error) {
+    console.error("Error in listDeviceKeysAction:", error);
+    return {
+      success: false,
+      message: `Error: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
+
+/**
+ * Server action to forget a device
+ * The device deletes its local copy of the key the next time it checks in
+ */
+export async function forgetDeviceKeyAction(deviceKeyId: string): Promise<KeyActionResult> {
+  try {
+    // Get the current user from the session
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !userData.user) {
+      return {
+        success: false,
+        message: "User not authenticated"
+      };
+    }
+
+    // Use service role client to bypass RLS policies
+    const serviceClient = createServiceRoleClient();
+
+    const { error } = await serviceClient
+      .from("device_keys")
+      .delete()
+      .eq("id", deviceKeyId)
+      .eq("user_id", userData.user.id);
+
+    if (error) {
+      console.error("Error forgetting device key:", error);
+      return {
+        success: false,
+        message: `Failed to forget device: ${error.message}`
+      };
+    }
+
+    return {
+      success: true,
+      message: "Device forgotten"
+    };
+  } catch (error) {
+    console.error("Error in forgetDeviceKeyAction:", error);
+    return {
+      success: false,
+      message: `Error: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
+
+/**
+ * Server action to register a device sub-key certified by the active identity key
+ * The certificate is checked against the identity key before it is stored
+ */
+export async function registerSubkeyAction(link: CertificateLink): Promise<SubkeyResult> {
+  try {
+    // Get the current user from the session
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !userData.user) {
+      return {
+        success: false,
+        message: "User not authenticated"
+      };
+    }
+
+    const userId = userData.user.id;
+    const { certificate } = link;
+
+    // Use service role client to bypass RLS policies
+    const serviceClient = createServiceRoleClient();
+
+    const identityKey = await getActiveUserKey(serviceClient, userId);
+    if (!identityKey) {
+      return {
+        success: false,
+        message: "No active identity key. Set up your signing key on the dashboard first."
+      };
+    }
+
+    if (new Date(identityKey.notAfter).getTime() <= Date.now()) {
+      return {
+        success: false,
+        message: "Your identity key has expired. Rotate it on the dashboard before creating sub-keys."
+      };
+    }
+
+    if (certificate.issuerFingerprint !== identityKey.fingerprint) {
+      return {
+        success: false,
+        message: "The sub-key was not certified by your active identity key"
+      };
+    }
+
+    // Checks the identity key's signature, the key fingerprint and that the certificate is valid now
+    const chainResult = await verifyCertificateChain(
+      [link],
+      identityKey.publicKey,
+      identityKey.algorithm,
+      new Date().toISOString()
+    );
+
+    if (!chainResult.valid) {
+      return {
+        success: false,
+        message: chainResult.reason
+      };
+    }
+
+    const validityMs = new Date(certificate.notAfter).getTime() - new Date(certificate.notBefore).getTime();
+    if (validityMs > MAX_SUBKEY_VALIDITY_DAYS * 24 * 60 * 60 * 1000) {
+      return {
+        success: false,
+        message: `Sub-keys may be valid for at most ${MAX_SUBKEY_VALIDITY_DAYS} days`
+      };
+    }
+
+    // A sub-key must not keep signing after the identity key that certified it has expired
+    if (new Date(certificate.notAfter).getTime() > new Date(identityKey.notAfter).getTime()) {
+      return {
+        success: false,
+        message: "The sub-key may not be valid for longer than your identity key"
+      };
+    }
+
+    const policyResult = await validatePublicKey(certificate.subjectPublicKey, certificate.subjectAlgorithm);
+    if (!policyResult.valid) {
+      return {
+        success: false,
+        message: policyResult.reason
+      };
+    }
+
+    if (!certificate.deviceLabel || certificate.deviceLabel.length > 100) {
+      return {
+        success: false,
+        message: "The device label must be between 1 and 100 characters"
+      };
+    }
+
+    const subkey = await recordSubkey(serviceClient, userId, identityKey.id, link);
+
+    console.log("Sub-key registered", { userId, subkeyId: subkey.id, deviceLabel: subkey.deviceLabel });
+
+    return {
+      success: true,
+      message: "Sub-key registered",
+      subkey: toSubkeySummary(subkey)
+    };
+  } catch (error) {
+    console.error("Error in registerSubkeyAction:", error);
+    return {
+      success: false,
+      message: `Error: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
+
+/**
+ * Server action to list the current user's sub-keys
+ */
+export async function listSubkeysAction(): Promise<SubkeysResult> {
+  try {
+    // Get the current user from the session
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !userData.user) {
+      return {
+        success: false,
+        message: "User not authenticated"
+      };
+    }
+
+    // Use service role client to bypass RLS policies
+    const serviceClient = createServiceRoleClient();
+    const subkeys = await listSubkeys(serviceClient, userData.user.id);
+
+    return {
+      success: true,
+      message: "Sub-keys listed",
+      subkeys: subkeys.map(toSubkeySummary)
+    };
+  } catch (error) {
+    console.error("Error in listSubkeysAction:", error);
+    return {
+      success: false,
+      message: `Error: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
+
+/**
+ * Server action to revoke one of the current user's sub-keys, e.g. for a lost device
+ * The identity key and the other devices' sub-keys are unaffected
+ */
+export async function revokeSubkeyAction(params: RevokeKeyParams): Promise<KeyActionResult> {
+  try {
+    // Get the current user from the session
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+
+    if (userError || !userData.user) {
+      return {
+        success: false,
+        message: "User not authenticated"
+      };
+    }
+
+    if (!isRevocationReason(params.reason)) {
+      return {
+        success: false,
+        message: `Invalid revocation reason: ${params.reason}`
+      };
+    }
+
+    const effectiveAt = new Date(params.effectiveAt);
+
+    if (isNaN(effectiveAt.getTime()) || effectiveAt.getTime() > Date.now()) {
+      return {
+        success: false,
+        message: "The effective date must be a valid date that is not in the future"
+      };
+    }
+
+    // Use service role client to bypass RLS policies
+    const serviceClient = createServiceRoleClient();
+    await revokeSubkey(serviceClient, userData.user.id, params.keyId, params.reason, effectiveAt.toISOString());
+
+    console.log("Sub-key revoked", { userId: userData.user.id, subkeyId: params.keyId, reason: params.reason });
+
+    return {
+      success: true,
+      message: "Sub-key revoked"
+    };
+  } catch (error) {
+    console.error("Error in revokeSubkeyAction:", error);
+    return {
+      success: false,
+      message: `Error: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
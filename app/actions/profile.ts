@@ -1,56 +1,121 @@
 "use server";
 
 import { createServiceRoleClient } from "@/lib/supabase/server";
+import { cookies } from "next/headers";
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs";
+
+// Display names are shown on public verification results
+const MAX_DISPLAY_NAME_LENGTH = 64;
+
+interface DisplayNameResult {
+  success: boolean;
+  error?: string;
+  displayName?: string | null;
+}
 
 /**
- * Server action to save a user's public key to their profile
- * Uses service role client to bypass RLS policies
+ * Server action to get the name the current user's published images are verified under
  */
-export async function saveUserPublicKeyAction(userId: string, publicKey: string): Promise<boolean> {
+export async function getDisplayNameAction(): Promise<DisplayNameResult> {
   try {
-    console.log("Server action: saveUserPublicKeyAction started", { userId });
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+    
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    
+    if (userError || !userData.user) {
+      return {
+        success: false,
+        error: "User not authenticated"
+      };
+    }
     
-    // Use service role client to bypass RLS policies
     const serviceClient = createServiceRoleClient();
     
-    // Check if user profile exists
-    const { data: existingProfile, error: checkError } = await serviceClient
+    const { data, error } = await serviceClient
       .from("user_profiles")
-      .select("*")
-      .eq("user_id", userId)
-      .single();
+      .select("display_name")
+      .eq("user_id", userData.user.id)
+      .maybeSingle();
     
-    if (checkError && checkError.code !== "PGRST116") {
-      console.error("Server action: Error checking user profile", checkError);
-      throw new Error(`Failed to check user profile: ${checkError.message}`);
+    if (error) {
+      return {
+        success: false,
+        error: `Failed to get your display name: ${error.message}`
+      };
     }
     
-    let result;
-    
-    if (existingProfile) {
-      // Update existing profile
-      console.log("Server action: Updating existing user profile");
-      result = await serviceClient
-        .from("user_profiles")
-        .update({ public_key: publicKey })
-        .eq("user_id", userId);
-    } else {
-      // Insert new profile
-      console.log("Server action: Creating new user profile");
-      result = await serviceClient
-        .from("user_profiles")
-        .insert({ user_id: userId, public_key: publicKey });
+    return {
+      success: true,
+      displayName: data?.display_name ?? null
+    };
+  } catch (error) {
+    console.error("Server action: Error in getDisplayNameAction", error);
+    return {
+      success: false,
+      error: `Error: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
+
+/**
+ * Server action to set the name the current user's published images are verified under
+ */
+export async function setDisplayNameAction(displayName: string): Promise<DisplayNameResult> {
+  try {
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+    
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    
+    if (userError || !userData.user) {
+      return {
+        success: false,
+        error: "User not authenticated"
+      };
+    }
+    
+    const name = displayName.trim();
+    
+    if (!name || name.length > MAX_DISPLAY_NAME_LENGTH || /[\u0000-\u001f\u007f]/.test(name)) {
+      return {
+        success: false,
+        error: `Display names must be 1 to ${MAX_DISPLAY_NAME_LENGTH} characters, without control characters`
+      };
+    }
+    
+    const serviceClient = createServiceRoleClient();
+    
+    const { data, error } = await serviceClient
+      .from("user_profiles")
+      .update({ display_name: name })
+      .eq("user_id", userData.user.id)
+      .select("display_name");
+    
+    if (error) {
+      return {
+        success: false,
+        error: `Failed to save your display name: ${error.message}`
+      };
     }
     
-    if (result.error) {
-      console.error("Server action: Error saving public key", result.error);
-      throw new Error(`Failed to save public key: ${result.error.message}`);
+    // Profiles are created with the user's first key
+    if (data.length === 0) {
+      return {
+        success: false,
+        error: "Set up your signing key on the dashboard first"
+      };
     }
     
-    console.log("Server action: Public key saved successfully");
-    return true;
-  } catch (error: any) {
-    console.error("Server action: Error in saveUserPublicKeyAction", error);
-    throw new Error(`Failed to save public key: ${error.message || JSON.stringify(error)}`);
+    return {
+      success: true,
+      displayName: name
+    };
+  } catch (error) {
+    console.error("Server action: Error in setDisplayNameAction", error);
+    return {
+      success: false,
+      error: `Error: ${error instanceof Error ? error.message : String(error)}`
+    };
   }
 }
@@ -3,6 +3,8 @@
 import { createServiceRoleClient } from "@/lib/supabase/server";
 import { cookies } from "next/headers";
 import { createServerComponentClient } from "@supabase/auth-helpers-nextjs";
+import { calculateFileHash } from "@/lib/crypto-utils";
+import { extractEmbeddedSignature } from "@/lib/embedded-signature";
 
 interface UploadResult {
   success: boolean;
@@ -84,3 +86,94 @@ export async function uploadFileToStorage(file: File): Promise<UploadResult> {
     };
   }
 }
+
+/**
+ * Server action to replace one of the current user's stored files, e.g. with
+ * a copy carrying an embedded signature
+ * The replacement must be the registered image: with the embedded blocks
+ * stripped, it has to hash to the hash that was signed
+ * Uses service role client to bypass RLS policies
+ */
+export async function replaceStoredFile(filePath: string, file: File): Promise<UploadResult> {
+  try {
+    // Get the current user from the session
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+    
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    
+    if (userError || !userData.user) {
+      return {
+        success: false,
+        path: "",
+        error: "User not authenticated"
+      };
+    }
+    
+    // Users may only replace files in their own folder
+    if (!filePath.startsWith(`${userData.user.id}/`)) {
+      return {
+        success: false,
+        path: "",
+        error: "You can only replace your own files"
+      };
+    }
+    
+    // Use service role client to bypass RLS policies
+    const serviceClient = createServiceRoleClient();
+    
+    const { data: image, error: imageError } = await serviceClient
+      .from("images")
+      .select("hash")
+      .eq("file_path", filePath)
+      .eq("user_id", userData.user.id)
+      .maybeSingle();
+    
+    if (imageError || !image) {
+      return {
+        success: false,
+        path: "",
+        error: "Only registered images can be replaced"
+      };
+    }
+    
+    // Embedding a signature or Content Credentials leaves the hashed content as it was
+    const { content } = await extractEmbeddedSignature(file);
+    if (await calculateFileHash(content) !== image.hash) {
+      return {
+        success: false,
+        path: "",
+        error: "The replacement does not match the registered image"
+      };
+    }
+    
+    const { error: uploadError } = await serviceClient
+      .storage
+      .from("images")
+      .upload(filePath, await file.arrayBuffer(), {
+        contentType: file.type,
+        upsert: true
+      });
+    
+    if (uploadError) {
+      console.error("Upload error:", uploadError);
+      return {
+        success: false,
+        path: "",
+        error: `Upload error: ${uploadError.message}`
+      };
+    }
+    
+    return {
+      success: true,
+      path: filePath
+    };
+  } catch (error) {
+    console.error("Error in replaceStoredFile:", error);
+    return {
+      success: false,
+      path: "",
+      error: `Error: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
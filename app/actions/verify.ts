@@ -1,34 +1,177 @@
 "use server";
 
 import { createServiceRoleClient } from "@/lib/supabase/server";
+import { cookies } from "next/headers";
+import { createServerComponentClient } from "@supabase/auth-helpers-nextjs";
+import { getUserKeyById, getUserKeyByFingerprint, getSubkeyById, isRegisteredKeyFingerprint, recordUserPublicKey } from "@/lib/key-store";
+import {
+  DEFAULT_SIGNING_ALGORITHM,
+  isSigningAlgorithm,
+  parseSignatureEnvelope,
+  SignatureEnvelopeHeader,
+  SigningAlgorithm,
+} from "@/lib/crypto-utils";
+import { KeyRevocation } from "@/lib/key-status";
+import { CertificateChain } from "@/lib/key-certificates";
+import { ImageManifest } from "@/lib/image-manifest";
+import { PublicSignerResult, RegisteredImage, toPublicSignerResult, verifyImageHash, verifyRegistrations } from "@/lib/verification-engine";
+import { toVerificationVerdict, VerificationVerdict } from "@/lib/verification-verdict";
+import { SignatureBundle } from "@/lib/signature-bundle";
+import { getTrustedTimestampAuthorities } from "@/lib/timestamp-authority";
+import { getTransparencyProof } from "@/lib/transparency-log-store";
+import { TransparencyProof } from "@/lib/transparency-log";
+import { isPerceptualHash, PERCEPTUAL_MATCH_DISTANCE, perceptualHashBands } from "@/lib/perceptual-hash";
 
-interface ImageMetadata {
+// Enough for any realistic number of copies, while bounding the result for hashes that match many
+const MAX_SIMILAR_IMAGES = 200;
+
+// A registered image that looks like the one being verified
+export interface SimilarImage {
   id: string;
   fileName: string;
-  fileSize: number;
-  fileType: string;
-  publicUrl: string;
+  createdAt: string;
+  // Hamming distance between the pHashes; 0 means visually identical
+  distance: number;
+}
+
+interface ImageRow {
+  id: string;
+  file_name: string;
+  file_size: number;
+  file_type: string;
+  public_url: string;
   signature: string;
   hash: string;
-  createdAt: string;
-  userId: string;
-  ownerEmail?: string;
+  created_at: string;
+  user_id: string;
+  key_id: string | null;
+  signature_algorithm: string | null;
+  subkey_id: string | null;
+  certificate_chain: CertificateChain | null;
+  manifest: ImageManifest | null;
+  timestamp_token: string | null;
+}
+
+interface SigningKeyValidity {
+  keyRevocation: KeyRevocation | null;
+  keyNotAfter: string | null;
+}
+
+/**
+ * Gets the revocation and not-after date of the key an image was signed with
+ * For images signed with a sub-key, revoking either the sub-key or the identity
+ * key that certified it counts; the earlier effective date applies. The
+ * sub-key's own validity is part of its certificate
+ */
+async function getSigningKeyValidity(
+  serviceClient: ReturnType<typeof createServiceRoleClient>,
+  userId: string,
+  keyId: string | null,
+  subkeyId: string | null
+): Promise<SigningKeyValidity> {
+  const identityKey = keyId ? await getUserKeyById(serviceClient, userId, keyId) : null;
+  const subkey = subkeyId ? await getSubkeyById(serviceClient, userId, subkeyId) : null;
+
+  const revocations = [identityKey?.revocation, subkey?.revocation].filter(
+    (revocation): revocation is KeyRevocation => !!revocation
+  );
+
+  return {
+    keyRevocation: revocations.length === 0 ? null : revocations.reduce((earliest, revocation) =>
+      new Date(revocation.effectiveAt) < new Date(earliest.effectiveAt) ? revocation : earliest
+    ),
+    keyNotAfter: identityKey?.notAfter ?? null,
+  };
+}
+
+interface SignatureDetails {
+  keyId: string | null;
+  signatureAlgorithm: SigningAlgorithm;
+  signatureHeader: SignatureEnvelopeHeader | null;
 }
 
 /**
- * Server action to find an image by its hash
- * Strictly enforces user boundaries - only finds images belonging to the specified user
+ * Reads which key and algorithm an image's signature was made with
+ * For enveloped signatures these come from the envelope's protected header:
+ * a key ID naming one of the owner's identity keys selects that key, and a
+ * sub-key's ID is matched against the image's certificate chain when the
+ * signature is verified. Bare signatures fall back to the image record
  */
-export async function findImageByHashAction(hash: string, currentUserId: string): Promise<ImageMetadata | null> {
+async function getSignatureDetails(
+  serviceClient: ReturnType<typeof createServiceRoleClient>,
+  image: { user_id: string; signature: string; key_id: string | null; signature_algorithm: string | null }
+): Promise<SignatureDetails> {
+  const envelope = parseSignatureEnvelope(image.signature);
+
+  if (!envelope) {
+    return {
+      keyId: image.key_id ?? null,
+      signatureAlgorithm: isSigningAlgorithm(image.signature_algorithm) ? image.signature_algorithm : DEFAULT_SIGNING_ALGORITHM,
+      signatureHeader: null,
+    };
+  }
+
+  const identityKey = await getUserKeyByFingerprint(serviceClient, image.user_id, envelope.header.kid);
+
+  return {
+    keyId: identityKey?.id ?? image.key_id ?? null,
+    signatureAlgorithm: envelope.header.alg,
+    signatureHeader: envelope.header,
+  };
+}
+
+/**
+ * Reads an image row into the record the verification engine checks
+ */
+async function toRegisteredImage(
+  serviceClient: ReturnType<typeof createServiceRoleClient>,
+  data: ImageRow,
+  ownerEmail: string | undefined
+): Promise<RegisteredImage> {
+  const signatureDetails = await getSignatureDetails(serviceClient, data);
+  
+  return {
+    id: data.id,
+    fileName: data.file_name,
+    fileSize: data.file_size,
+    fileType: data.file_type,
+    publicUrl: data.public_url,
+    signature: data.signature,
+    hash: data.hash,
+    createdAt: data.created_at,
+    userId: data.user_id,
+    ...signatureDetails,
+    subkeyId: data.subkey_id ?? null,
+    certificateChain: data.certificate_chain ?? null,
+    manifest: data.manifest ?? null,
+    timestampToken: data.timestamp_token ?? null,
+    ...await getSigningKeyValidity(serviceClient, data.user_id, signatureDetails.keyId, data.subkey_id ?? null),
+    ownerEmail,
+  };
+}
+
+/**
+ * Server action to find every registration of an image by its content hash
+ * The same content may have been uploaded more than once, so all matches are
+ * returned for the verification engine to check one by one
+ * Strictly enforces user boundaries - only finds the signed-in user's images
+ */
+export async function findImagesByHashAction(hash: string): Promise<RegisteredImage[]> {
   try {
-    console.log("Server action: findImageByHashAction started", { hash, currentUserId });
+    // The user comes from the session, never from the caller
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
     
-    // Require currentUserId - reject if not provided
-    if (!currentUserId) {
-      console.error("Server action: No user ID provided");
-      return null;
+    const { data: userData, error: userError } = await supabase.auth.getUser();
+    
+    if (userError || !userData.user) {
+      console.error("Server action: No signed-in user");
+      return [];
     }
     
+    const currentUserId = userData.user.id;
+    console.log("Server action: findImagesByHashAction started", { hash, currentUserId });
+    
     // Use service role client to bypass RLS policies
     const serviceClient = createServiceRoleClient();
     
@@ -38,128 +181,201 @@ export async function findImageByHashAction(hash: string, currentUserId: string)
       .select("*")
       .eq("hash", hash)
       .eq("user_id", currentUserId)
-      .single();
+      .order("created_at", { ascending: true });
     
     if (error) {
-      if (error.code === "PGRST116") {
-        // No rows returned
-        console.log("Server action: No image found with hash", hash, "for user", currentUserId);
-        return null;
-      }
-      console.error("Server action: Error finding image by hash", error);
-      throw new Error(`Failed to find image by hash: ${error.message}`);
+      console.error("Server action: Error finding images by hash", error);
+      throw new Error(`Failed to find images by hash: ${error.message}`);
     }
     
-    // If we found an image, get the user's email
-    let ownerEmail: string | undefined;
-    if (data.user_id) {
-      const { data: userData, error: userError } = await serviceClient.auth.admin.getUserById(
-        data.user_id
-      );
-      
-      if (userError) {
-        console.error("Server action: Error getting user data", userError);
-      } else if (userData.user) {
-        ownerEmail = userData.user.email;
-      }
+    if (data.length === 0) {
+      console.log("Server action: No image found with hash", hash, "for user", currentUserId);
+      return [];
     }
     
-    console.log("Server action: Image found", { id: data.id, fileName: data.file_name });
+    // Every match belongs to the signed-in user, whose email the session already has
+    const ownerEmail = userData.user.email;
     
-    return {
-      id: data.id,
-      fileName: data.file_name,
-      fileSize: data.file_size,
-      fileType: data.file_type,
-      publicUrl: data.public_url,
-      signature: data.signature,
-      hash: data.hash,
-      createdAt: data.created_at,
-      userId: data.user_id,
-      ownerEmail,
-    };
-  } catch (error: any) {
-    console.error("Server action: Error in findImageByHashAction", error);
-    throw new Error(`Failed to find image: ${error.message || JSON.stringify(error)}`);
+    console.log("Server action: Images found", data.map(image => ({ id: image.id, fileName: image.file_name })));
+    
+    return Promise.all((data as ImageRow[]).map(image => toRegisteredImage(serviceClient, image, ownerEmail)));
+  } catch (error) {
+    console.error("Server action: Error in findImagesByHashAction", error);
+    throw new Error(`Failed to find images: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
 /**
- * Server action to find an image by its filename
- * Strictly enforces user boundaries - only finds images belonging to the specified user
+ * Server action to find the user's images that look like an image whose bytes
+ * match none of them, e.g. a resized or re-encoded copy
+ * Candidates sharing a band of the pHash come from the index; only those are
+ * compared in full, and they are ranked before the result is limited
+ * Strictly enforces user boundaries - only searches the signed-in user's images
+ * @param pHash - The image's pHash
+ * @returns Promise with the images within PERCEPTUAL_MATCH_DISTANCE, closest first
  */
-export async function findImageByFileNameAction(fileName: string, currentUserId: string): Promise<ImageMetadata | null> {
+export async function findSimilarImagesAction(pHash: string): Promise<SimilarImage[]> {
   try {
-    console.log("Server action: findImageByFileNameAction started", { fileName, currentUserId });
+    // The user comes from the session, never from the caller
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+    
+    const { data: userData, error: userError } = await supabase.auth.getUser();
     
-    // Require currentUserId - reject if not provided
-    if (!currentUserId) {
-      console.error("Server action: No user ID provided");
-      return null;
+    if (userError || !userData.user) {
+      return [];
+    }
+    
+    if (!isPerceptualHash(pHash)) {
+      throw new Error("Invalid perceptual hash");
     }
     
     // Use service role client to bypass RLS policies
     const serviceClient = createServiceRoleClient();
     
-    // Always filter by user_id to enforce security boundaries
-    const { data, error } = await serviceClient
-      .from("images")
-      .select("*")
-      .eq("file_name", fileName)
-      .eq("user_id", currentUserId)
-      .single();
+    const { data, error } = await serviceClient.rpc("find_similar_images", {
+      p_user_id: userData.user.id,
+      p_phash: pHash,
+      p_bands: perceptualHashBands(pHash),
+      p_max_distance: PERCEPTUAL_MATCH_DISTANCE,
+      p_limit: MAX_SIMILAR_IMAGES,
+    });
     
     if (error) {
-      if (error.code === "PGRST116") {
-        // No rows returned
-        console.log("Server action: No image found with filename", fileName, "for user", currentUserId);
-        return null;
-      }
-      console.error("Server action: Error finding image by filename", error);
-      throw new Error(`Failed to find image by filename: ${error.message}`);
+      throw new Error(`Failed to search similar images: ${error.message}`);
     }
     
-    // If we found an image, get the user's email
-    let ownerEmail: string | undefined;
-    if (data.user_id) {
-      const { data: userData, error: userError } = await serviceClient.auth.admin.getUserById(
-        data.user_id
-      );
-      
-      if (userError) {
-        console.error("Server action: Error getting user data", userError);
-      } else if (userData.user) {
-        ownerEmail = userData.user.email;
-      }
+    return ((data ?? []) as { id: string; file_name: string; created_at: string; distance: number }[]).map(image => ({
+      id: image.id,
+      fileName: image.file_name,
+      createdAt: image.created_at,
+      distance: image.distance,
+    }));
+  } catch (error) {
+    console.error("Server action: Error in findSimilarImagesAction", error);
+    throw new Error(`Failed to find similar images: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Finds the published registrations of an image, with their signers' display names
+ */
+async function findPublishedImages(
+  serviceClient: ReturnType<typeof createServiceRoleClient>,
+  hash: string
+): Promise<{ images: RegisteredImage[]; displayNames: Map<string, string> }> {
+  if (!/^[0-9a-f]{64}$/.test(hash)) {
+    throw new Error("Invalid image hash");
+  }
+  
+  // Only images their owners published are considered
+  const { data, error } = await serviceClient
+    .from("images")
+    .select("*")
+    .eq("hash", hash)
+    .eq("is_public", true)
+    .order("created_at", { ascending: true });
+  
+  if (error) {
+    throw new Error(`Failed to find published images: ${error.message}`);
+  }
+  
+  if (data.length === 0) {
+    return { images: [], displayNames: new Map() };
+  }
+  
+  const images = await Promise.all((data as ImageRow[]).map(image => toRegisteredImage(serviceClient, image, undefined)));
+  
+  const { data: profiles, error: profileError } = await serviceClient
+    .from("user_profiles")
+    .select("user_id, display_name")
+    .in("user_id", Array.from(new Set(images.map(image => image.userId))));
+  
+  if (profileError) {
+    throw new Error(`Failed to get signer names: ${profileError.message}`);
+  }
+  
+  const displayNames = new Map<string, string>();
+  for (const profile of profiles) {
+    if (profile.display_name) {
+      displayNames.set(profile.user_id, profile.display_name);
+    }
+  }
+  
+  return { images, displayNames };
+}
+
+/**
+ * Server action to verify an image against every published registration of it
+ * Needs no login. Published images may belong to anyone, so they are verified
+ * here and only each signer's display name, key fingerprint and signing time
+ * leave the server
+ * @param hash - SHA-256 of the image content, hex encoded
+ */
+export async function verifyPublishedImageAction(hash: string): Promise<PublicSignerResult[]> {
+  try {
+    // Use service role client to bypass RLS policies
+    const serviceClient = createServiceRoleClient();
+    const { images, displayNames } = await findPublishedImages(serviceClient, hash);
+    
+    if (images.length === 0) {
+      return [];
     }
     
-    console.log("Server action: Image found", { id: data.id, fileName: data.file_name });
+    const signers = await verifyRegistrations(hash, images, getUserPublicKeyAction, await getTrustedTimestampAuthorities());
     
-    return {
-      id: data.id,
-      fileName: data.file_name,
-      fileSize: data.file_size,
-      fileType: data.file_type,
-      publicUrl: data.public_url,
-      signature: data.signature,
-      hash: data.hash,
-      createdAt: data.created_at,
-      userId: data.user_id,
-      ownerEmail,
-    };
-  } catch (error: any) {
-    console.error("Server action: Error in findImageByFileNameAction", error);
-    throw new Error(`Failed to find image: ${error.message || JSON.stringify(error)}`);
+    return signers.map(signer => toPublicSignerResult(signer, displayNames.get(signer.image!.userId) ?? "Unnamed signer"));
+  } catch (error) {
+    console.error("Server action: Error in verifyPublishedImageAction", error);
+    throw new Error(`Failed to verify published image: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Server action to get the verdict on an image known by its content hash,
+ * against every published registration of it and the proofs that came with it
+ * Needs no login; like public verification, a registration's signer is
+ * identified only by display name and key
+ * @param hash - SHA-256 of the image content without any embedded proof, hex encoded
+ * @param detachedBundle - A proof supplied alongside the image
+ * @param embeddedBundle - The proof embedded in the image
+ */
+export async function getVerificationVerdictAction(
+  hash: string,
+  detachedBundle: SignatureBundle | null,
+  embeddedBundle: SignatureBundle | null
+): Promise<VerificationVerdict> {
+  try {
+    // Use service role client to bypass RLS policies
+    const serviceClient = createServiceRoleClient();
+    const { images, displayNames } = await findPublishedImages(serviceClient, hash);
+    
+    const result = await verifyImageHash(hash, {
+      registry: {
+        findImagesByHash: async () => images,
+        getPublicKey: getUserPublicKeyAction,
+      },
+      isRegisteredKey: fingerprint => isRegisteredKeyFingerprint(serviceClient, fingerprint),
+      detachedBundle,
+      trustedAuthorities: await getTrustedTimestampAuthorities(),
+    }, embeddedBundle);
+    
+    return toVerificationVerdict(result, signer => signer.image ? displayNames.get(signer.image.userId) ?? null : null);
+  } catch (error) {
+    console.error("Server action: Error in getVerificationVerdictAction", error);
+    throw new Error(`Failed to verify image: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
 /**
  * Server action to get a user's public key
+ * When a key ID is given, the key that was valid when the image was signed is
+ * returned from the key history instead of the user's current key
  * Uses service role client to bypass RLS policies
  */
-export async function getUserPublicKeyAction(userId: string): Promise<string | null> {
+export async function getUserPublicKeyAction(userId: string, keyId?: string | null): Promise<string | null> {
   try {
-    console.log("Server action: getUserPublicKeyAction started", { userId });
+    console.log("Server action: getUserPublicKeyAction started", { userId, keyId });
     
     if (!userId) {
       console.error("Server action: Invalid userId provided", { userId });
@@ -169,6 +385,19 @@ export async function getUserPublicKeyAction(userId: string): Promise<string | n
     // Use service role client to bypass RLS policies
     const serviceClient = createServiceRoleClient();
     
+    // Images pinned to a key must be verified with exactly that key
+    if (keyId) {
+      const signingKey = await getUserKeyById(serviceClient, userId, keyId);
+      
+      if (!signingKey) {
+        console.error("Server action: Signing key not found in key history", { userId, keyId });
+        throw new Error("Signing key not found in key history");
+      }
+      
+      console.log("Server action: Signing key found in key history", { keyId, retired: !!signingKey.retiredAt });
+      return signingKey.publicKey;
+    }
+    
     // First check if the user profile exists
     const { data: profileData, error: profileError } = await serviceClient
       .from("user_profiles")
@@ -194,6 +423,22 @@ export async function getUserPublicKeyAction(userId: string): Promise<string | n
       return profileData.public_key;
     }
     
+    // Users with a key history have no current key once theirs is revoked; the
+    // key in their metadata is an old one and must not stand in for it
+    const { count: keyCount, error: historyError } = await serviceClient
+      .from("user_keys")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId);
+    
+    if (historyError) {
+      throw new Error(`Failed to check key history: ${historyError.message}`);
+    }
+    
+    if (keyCount) {
+      console.error("Server action: User has no active public key", { userId });
+      throw new Error("The user has no active public key");
+    }
+    
     console.log("Server action: No public key found in user profile, checking user metadata");
     
     // As a fallback, try to get the public key from the user's metadata
@@ -220,61 +465,21 @@ export async function getUserPublicKeyAction(userId: string): Promise<string | n
     const publicKey = userData.user.user_metadata?.public_key;
     
     if (!publicKey) {
-      // As a last resort, try to generate a new key pair for the user
-      console.log("Server action: No public key found, attempting to ensure a public key exists");
-      
-      // Import the ensure-public-key action
-      const { ensurePublicKeyAction } = await import("@/app/actions/ensure-public-key");
-      
-      // Try to ensure a public key exists
-      const ensureResult = await ensurePublicKeyAction();
-      
-      if (ensureResult.success && ensureResult.publicKeyExists) {
-        console.log("Server action: Successfully ensured public key exists");
-        
-        // Fetch the newly created public key
-        const { data: newProfileData, error: newProfileError } = await serviceClient
-          .from("user_profiles")
-          .select("public_key")
-          .eq("user_id", userId)
-          .maybeSingle();
-        
-        if (newProfileData?.public_key) {
-          console.log("Server action: Retrieved newly created public key");
-          return newProfileData.public_key;
-        }
-      }
-      
+      // Keys are only ever generated in the browser, so there is nothing left to try
       console.error("Server action: No public key found in user metadata", {
         userId,
-        metadata: userData.user.user_metadata,
-        ensureResult: ensureResult || "Failed to ensure public key"
+        metadata: userData.user.user_metadata
       });
       throw new Error("Public key not found in user profile or metadata");
     }
     
     console.log("Server action: Public key found in user metadata");
     
-    // Save the public key to the user profile for future use
+    // Save the public key to the user profile and key history for future use
     try {
       console.log("Server action: Saving public key from metadata to profile");
-      const { error: saveError } = await serviceClient
-        .from("user_profiles")
-        .upsert({ 
-          user_id: userId, 
-          public_key: publicKey,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        }, { 
-          onConflict: "user_id" 
-        });
-      
-      if (saveError) {
-        console.error("Server action: Error saving public key to profile", saveError);
-        // Continue even if save fails, we can still return the key from metadata
-      } else {
-        console.log("Server action: Public key saved to profile successfully");
-      }
+      await recordUserPublicKey(serviceClient, userId, publicKey);
+      console.log("Server action: Public key saved to profile successfully");
     } catch (saveError) {
       console.error("Server action: Exception saving public key to profile", saveError);
       // Continue even if save fails, we can still return the key from metadata
@@ -286,3 +491,65 @@ export async function getUserPublicKeyAction(userId: string): Promise<string | n
     throw new Error(`Could not retrieve public key: ${error.message || JSON.stringify(error)}`);
   }
 }
+
+/**
+ * Server action to check that a proof's key is registered to some account
+ * and not revoked; a proof signed with any other key is untrusted
+ * @param fingerprint - The key's fingerprint
+ */
+export async function isRegisteredKeyAction(fingerprint: string): Promise<boolean> {
+  try {
+    return await isRegisteredKeyFingerprint(createServiceRoleClient(), fingerprint);
+  } catch (error) {
+    console.error("Server action: Error in isRegisteredKeyAction", error);
+    return false;
+  }
+}
+
+/**
+ * Server action to get the key fingerprints of the timestamp authorities whose
+ * tokens establish a trusted signing time
+ */
+export async function getTrustedTimestampAuthoritiesAction(): Promise<string[]> {
+  try {
+    return await getTrustedTimestampAuthorities();
+  } catch (error) {
+    console.error("Server action: Error in getTrustedTimestampAuthoritiesAction", error);
+    return [];
+  }
+}
+
+/**
+ * Server action to get the transparency log proof for an image: its log
+ * entry, a signed tree head including it, and, when the verifier names the
+ * tree size it saw before, the proof that the log still extends that tree
+ * The salt opens the entry's commitment, so it is only included for the
+ * image's owner and for published images
+ * Returns null for images uploaded before the log
+ */
+export async function getTransparencyProofAction(imageId: string, seenTreeSize?: number): Promise<TransparencyProof | null> {
+  try {
+    const cookieStore = cookies();
+    const supabase = createServerComponentClient({ cookies: () => cookieStore });
+    
+    // Use service role client to bypass RLS policies
+    const serviceClient = createServiceRoleClient();
+    
+    const [{ data: userData }, { data: image, error: imageError }, proof] = await Promise.all([
+      supabase.auth.getUser(),
+      serviceClient.from("images").select("user_id, is_public").eq("id", imageId).maybeSingle(),
+      getTransparencyProof(serviceClient, imageId, seenTreeSize),
+    ]);
+    
+    if (imageError) {
+      throw new Error(`Failed to get the image: ${imageError.message}`);
+    }
+    
+    const mayOpen = !!image && (image.is_public || image.user_id === userData.user?.id);
+    
+    return proof && !mayOpen ? { ...proof, salt: undefined } : proof;
+  } catch (error) {
+    console.error("Server action: Error in getTransparencyProofAction", error);
+    throw new Error(`Failed to get transparency proof: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -1,39 +1,37 @@
-import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
-import { cookies } from 'next/headers';
 import { NextResponse } from 'next/server';
-import type { Database } from '@/types/supabase';
+import { enrollPublicKeyAction } from '@/app/actions/enrollment';
 
+/**
+ * Registers the signed-in user's public key
+ * The user comes from the session, and the key must come with a proof of
+ * possession: a signature over a challenge from createEnrollmentChallengeAction
+ */
 export async function POST(request: Request) {
   try {
-    const cookieStore = cookies();
-    const supabase = createRouteHandlerClient<Database>({ cookies: () => cookieStore });
+    const { challenge_id, public_key, algorithm, proof } = await request.json();
     
-    const { user_id, public_key } = await request.json();
-    
-    if (!user_id || !public_key) {
+    if (!challenge_id || !public_key || !algorithm || !proof) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
     
-    // Insert the user profile with server-side authentication
-    const { error } = await supabase
-      .from('user_profiles')
-      .insert({
-        user_id,
-        public_key,
-      });
-      
-    if (error) {
-      console.error('Error creating user profile:', error);
+    const result = await enrollPublicKeyAction({
+      challengeId: challenge_id,
+      publicKey: public_key,
+      algorithm,
+      proof,
+    });
+    
+    if (!result.success) {
       return NextResponse.json(
-        { error: 'Failed to create user profile' },
-        { status: 500 }
+        { error: result.message },
+        { status: 400 }
       );
     }
     
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, key_id: result.keyId, fingerprint: result.fingerprint });
   } catch (error) {
     console.error('Server error:', error);
     return NextResponse.json(
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { encodePem } from '@/lib/crypto-utils';
+import { issueTimestampResponse } from '@/lib/timestamp';
+import { getLocalTimestampAuthority } from '@/lib/timestamp-authority';
+import { readLimitedBody } from '@/lib/request-body';
+
+// Requests only carry a hash, so anything larger is not a TimeStampReq
+const MAX_REQUEST_BYTES = 4096;
+
+/**
+ * The local timestamp authority over HTTP (RFC 3161 section 3.4), so other
+ * deployments can point TSA_URL at this one
+ */
+export async function POST(request: Request) {
+  try {
+    if (request.headers.get('content-type') !== 'application/timestamp-query') {
+      return new NextResponse('Expected application/timestamp-query', { status: 415 });
+    }
+
+    const body = await readLimitedBody(request, MAX_REQUEST_BYTES);
+    if (!body) {
+      return new NextResponse('Request too large', { status: 413 });
+    }
+
+    const response = await issueTimestampResponse(body, await getLocalTimestampAuthority());
+
+    return new NextResponse(response, {
+      headers: { 'Content-Type': 'application/timestamp-reply' },
+    });
+  } catch (err) {
+    console.error('Error issuing timestamp:', err);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
+
+/**
+ * The local TSA's certificate, for verifying its tokens elsewhere
+ */
+export async function GET() {
+  try {
+    const { certificate } = await getLocalTimestampAuthority();
+
+    return new NextResponse(encodePem('CERTIFICATE', certificate), {
+      headers: { 'Content-Type': 'application/x-pem-file' },
+    });
+  } catch (err) {
+    console.error('Error reading timestamp authority certificate:', err);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getConsistencyProof } from '@/lib/transparency-log-store';
+
+/**
+ * The proof that the tree of size second extends the tree of size first
+ */
+export async function GET(request: NextRequest) {
+  const first = Number(request.nextUrl.searchParams.get('first'));
+  const second = Number(request.nextUrl.searchParams.get('second'));
+
+  if (!Number.isSafeInteger(first) || !Number.isSafeInteger(second) || first < 1 || second < first) {
+    return NextResponse.json({ error: 'first and second must be tree sizes with 1 <= first <= second' }, { status: 400 });
+  }
+
+  try {
+    const consistencyProof = await getConsistencyProof(createServiceRoleClient(), first, second);
+    return NextResponse.json({ first, second, consistencyProof });
+  } catch (err) {
+    console.error('Error building consistency proof:', err);
+    return NextResponse.json({ error: 'Failed to build consistency proof' }, { status: 500 });
+  }
+}
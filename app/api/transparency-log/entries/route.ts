@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getLogLeaves } from '@/lib/transparency-log-store';
+
+const MAX_ENTRIES = 1000;
+
+/**
+ * Leaf hashes from start up to (not including) end, so auditors can rebuild
+ * the tree. The entries themselves are not served: each leaf is a salted
+ * commitment, opened only in the proof for the image it records
+ */
+export async function GET(request: NextRequest) {
+  const start = Number(request.nextUrl.searchParams.get('start') ?? 0);
+  const end = Number(request.nextUrl.searchParams.get('end'));
+
+  if (!Number.isSafeInteger(start) || !Number.isSafeInteger(end) || start < 0 || end <= start) {
+    return NextResponse.json({ error: 'start and end must be leaf indexes with start < end' }, { status: 400 });
+  }
+
+  try {
+    const leaves = await getLogLeaves(createServiceRoleClient(), start, Math.min(end, start + MAX_ENTRIES));
+    return NextResponse.json({ leaves: leaves.map(({ leafIndex, leafHash }) => ({ leafIndex, leafHash })) });
+  } catch (err) {
+    console.error('Error reading log entries:', err);
+    return NextResponse.json({ error: 'Failed to read log entries' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getInclusionProof, getLatestTreeHead } from '@/lib/transparency-log-store';
+
+/**
+ * The inclusion proof for a leaf, in the tree of the given size or the latest tree head
+ */
+export async function GET(request: NextRequest) {
+  const leafIndex = Number(request.nextUrl.searchParams.get('leafIndex') ?? NaN);
+  const treeSizeParam = request.nextUrl.searchParams.get('treeSize');
+
+  if (!Number.isSafeInteger(leafIndex) || leafIndex < 0) {
+    return NextResponse.json({ error: 'leafIndex must be a leaf index' }, { status: 400 });
+  }
+
+  try {
+    const serviceClient = createServiceRoleClient();
+    const treeSize = treeSizeParam !== null
+      ? Number(treeSizeParam)
+      : (await getLatestTreeHead(serviceClient))?.treeSize ?? 0;
+
+    if (treeSizeParam === null && leafIndex >= treeSize) {
+      return NextResponse.json({ error: 'No published tree head covers the leaf yet' }, { status: 404 });
+    }
+
+    if (!Number.isSafeInteger(treeSize) || leafIndex >= treeSize) {
+      return NextResponse.json({ error: 'treeSize must be larger than leafIndex' }, { status: 400 });
+    }
+
+    const inclusionProof = await getInclusionProof(serviceClient, leafIndex, treeSize);
+    return NextResponse.json({ leafIndex, treeSize, inclusionProof });
+  } catch (err) {
+    console.error('Error building inclusion proof:', err);
+    return NextResponse.json({ error: 'Failed to build inclusion proof' }, { status: 500 });
+  }
+}
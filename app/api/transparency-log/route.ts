@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { getLatestTreeHead, getLogKey, publishTreeHead } from '@/lib/transparency-log-store';
+
+/**
+ * The log's latest signed tree head, null before the first is published, and
+ * the public key it is signed with
+ */
+export async function GET() {
+  try {
+    const serviceClient = createServiceRoleClient();
+    const [treeHead, { publicKey, logId }] = await Promise.all([getLatestTreeHead(serviceClient), getLogKey()]);
+
+    return NextResponse.json({ logId, publicKey, treeHead });
+  } catch (err) {
+    console.error('Error getting tree head:', err);
+    return NextResponse.json({ error: 'Failed to get tree head' }, { status: 500 });
+  }
+}
+
+/**
+ * Publishes a new tree head; meant to be called on a schedule
+ * Requires TRANSPARENCY_LOG_PUBLISH_SECRET as a bearer token
+ */
+export async function POST(request: Request) {
+  const secret = process.env.TRANSPARENCY_LOG_PUBLISH_SECRET;
+
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const treeHead = await publishTreeHead(createServiceRoleClient());
+    return NextResponse.json({ treeHead });
+  } catch (err) {
+    console.error('Error publishing tree head:', err);
+    return NextResponse.json({ error: 'Failed to publish tree head' }, { status: 500 });
+  }
+}
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import { cookies } from 'next/headers';
 import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
+import { calculateKeyFingerprint } from '@/lib/crypto-utils';
+import { describeFingerprint } from '@/lib/key-fingerprint';
+import { isMissingPublicKey } from '@/lib/key-store';
 
 export async function GET(
   request: NextRequest,
@@ -70,13 +73,24 @@ export async function GET(
           role: 'user',
           created_at: null,
           updated_at: null,
-          public_key: null
+          public_key: null,
+          public_key_fingerprint: null
         }
       });
     }
     
+    // Include the key fingerprint so it can be compared out of band
+    const publicKeyFingerprint = isMissingPublicKey(profile.public_key)
+      ? null
+      : describeFingerprint(await calculateKeyFingerprint(profile.public_key));
+    
     // Return the profile data
-    return NextResponse.json({ data: profile });
+    return NextResponse.json({
+      data: {
+        ...profile,
+        public_key_fingerprint: publicKeyFingerprint
+      }
+    });
   } catch (error) {
     console.error('Error in profile API:', error);
     return NextResponse.json(
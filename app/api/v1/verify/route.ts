@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import { getVerificationVerdictAction } from '@/app/actions/verify';
+import { calculateFileHash } from '@/lib/crypto-utils';
+import { extractEmbeddedSignature } from '@/lib/embedded-signature';
+import { readLimitedBody } from '@/lib/request-body';
+import { parseSignatureBundle, SignatureBundle } from '@/lib/signature-bundle';
+
+// The same limit as for uploads, plus room for a proof and the multipart framing
+const MAX_REQUEST_BYTES = 11 * 1024 * 1024;
+
+interface VerifyRequest {
+  sha256: string;
+  detachedBundle: SignatureBundle | null;
+  embeddedBundle: SignatureBundle | null;
+}
+
+function readBundle(value: unknown): SignatureBundle | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return parseSignatureBundle(typeof value === 'string' ? value : JSON.stringify(value));
+}
+
+async function readMultipartRequest(body: Uint8Array, contentType: string): Promise<VerifyRequest> {
+  const form = await new Response(body, { headers: { 'content-type': contentType } }).formData();
+  const image = form.get('image');
+
+  if (!(image instanceof File)) {
+    throw new Error('Expected the image in the "image" field');
+  }
+
+  const bundle = form.get('bundle');
+
+  // Images carrying an embedded proof are hashed without it
+  const { content, bundle: embeddedBundle } = await extractEmbeddedSignature(image);
+
+  return {
+    sha256: await calculateFileHash(content),
+    detachedBundle: readBundle(bundle instanceof File ? await bundle.text() : bundle),
+    embeddedBundle,
+  };
+}
+
+async function readJsonRequest(data: Uint8Array): Promise<VerifyRequest> {
+  let body: { sha256?: unknown; bundle?: unknown };
+
+  try {
+    body = JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new Error('The request body is not valid JSON');
+  }
+
+  if (typeof body?.sha256 !== 'string' || !/^[0-9a-f]{64}$/i.test(body.sha256)) {
+    throw new Error('sha256 must be the hex encoded SHA-256 of the image');
+  }
+
+  return {
+    sha256: body.sha256.toLowerCase(),
+    detachedBundle: readBundle(body.bundle),
+    embeddedBundle: null,
+  };
+}
+
+/**
+ * Verifies an image against every published registration of it and the
+ * proofs that come with it, for pipelines that verify images automatically
+ * Takes multipart/form-data with the image as "image" and optionally its
+ * .sigbundle.json as "bundle", or JSON { sha256, bundle? } from callers that
+ * hold only the image's hash. Responds with a VerificationVerdict
+ */
+export async function POST(request: Request) {
+  const contentType = request.headers.get('content-type') ?? '';
+  const isMultipart = contentType.startsWith('multipart/form-data');
+
+  if (!isMultipart && !contentType.startsWith('application/json')) {
+    return NextResponse.json({ error: 'Expected multipart/form-data or application/json' }, { status: 415 });
+  }
+
+  let input: VerifyRequest;
+
+  try {
+    const body = await readLimitedBody(request, MAX_REQUEST_BYTES);
+
+    if (!body) {
+      return NextResponse.json({ error: 'Request too large' }, { status: 413 });
+    }
+
+    input = isMultipart ? await readMultipartRequest(body, contentType) : await readJsonRequest(body);
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : String(err) }, { status: 400 });
+  }
+
+  try {
+    const verdict = await getVerificationVerdictAction(input.sha256, input.detachedBundle, input.embeddedBundle);
+    return NextResponse.json(verdict);
+  } catch (err) {
+    console.error('Error verifying image:', err);
+    return NextResponse.json({ error: 'Failed to verify image' }, { status: 500 });
+  }
+}
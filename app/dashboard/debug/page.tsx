@@ -7,7 +7,8 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { ArrowLeft, AlertCircle, RefreshCw } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { debugUserProfile } from "@/app/actions/debug"
-import { regenerateKeysAction } from "@/app/actions/regenerate-keys"
+import { generateAndEnrollKeyPair } from "@/lib/key-enrollment"
+import { PrivateKeyDownload } from "@/components/private-key-download"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { checkAdminStatusAction } from "@/app/actions/admin"
 
@@ -17,7 +18,7 @@ export default function DebugPage() {
   const [isLoading, setIsLoading] = useState(false)
   const [isRegenerating, setIsRegenerating] = useState(false)
   const [debugResult, setDebugResult] = useState<any>(null)
-  const [privateKey, setPrivateKey] = useState<string | null>(null)
+  const [privateKey, setPrivateKey] = useState<CryptoKey | null>(null)
   const [isAdmin, setIsAdmin] = useState(false)
   const [isCheckingAdmin, setIsCheckingAdmin] = useState(true)
 
@@ -96,22 +97,14 @@ export default function DebugPage() {
     setIsRegenerating(true)
     
     try {
-      const result = await regenerateKeysAction()
+      // The new key pair is generated in the browser; only the public key is enrolled
+      const enrolled = await generateAndEnrollKeyPair()
+      setPrivateKey(enrolled.privateKey)
       
-      if (result.success && result.privateKey) {
-        setPrivateKey(result.privateKey)
-        
-        toast({
-          title: "Keys Regenerated",
-          description: "Your keys have been regenerated. Please download your new private key.",
-        })
-      } else {
-        toast({
-          title: "Regeneration Failed",
-          description: result.message,
-          variant: "destructive",
-        })
-      }
+      toast({
+        title: "Keys Regenerated",
+        description: "Your keys have been regenerated. Please download your new private key.",
+      })
     } catch (error: any) {
       console.error("Regeneration error:", error)
       toast({
@@ -124,41 +117,12 @@ export default function DebugPage() {
     }
   }
 
-  const downloadPrivateKey = () => {
-    if (!privateKey) return
-    
-    try {
-      // Get the user ID from the debug result
-      const userId = debugResult?.userId || "user"
-      
-      // Format the private key for download
-      const privateKeyData = { privateKey }
-      const blob = new Blob([JSON.stringify(privateKeyData)], { type: "application/json" })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement("a")
-      a.href = url
-      a.download = `private-key-${userId}.json`
-      document.body.appendChild(a)
-      a.click()
-      
-      // Small delay to ensure download starts before cleanup
-      setTimeout(() => {
-        document.body.removeChild(a)
-        URL.revokeObjectURL(url)
-      }, 100)
-      
-      toast({
-        title: "Download Started",
-        description: "Your private key is being downloaded. Please keep it safe!",
-      })
-    } catch (error) {
-      console.error("Download error:", error)
-      toast({
-        title: "Download Failed",
-        description: "Failed to download your private key. Please try again.",
-        variant: "destructive",
-      })
-    }
+  const handleKeyDownloaded = () => {
+    setPrivateKey(null)
+    toast({
+      title: "Download Started",
+      description: "Your encrypted private key is being downloaded. Please keep it and its passphrase safe!",
+    })
   }
 
   // Show loading state while checking admin status
@@ -252,13 +216,13 @@ export default function DebugPage() {
           )}
           
           {privateKey && (
-            <Button 
-              onClick={downloadPrivateKey} 
-              variant="outline"
-              className="w-full"
-            >
-              Download Private Key
-            </Button>
+            <div className="w-full">
+              <PrivateKeyDownload
+                privateKey={privateKey}
+                fileName={`private-key-${debugResult?.userId || "user"}.enc.json`}
+                onDownloaded={handleKeyDownloaded}
+              />
+            </div>
           )}
         </CardFooter>
       </Card>
@@ -3,11 +3,17 @@
 import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { useToast } from "@/hooks/use-toast"
-import { ArrowLeft, Upload, Check, X, Trash2, ExternalLink, RefreshCw, Copy, ImageIcon, ShieldCheck } from "lucide-react"
+import { ArrowLeft, Upload, Check, X, Trash2, ExternalLink, RefreshCw, Copy, ImageIcon, ShieldCheck, FileDown, Link2, Globe } from "lucide-react"
 import { getUserImages, deleteImage, getCurrentUser } from "@/lib/supabase-utils"
-import { formatDate } from "@/lib/crypto-utils"
+import { formatDate, downloadStringAsFile } from "@/lib/crypto-utils"
+import { getSignatureBundleAction, getManifestChainAction, setImagePublicAction } from "@/app/actions/images"
+import { getDisplayNameAction, setDisplayNameAction } from "@/app/actions/profile"
+import { signatureBundleFileName } from "@/lib/signature-bundle"
+import { auditManifestChain, ChainAudit } from "@/lib/manifest-chain"
 import { ImageWithFallback } from "@/components/ui/image-with-fallback"
+import { ManifestChainAudit } from "@/components/manifest-chain-audit"
 
 interface ImageItem {
   id: string
@@ -19,6 +25,7 @@ interface ImageItem {
   hash: string
   signature: string
   userId: string
+  isPublic?: boolean
   filePath?: string
 }
 
@@ -28,8 +35,16 @@ export default function ImagesPage() {
   const [images, setImages] = useState<ImageItem[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [downloadingProofId, setDownloadingProofId] = useState<string | null>(null)
   const [toast, setToast] = useState<string | null>(null)
   const [imageErrors, setImageErrors] = useState<Record<string, boolean>>({})
+  const [chainAudit, setChainAudit] = useState<ChainAudit | null>(null)
+  const [isAuditing, setIsAuditing] = useState(false)
+  const [publishingId, setPublishingId] = useState<string | null>(null)
+  // The name published images are verified under, as saved and as being edited
+  const [savedDisplayName, setSavedDisplayName] = useState<string | null>(null)
+  const [displayName, setDisplayName] = useState("")
+  const [isSavingName, setIsSavingName] = useState(false)
 
   useEffect(() => {
     loadImages()
@@ -49,6 +64,12 @@ export default function ImagesPage() {
       const fetchedImages = await getUserImages(user.id)
       console.log("Fetched images:", fetchedImages)
       setImages(fetchedImages)
+      
+      const nameResult = await getDisplayNameAction()
+      if (nameResult.success) {
+        setSavedDisplayName(nameResult.displayName ?? null)
+        setDisplayName(nameResult.displayName ?? "")
+      }
     } catch (error) {
       console.error("Error loading images:", error)
       showToast({
@@ -74,6 +95,8 @@ export default function ImagesPage() {
       
       // Update the images list
       setImages(images.filter(img => img.id !== id))
+      // The deletion is recorded in the chain, so an earlier audit no longer holds
+      setChainAudit(null)
       
       setToast("Image successfully deleted")
       setTimeout(() => setToast(null), 3000)
@@ -89,6 +112,109 @@ export default function ImagesPage() {
     }
   }
 
+  // Download a self-contained proof that verifies the image without the app's database
+  const handleDownloadProof = async (image: ImageItem) => {
+    setDownloadingProofId(image.id)
+    try {
+      const result = await getSignatureBundleAction(image.id)
+      
+      if (!result.success || !result.bundle) {
+        throw new Error(result.error || "Failed to create the proof")
+      }
+      
+      downloadStringAsFile(
+        JSON.stringify(result.bundle, null, 2),
+        signatureBundleFileName(image.fileName),
+        "application/json"
+      )
+      
+      setToast("Proof downloaded")
+      setTimeout(() => setToast(null), 3000)
+    } catch (error) {
+      console.error("Error downloading proof:", error)
+      showToast({
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "Failed to download the proof. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setDownloadingProofId(null)
+    }
+  }
+
+  // Walk the chain of signed manifests linking the user's uploads, flagging gaps, forks and reordering
+  const handleAuditChain = async () => {
+    setIsAuditing(true)
+    try {
+      const result = await getManifestChainAction()
+      
+      if (!result.success || !result.records) {
+        throw new Error(result.error || "Failed to get your manifests")
+      }
+      
+      setChainAudit(await auditManifestChain(result.records))
+    } catch (error) {
+      console.error("Error auditing upload chain:", error)
+      showToast({
+        title: "Audit Failed",
+        description: error instanceof Error ? error.message : "Failed to audit your uploads. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsAuditing(false)
+    }
+  }
+
+  const handleSaveDisplayName = async () => {
+    setIsSavingName(true)
+    try {
+      const result = await setDisplayNameAction(displayName)
+      
+      if (!result.success) {
+        throw new Error(result.error || "Failed to save your display name")
+      }
+      
+      setSavedDisplayName(result.displayName ?? null)
+      setDisplayName(result.displayName ?? "")
+      setToast("Display name saved")
+      setTimeout(() => setToast(null), 3000)
+    } catch (error) {
+      console.error("Error saving display name:", error)
+      showToast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save your display name. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSavingName(false)
+    }
+  }
+
+  // Published images can be verified by anyone, who sees only the display name, key fingerprint and signing time
+  const handleTogglePublic = async (image: ImageItem) => {
+    setPublishingId(image.id)
+    try {
+      const result = await setImagePublicAction(image.id, !image.isPublic)
+      
+      if (!result.success) {
+        throw new Error(result.error || "Failed to update the image")
+      }
+      
+      setImages(images.map(img => img.id === image.id ? { ...img, isPublic: !image.isPublic } : img))
+      setToast(image.isPublic ? "Image withdrawn from public verification" : "Image published for public verification")
+      setTimeout(() => setToast(null), 3000)
+    } catch (error) {
+      console.error("Error updating image visibility:", error)
+      showToast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Failed to update the image. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setPublishingId(null)
+    }
+  }
+
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return `${bytes} B`
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
@@ -164,16 +290,58 @@ export default function ImagesPage() {
             </Button>
             <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white via-blue-100 to-indigo-200">My Images</h1>
           </div>
-          <Button
-            onClick={loadImages}
-            size="sm"
-            className="bg-blue-500/20 border border-blue-500/30 text-blue-300 hover:bg-blue-500/30 hover:text-white transition-all duration-200 shadow-sm shadow-blue-500/10 px-3 py-1.5 rounded-md"
-          >
-            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
-            Refresh
-          </Button>
+          <div className="flex space-x-2">
+            <Button
+              onClick={handleAuditChain}
+              size="sm"
+              disabled={isAuditing}
+              className="bg-indigo-500/20 border border-indigo-500/30 text-indigo-300 hover:bg-indigo-500/30 hover:text-white transition-all duration-200 shadow-sm shadow-indigo-500/10 px-3 py-1.5 rounded-md"
+            >
+              <Link2 className={`h-4 w-4 mr-2 ${isAuditing ? 'animate-pulse' : ''}`} />
+              Audit Chain
+            </Button>
+            <Button
+              onClick={loadImages}
+              size="sm"
+              className="bg-blue-500/20 border border-blue-500/30 text-blue-300 hover:bg-blue-500/30 hover:text-white transition-all duration-200 shadow-sm shadow-blue-500/10 px-3 py-1.5 rounded-md"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
         </div>
         
+        {chainAudit && <ManifestChainAudit audit={chainAudit} />}
+        
+        {!isLoading && images.length > 0 && (
+          <div className="bg-white/5 backdrop-blur-md rounded-2xl border border-white/10 p-6 mb-8">
+            <div className="flex items-center mb-2">
+              <Globe className="h-5 w-5 mr-2 text-blue-300" />
+              <h2 className="text-lg font-medium text-white">Public Verification</h2>
+            </div>
+            <p className="text-sm text-blue-100/70 mb-4">
+              Anyone can verify images you publish on the verify page, without signing in. They see only your display name, your key&apos;s fingerprint and when the image was signed.
+            </p>
+            <div className="flex gap-2 max-w-md">
+              <Input
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                placeholder="Display name"
+                maxLength={64}
+                className="bg-white/5 border-white/20 text-white"
+              />
+              <Button
+                onClick={handleSaveDisplayName}
+                size="sm"
+                disabled={isSavingName || !displayName.trim() || displayName.trim() === savedDisplayName}
+                className="bg-blue-500/20 border border-blue-500/30 text-blue-300 hover:bg-blue-500/30 hover:text-white transition-all duration-200 shadow-sm shadow-blue-500/10 px-3 py-1.5 rounded-md h-10"
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+        
         {isLoading ? (
           <div className="flex justify-center items-center py-12">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white mr-3"></div>
@@ -248,6 +416,11 @@ export default function ImagesPage() {
                     <span className="px-2 py-1 bg-green-500/20 rounded-full text-xs text-green-300 flex items-center">
                       <Check className="h-3 w-3 mr-1" /> Verified
                     </span>
+                    {image.isPublic && (
+                      <span className="px-2 py-1 bg-blue-500/20 rounded-full text-xs text-blue-300 flex items-center">
+                        <Globe className="h-3 w-3 mr-1" /> Public
+                      </span>
+                    )}
                   </div>
                   
                   {/* Action buttons - ensure they have z-index and position relative */}
@@ -277,6 +450,32 @@ export default function ImagesPage() {
                       >
                         <ShieldCheck className="h-4 w-4" />
                       </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleDownloadProof(image)}
+                        disabled={downloadingProofId === image.id}
+                        className="bg-purple-500/20 border border-purple-500/30 text-purple-300 hover:bg-purple-500/30 hover:text-white transition-all duration-200 shadow-sm shadow-purple-500/10 px-3 py-1.5 rounded-md"
+                        title="Download Proof"
+                      >
+                        {downloadingProofId === image.id ? (
+                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                        ) : (
+                          <FileDown className="h-4 w-4" />
+                        )}
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleTogglePublic(image)}
+                        disabled={publishingId === image.id}
+                        className={`${image.isPublic ? "bg-blue-500/40 text-white" : "bg-blue-500/20 text-blue-300"} border border-blue-500/30 hover:bg-blue-500/30 hover:text-white transition-all duration-200 shadow-sm shadow-blue-500/10 px-3 py-1.5 rounded-md`}
+                        title={image.isPublic ? "Withdraw From Public Verification" : "Publish for Public Verification"}
+                      >
+                        {publishingId === image.id ? (
+                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                        ) : (
+                          <Globe className="h-4 w-4" />
+                        )}
+                      </Button>
                     </div>
                     <Button
                       size="sm"
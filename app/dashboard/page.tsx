@@ -6,8 +6,18 @@ import { supabase } from "@/lib/supabase"
 import { Button } from "@/components/ui/button"
 import { ImageIcon, ShieldCheck, Upload, FileKey } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-import { generateInitialKeysAction } from "@/app/actions/generate-initial-keys"
-import { downloadStringAsFile } from "@/lib/crypto-utils"
+import { ensurePublicKeyAction } from "@/app/actions/ensure-public-key"
+import { generateAndEnrollKeyPair } from "@/lib/key-enrollment"
+import { DEFAULT_SIGNING_ALGORITHM, SIGNING_ALGORITHMS, SigningAlgorithm } from "@/lib/crypto-utils"
+import { PrivateKeyDownload } from "@/components/private-key-download"
+import { KeyDetailsPanel } from "@/components/key-details-panel"
+import { RevokeKeyDialog } from "@/components/revoke-key-dialog"
+import { DeviceKeysPanel } from "@/components/device-keys-panel"
+import { ExternalKeyEnrollment } from "@/components/external-key-enrollment"
+import { KeyBackupDialog } from "@/components/key-backup-dialog"
+import { SubkeysPanel } from "@/components/subkeys-panel"
+import { KeyRenewalBanner } from "@/components/key-renewal-banner"
+import { getActiveKeyAction, KeySummary } from "@/app/actions/keys"
 
 export default function DashboardPage() {
   const router = useRouter()
@@ -15,7 +25,12 @@ export default function DashboardPage() {
   const [user, setUser] = useState<any>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isCheckingKeys, setIsCheckingKeys] = useState(true)
-  const [privateKey, setPrivateKey] = useState<string | null>(null)
+  const [privateKey, setPrivateKey] = useState<CryptoKey | null>(null)
+  const [needsKey, setNeedsKey] = useState(false)
+  const [algorithm, setAlgorithm] = useState<SigningAlgorithm>(DEFAULT_SIGNING_ALGORITHM)
+  const [isGeneratingKey, setIsGeneratingKey] = useState(false)
+  const [useExistingKey, setUseExistingKey] = useState(false)
+  const [activeKey, setActiveKey] = useState<KeySummary | null>(null)
 
   useEffect(() => {
     const checkSession = async () => {
@@ -64,15 +79,14 @@ export default function DashboardPage() {
     const checkKeys = async () => {
       try {
         setIsCheckingKeys(true)
-        const result = await generateInitialKeysAction()
+        const result = await ensurePublicKeyAction()
         
-        if (result.success && result.needsKeys && result.privateKey) {
-          setPrivateKey(result.privateKey)
-          toast({
-            title: "New Keys Generated",
-            description: "We've generated a new key pair for you. Please download your private key.",
-            variant: "default",
-          })
+        if (result.success && !result.publicKeyExists) {
+          // Let the user pick a signature algorithm before generating the key pair
+          setNeedsKey(true)
+        } else if (result.success) {
+          const keyResult = await getActiveKeyAction()
+          setActiveKey(keyResult.key ?? null)
         }
       } catch (error) {
         console.error("Error checking keys:", error)
@@ -82,7 +96,39 @@ export default function DashboardPage() {
     }
     
     checkKeys()
-  }, [toast])
+  }, [])
+
+  const handleGenerateKey = async () => {
+    try {
+      setIsGeneratingKey(true)
+      
+      // Generate the key pair in the browser; only the public key is sent to the server
+      const enrolled = await generateAndEnrollKeyPair(algorithm)
+      setNeedsKey(false)
+      setPrivateKey(enrolled.privateKey)
+      setActiveKey({
+        id: enrolled.keyId,
+        fingerprint: enrolled.fingerprint,
+        algorithm: enrolled.algorithm,
+        createdAt: new Date().toISOString(),
+        notAfter: enrolled.notAfter,
+      })
+      toast({
+        title: "New Keys Generated",
+        description: "We've generated a new key pair for you. Please download your private key.",
+        variant: "default",
+      })
+    } catch (error) {
+      console.error("Error generating keys:", error)
+      toast({
+        title: "Key Generation Failed",
+        description: error instanceof Error ? error.message : "Failed to generate your key pair",
+        variant: "destructive",
+      })
+    } finally {
+      setIsGeneratingKey(false)
+    }
+  }
 
   const handleSignOut = async () => {
     try {
@@ -102,16 +148,13 @@ export default function DashboardPage() {
     }
   }
 
-  const handleDownloadKey = () => {
-    if (privateKey) {
-      downloadStringAsFile(privateKey, "private-key.jwk", "application/json")
-      setPrivateKey(null)
-      toast({
-        title: "Private Key Downloaded",
-        description: "Keep this file secure. You'll need it to sign images.",
-        variant: "default",
-      })
-    }
+  const handleKeyDownloaded = () => {
+    setPrivateKey(null)
+    toast({
+      title: "Private Key Downloaded",
+      description: "Keep this file and its passphrase secure. You'll need both to sign images.",
+      variant: "default",
+    })
   }
 
   if (isLoading) {
@@ -164,20 +207,141 @@ export default function DashboardPage() {
                 </h3>
                 <p className="text-blue-100/80 mb-4">
                   We've generated a new key pair for you. You must download your private key to sign images.
-                  Keep this file secure - you'll need it for future uploads.
+                  Choose a passphrase to encrypt the key file - you'll need both for future uploads.
                 </p>
-                <Button
-                  onClick={handleDownloadKey}
-                  className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 transition-all shadow-lg shadow-indigo-500/30 border-0"
+                <PrivateKeyDownload
+                  privateKey={privateKey}
+                  onDownloaded={handleKeyDownloaded}
+                />
+                <div className="mt-4 pt-4 border-t border-white/10">
+                  <p className="text-blue-100/80 mb-3 text-sm">
+                    Optionally split the key into recovery shares for trusted contacts, so you can restore
+                    it if you lose the key file.
+                  </p>
+                  <KeyBackupDialog privateKey={privateKey} />
+                </div>
+              </div>
+            </div>
+          </div>
+        ) : needsKey ? (
+          <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl mb-6 border border-white/10 relative overflow-hidden">
+            <div className="absolute -right-20 -top-20 w-40 h-40 bg-blue-500/10 rounded-full blur-2xl" />
+            <div className="flex items-start relative z-10">
+              <div className="w-10 h-10 rounded-full bg-blue-500/20 flex items-center justify-center mr-4">
+                <FileKey className="h-5 w-5 text-blue-300" />
+              </div>
+              <div className="flex-1">
+                <h3 className="text-lg font-medium mb-1 text-blue-300">
+                  Set Up Your Signing Key
+                </h3>
+                {useExistingKey ? (
+                  <>
+                    <p className="text-blue-100/80 mb-4">
+                      Register a public key you already have, e.g. one generated with OpenSSL or kept in an HSM.
+                      RSA (2048 to 8192 bits), ECDSA P-256 and Ed25519 keys are supported.
+                    </p>
+                    <ExternalKeyEnrollment
+                      onEnrolled={(enrolled) => {
+                        setNeedsKey(false)
+                        setUseExistingKey(false)
+                        setActiveKey({
+                          id: enrolled.keyId,
+                          fingerprint: enrolled.fingerprint,
+                          algorithm: enrolled.algorithm,
+                          createdAt: new Date().toISOString(),
+                          notAfter: enrolled.notAfter,
+                        })
+                      }}
+                    />
+                  </>
+                ) : (
+                  <>
+                    <p className="text-blue-100/80 mb-4">
+                      Choose a signature algorithm for your key pair. The key is generated in your browser
+                      and only the public key is sent to the server.
+                    </p>
+                    <div className="flex flex-col sm:flex-row gap-3">
+                      <select
+                        value={algorithm}
+                        onChange={(e) => setAlgorithm(e.target.value as SigningAlgorithm)}
+                        disabled={isGeneratingKey}
+                        className="h-10 rounded-md border border-white/20 bg-white/5 px-3 text-sm text-white focus:border-blue-400/50 focus:outline-none"
+                      >
+                        {SIGNING_ALGORITHMS.map(({ value, label }) => (
+                          <option key={value} value={value} className="bg-slate-900">
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                      <Button
+                        onClick={handleGenerateKey}
+                        disabled={isGeneratingKey}
+                        className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 transition-all shadow-lg shadow-indigo-500/30 border-0"
+                      >
+                        {isGeneratingKey ? "Generating..." : "Generate Key Pair"}
+                      </Button>
+                    </div>
+                  </>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setUseExistingKey(!useExistingKey)}
+                  disabled={isGeneratingKey}
+                  className="mt-4 text-sm text-blue-300 hover:text-blue-200 underline-offset-4 hover:underline"
                 >
-                  <FileKey className="h-4 w-4 mr-2" />
-                  Download Private Key
-                </Button>
+                  {useExistingKey ? "Generate a new key pair instead" : "Use an existing key instead"}
+                </button>
               </div>
             </div>
           </div>
         ) : null}
         
+        {activeKey && !privateKey && (
+          <KeyRenewalBanner
+            key={activeKey.id}
+            activeKey={activeKey}
+            onRotated={(enrolled) => {
+              // The existing download panel takes the user through saving the new key
+              setPrivateKey(enrolled.privateKey)
+              setActiveKey({
+                id: enrolled.keyId,
+                fingerprint: enrolled.fingerprint,
+                algorithm: enrolled.algorithm,
+                createdAt: new Date().toISOString(),
+                notAfter: enrolled.notAfter,
+              })
+            }}
+          />
+        )}
+        
+        {activeKey && (
+          <div className="mb-6">
+            <KeyDetailsPanel
+              title="Your Signing Key"
+              fingerprint={activeKey.fingerprint}
+              algorithm={activeKey.algorithm}
+              createdAt={activeKey.createdAt}
+              notAfter={activeKey.notAfter}
+            />
+            <div className="mt-3 flex justify-end">
+              <RevokeKeyDialog
+                keyId={activeKey.id}
+                onRevoked={() => {
+                  setActiveKey(null)
+                  setPrivateKey(null)
+                  setNeedsKey(true)
+                }}
+              />
+            </div>
+            <div className="mt-3">
+              <DeviceKeysPanel key={activeKey.id} />
+            </div>
+            <div className="mt-3">
+              <SubkeysPanel key={activeKey.id} identityKeyId={activeKey.id} />
+            </div>
+          </div>
+        )}
+        
         <div className="grid md:grid-cols-3 gap-6">
           <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10 hover:bg-white/10 transition-colors relative overflow-hidden group">
             <div className="absolute -right-20 -top-20 w-40 h-40 bg-blue-500/10 rounded-full blur-2xl opacity-0 group-hover:opacity-100 transition-opacity" />
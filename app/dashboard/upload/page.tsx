@@ -1,22 +1,62 @@
 "use client"
 
 import { useState, useRef, ChangeEvent, useEffect } from "react"
+import Link from "next/link"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
 import { useToast } from "@/hooks/use-toast"
-import { ArrowLeft, Upload, FileKey, CheckCircle, ImageIcon, RefreshCw } from "lucide-react"
+import { ArrowLeft, Upload, FileKey, CheckCircle, ImageIcon, RefreshCw, CalendarClock } from "lucide-react"
 import { 
   importPrivateKey, 
+  isEncryptedPrivateKey,
+  isPem,
+  isEncryptedPemPrivateKey,
   calculateFileHash, 
-  signFile,
-  generateRSAKeyPair,
-  exportPublicKey,
-  exportPrivateKey
+  getKeyAlgorithm,
+  exportPublicKeyFromPrivateKey,
+  calculateKeyFingerprint
 } from "@/lib/crypto-utils"
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
-import { uploadImageMetadata } from "@/app/actions/images"
-import { uploadFileToStorage } from "@/app/actions/storage"
+import { uploadImageMetadata, getSignatureBundleAction, getManifestChainHeadAction } from "@/app/actions/images"
+import { uploadFileToStorage, replaceStoredFile } from "@/app/actions/storage"
 import { ensurePublicKeyAction } from "@/app/actions/ensure-public-key"
+import {
+  getActiveKeyAction,
+  listDeviceKeysAction,
+  registerDeviceKeyAction,
+  listSubkeysAction,
+  revokeSubkeyAction,
+  KeySummary
+} from "@/app/actions/keys"
+import {
+  getDeviceId,
+  describeDevice,
+  rememberPrivateKey,
+  getRememberedKeys,
+  forgetRememberedKey,
+  getDeviceSubkeys,
+  forgetDeviceSubkey,
+  DeviceSubkey
+} from "@/lib/device-key-store"
+import { createDeviceSubkey } from "@/lib/key-enrollment"
+import { getKeyExpiryStatus } from "@/lib/key-status"
+import { signImageManifest, ImageManifest, MANIFEST_VERSION } from "@/lib/image-manifest"
+import { canEmbedSignature, embedSignatureBundle, extractEmbeddedSignature } from "@/lib/embedded-signature"
+import { addContentCredentials, canAddContentCredentials } from "@/lib/c2pa"
+import { formatFingerprint } from "@/lib/key-fingerprint"
+import { computePerceptualHashes, PerceptualHashes } from "@/lib/perceptual-hash"
+import { KeyDetailsPanel } from "@/components/key-details-panel"
+import { KeyBackupDialog } from "@/components/key-backup-dialog"
 
 export default function UploadPage() {
   const router = useRouter()
@@ -29,6 +69,17 @@ export default function UploadPage() {
   const [isCheckingPublicKey, setIsCheckingPublicKey] = useState(true)
   const [publicKeyExists, setPublicKeyExists] = useState(false)
   const [imageLoadError, setImageLoadError] = useState(false)
+  const [encryptedKeyFile, setEncryptedKeyFile] = useState<string | null>(null)
+  const [keyPassphrase, setKeyPassphrase] = useState("")
+  const [isDecryptingKey, setIsDecryptingKey] = useState(false)
+  const [activeKey, setActiveKey] = useState<KeySummary | null>(null)
+  const [loadedKeyFingerprint, setLoadedKeyFingerprint] = useState<string | null>(null)
+  const [rememberKey, setRememberKey] = useState(false)
+  const [isRememberedKey, setIsRememberedKey] = useState(false)
+  const [deviceSubkey, setDeviceSubkey] = useState<DeviceSubkey | null>(null)
+  const [isCreatingSubkey, setIsCreatingSubkey] = useState(false)
+  const [embedSignature, setEmbedSignature] = useState(false)
+  const [addCredentials, setAddCredentials] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const keyInputRef = useRef<HTMLInputElement>(null)
 
@@ -42,29 +93,21 @@ export default function UploadPage() {
         if (result.success) {
           setPublicKeyExists(result.publicKeyExists)
           
-          // If a new key pair was generated, save the private key
-          if (result.privateKey) {
-            const privateKeyObj = { privateKey: result.privateKey }
-            const privateKeyBlob = new Blob([JSON.stringify(privateKeyObj, null, 2)], { type: 'application/json' })
-            const privateKeyUrl = URL.createObjectURL(privateKeyBlob)
-            
-            // Create a link to download the private key
-            const downloadLink = document.createElement('a')
-            downloadLink.href = privateKeyUrl
-            downloadLink.download = 'private_key.json'
-            
-            // Trigger the download
-            document.body.appendChild(downloadLink)
-            downloadLink.click()
-            document.body.removeChild(downloadLink)
-            
-            // Clean up the URL object
-            URL.revokeObjectURL(privateKeyUrl)
-            
+          // Keys are generated on the dashboard, where the user picks a passphrase for the key file
+          if (!result.publicKeyExists) {
             toast({
-              title: "New Key Pair Generated",
-              description: "A new key pair has been generated for you. Your private key has been downloaded. Please keep it safe.",
+              title: "No Signing Key",
+              description: "Set up your signing key on the dashboard before uploading images.",
             })
+            router.push("/dashboard")
+          } else {
+            const keyResult = await getActiveKeyAction()
+            setActiveKey(keyResult.key ?? null)
+            
+            if (keyResult.key) {
+              await loadRememberedKey(keyResult.key)
+              await loadDeviceSubkey(keyResult.key)
+            }
           }
         } else {
           console.error("Failed to check/ensure public key:", result.message)
@@ -86,8 +129,78 @@ export default function UploadPage() {
       }
     }
     
+    // Use a key remembered on this device, dropping copies that were forgotten
+    // remotely or belong to a key that is no longer active
+    const loadRememberedKey = async (currentKey: KeySummary) => {
+      try {
+        const { data: userData } = await supabase.auth.getUser()
+        if (!userData.user) return
+        
+        const rememberedKeys = await getRememberedKeys(userData.user.id)
+        if (rememberedKeys.length === 0) return
+        
+        const deviceId = getDeviceId()
+        const devicesResult = await listDeviceKeysAction()
+        if (!devicesResult.success || !devicesResult.devices) return
+        
+        for (const remembered of rememberedKeys) {
+          const isRegistered = devicesResult.devices.some(
+            device => device.deviceId === deviceId && device.keyId === remembered.keyId
+          )
+          
+          if (!isRegistered || remembered.keyId !== currentKey.id) {
+            await forgetRememberedKey(remembered.keyId)
+            continue
+          }
+          
+          setPrivateKey(remembered.privateKey)
+          setLoadedKeyFingerprint(remembered.fingerprint)
+          setIsRememberedKey(true)
+          await registerDeviceKeyAction({
+            keyId: remembered.keyId,
+            deviceId,
+            deviceName: describeDevice(),
+          })
+        }
+      } catch (error) {
+        console.error("Error loading remembered key:", error)
+      }
+    }
+    
+    // Sign with this device's sub-key while it is valid, dropping sub-keys that
+    // expired, were revoked or were certified by a key that is no longer active
+    const loadDeviceSubkey = async (currentKey: KeySummary) => {
+      try {
+        const { data: userData } = await supabase.auth.getUser()
+        if (!userData.user) return
+        
+        const storedSubkeys = await getDeviceSubkeys(userData.user.id)
+        if (storedSubkeys.length === 0) return
+        
+        const subkeysResult = await listSubkeysAction()
+        if (!subkeysResult.success || !subkeysResult.subkeys) return
+        
+        for (const stored of storedSubkeys) {
+          const registered = subkeysResult.subkeys.find(subkey => subkey.id === stored.subkeyId)
+          const isUsable = registered
+            && !registered.revokedAt
+            && registered.identityKeyId === currentKey.id
+            && new Date(registered.notAfter).getTime() > Date.now()
+          
+          if (!isUsable) {
+            await forgetDeviceSubkey(stored.subkeyId)
+            continue
+          }
+          
+          setDeviceSubkey(stored)
+        }
+      } catch (error) {
+        console.error("Error loading device sub-key:", error)
+      }
+    }
+    
     checkPublicKey()
-  }, [toast])
+  }, [router, supabase, toast])
 
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0]
@@ -159,11 +272,176 @@ export default function UploadPage() {
     }
   }
 
+  const handleKeyLoaded = async (importedKey: CryptoKey) => {
+    const fingerprint = await calculateKeyFingerprint(await exportPublicKeyFromPrivateKey(importedKey))
+    setPrivateKey(importedKey)
+    setPrivateKeyError("")
+    setLoadedKeyFingerprint(fingerprint)
+    setIsRememberedKey(false)
+
+    toast({
+      title: "Private Key Loaded",
+      description: "Your private key has been loaded successfully.",
+    })
+
+    if (rememberKey) {
+      await handleRememberKey(importedKey, fingerprint)
+    }
+  }
+
+  const handleRememberKey = async (importedKey: CryptoKey, fingerprint: string) => {
+    if (!activeKey || activeKey.fingerprint !== fingerprint) {
+      toast({
+        title: "Key Not Remembered",
+        description: "Only your active signing key can be remembered on this device.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      const { data: userData } = await supabase.auth.getUser()
+      if (!userData.user) {
+        throw new Error("Not authenticated")
+      }
+
+      const result = await registerDeviceKeyAction({
+        keyId: activeKey.id,
+        deviceId: getDeviceId(),
+        deviceName: describeDevice(),
+      })
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+
+      const remembered = await rememberPrivateKey({
+        keyId: activeKey.id,
+        userId: userData.user.id,
+        fingerprint,
+        algorithm: activeKey.algorithm,
+        privateKey: importedKey,
+      })
+      setPrivateKey(remembered.privateKey)
+      setIsRememberedKey(true)
+
+      toast({
+        title: "Key Remembered",
+        description: "Your key is stored on this device and can't be exported from it. You won't need the key file for future uploads here.",
+      })
+    } catch (error) {
+      console.error("Error remembering key:", error)
+      toast({
+        title: "Key Not Remembered",
+        description: error instanceof Error ? error.message : "Failed to store the key on this device",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleForgetRememberedKey = async () => {
+    if (!activeKey) return
+
+    try {
+      await forgetRememberedKey(activeKey.id)
+      setPrivateKey(null)
+      setLoadedKeyFingerprint(null)
+      setIsRememberedKey(false)
+
+      toast({
+        title: "Key Forgotten",
+        description: "The key has been removed from this device. Forget the device on the dashboard to remove it from your device list.",
+      })
+    } catch (error) {
+      console.error("Error forgetting key:", error)
+      toast({
+        title: "Error",
+        description: "Failed to remove the key from this device",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleCreateSubkey = async () => {
+    if (!privateKey || !activeKey) return
+
+    try {
+      setIsCreatingSubkey(true)
+      const { data: userData } = await supabase.auth.getUser()
+      if (!userData.user) {
+        throw new Error("Not authenticated")
+      }
+
+      const subkey = await createDeviceSubkey(privateKey, activeKey.notAfter, userData.user.id)
+      setDeviceSubkey(subkey)
+
+      toast({
+        title: "Device Sub-Key Created",
+        description: `This device now signs with its own sub-key until ${new Date(subkey.notAfter).toLocaleDateString()}. You won't need your identity key file here until then.`,
+      })
+    } catch (error) {
+      console.error("Error creating device sub-key:", error)
+      toast({
+        title: "Sub-Key Not Created",
+        description: error instanceof Error ? error.message : "Failed to create a sub-key for this device",
+        variant: "destructive",
+      })
+    } finally {
+      setIsCreatingSubkey(false)
+    }
+  }
+
+  const handleRemoveSubkey = async () => {
+    if (!deviceSubkey) return
+
+    try {
+      // The key can't be exported, so once it's gone from this device it can be revoked
+      const result = await revokeSubkeyAction({
+        keyId: deviceSubkey.subkeyId,
+        reason: "cessation_of_operation",
+        effectiveAt: new Date().toISOString(),
+      })
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+
+      await forgetDeviceSubkey(deviceSubkey.subkeyId)
+      setDeviceSubkey(null)
+
+      toast({
+        title: "Sub-Key Removed",
+        description: "The sub-key was removed from this device and revoked. Images it signed earlier stay valid.",
+      })
+    } catch (error) {
+      console.error("Error removing device sub-key:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove the sub-key",
+        variant: "destructive",
+      })
+    }
+  }
+
   const handleKeyFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       try {
         const keyFile = e.target.files[0]
         const keyData = await keyFile.text()
+        // Allow selecting the same file again after a failed attempt
+        e.target.value = ""
+        
+        // Encrypted key files need the passphrase before they can be imported
+        if (isEncryptedPrivateKey(keyData) || isEncryptedPemPrivateKey(keyData)) {
+          setKeyPassphrase("")
+          setEncryptedKeyFile(keyData)
+          return
+        }
+        
+        // PKCS#8 PEM keys, e.g. generated with OpenSSL
+        if (isPem(keyData)) {
+          const importedKey = await importPrivateKey(keyData)
+          await handleKeyLoaded(importedKey)
+          return
+        }
         
         // First try parsing the JSON
         let jsonKey
@@ -174,21 +452,20 @@ export default function UploadPage() {
           throw new Error("Invalid key file: Not a valid JSON file")
         }
         
-        // Check if the expected structure exists
-        if (!jsonKey.privateKey) {
+        // Legacy unencrypted key files hold the JWK either wrapped in a privateKey property or as-is
+        let jwkString: string
+        if (typeof jsonKey.privateKey === "string") {
+          jwkString = jsonKey.privateKey
+        } else if (jsonKey.kty) {
+          jwkString = keyData
+        } else {
           throw new Error("Invalid key file format: Missing privateKey property")
         }
         
         // Import the private key using our utility function
         try {
-          const importedKey = await importPrivateKey(jsonKey.privateKey)
-          setPrivateKey(importedKey)
-          setPrivateKeyError("")
-          
-          toast({
-            title: "Private Key Loaded",
-            description: "Your private key has been loaded successfully.",
-          })
+          const importedKey = await importPrivateKey(jwkString)
+          await handleKeyLoaded(importedKey)
         } catch (importError) {
           console.error("Key import error:", importError)
           throw new Error("Invalid key format: The key could not be imported")
@@ -205,6 +482,33 @@ export default function UploadPage() {
     }
   }
 
+  const handleDecryptKey = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!encryptedKeyFile) return
+
+    try {
+      setIsDecryptingKey(true)
+      const importedKey = await importPrivateKey(encryptedKeyFile, keyPassphrase)
+      setEncryptedKeyFile(null)
+      setKeyPassphrase("")
+      await handleKeyLoaded(importedKey)
+    } catch (error) {
+      console.error("Error decrypting private key:", error)
+      const message = error instanceof Error ? error.message : "Failed to decrypt private key"
+      setPrivateKeyError(message)
+      toast({
+        title: "Error Loading Key",
+        description: message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsDecryptingKey(false)
+    }
+  }
+
+  // Expired keys can't sign; images signed before expiry stay valid
+  const isKeyExpired = activeKey ? getKeyExpiryStatus(activeKey.notAfter).status === "expired" : false
+
   const handleUpload = async () => {
     if (!file) {
       toast({
@@ -215,7 +519,10 @@ export default function UploadPage() {
       return
     }
 
-    if (!privateKey) {
+    // A device sub-key takes precedence over a loaded identity key
+    const signingKey = deviceSubkey?.privateKey ?? privateKey
+    
+    if (!signingKey) {
       toast({
         title: "No private key",
         description: "Please upload your private key file to sign the image",
@@ -224,6 +531,15 @@ export default function UploadPage() {
       return
     }
 
+    if (isKeyExpired) {
+      toast({
+        title: "Signing Key Expired",
+        description: "Your signing key has expired. Rotate it on the dashboard before signing new images.",
+        variant: "destructive",
+      })
+      return
+    }
+
     try {
       setIsUploading(true)
 
@@ -247,18 +563,51 @@ export default function UploadPage() {
         lastModified: new Date(file.lastModified).toISOString()
       })
       
+      // A signature already embedded in the file is not part of the content that gets signed
+      const { content } = await extractEmbeddedSignature(file)
+      
       // Calculate hash for the file
-      const hash = await calculateFileHash(file)
+      const hash = await calculateFileHash(content)
       console.log("File hash calculated:", hash)
       
-      // Create a signature for the file using RSA-PSS
-      const signature = await signFile(file, privateKey)
+      // Perceptual hashes let re-encoded or resized copies be recognised; images the browser can't decode go without
+      let perceptualHashes: PerceptualHashes | undefined
+      try {
+        perceptualHashes = await computePerceptualHashes(content)
+      } catch (error) {
+        console.warn("Could not compute perceptual hashes:", error)
+      }
+      
+      if (!activeKey) {
+        throw new Error("No active signing key. Set up your signing key on the dashboard.")
+      }
+      
+      // The manifest links to the previous upload's, chaining this user's images together
+      const chainHead = await getManifestChainHeadAction()
+      if (!chainHead.success) {
+        throw new Error(chainHead.error || "Failed to get your latest upload")
+      }
+      
+      // Sign the manifest with the key's own algorithm, in an envelope that names the signing key
+      const manifest: ImageManifest = {
+        version: MANIFEST_VERSION,
+        sha256: hash,
+        size: content.size,
+        type: file.type,
+        name: file.name,
+        ownerId: userData.user.id,
+        keyId: activeKey.id,
+        subkeyId: deviceSubkey?.subkeyId ?? null,
+        signedAt: new Date().toISOString(),
+        previousManifestHash: chainHead.previousManifestHash ?? null,
+      }
+      const signature = await signImageManifest(manifest, signingKey, deviceSubkey?.fingerprint ?? activeKey.fingerprint)
       console.log("Signature created")
       
       // Store the original file details for reference
       const originalFileDetails = {
         name: file.name,
-        size: file.size,
+        size: content.size,
         type: file.type,
         hash: hash
       }
@@ -266,7 +615,7 @@ export default function UploadPage() {
       
       // Upload file to storage using server action (bypasses RLS)
       console.log("Uploading file to storage:", file.name)
-      const { success: storageSuccess, path, error: storageError } = await uploadFileToStorage(file)
+      const { success: storageSuccess, path, error: storageError } = await uploadFileToStorage(content)
       
       if (!storageSuccess || !path) {
         throw new Error(storageError || "Failed to upload file to storage")
@@ -276,24 +625,66 @@ export default function UploadPage() {
       
       // Use server action to upload image metadata (bypasses RLS)
       console.log("Uploading metadata to database")
-      const { success, error } = await uploadImageMetadata({
+      const { success, error, imageId } = await uploadImageMetadata({
         fileName: file.name,
         filePath: path,
         fileHash: hash,
         signature: signature,
-        fileSize: file.size,
+        signatureAlgorithm: getKeyAlgorithm(signingKey),
+        subkeyId: deviceSubkey?.subkeyId,
+        fileSize: content.size,
         fileType: file.type,
+        manifest,
+        perceptualHashes,
       })
       
       if (!success) {
         throw new Error(error || "Failed to save image metadata")
       }
       
+      // The image is signed at this point; embedding only adds copies of the proof to the stored file
+      let embedError: string | null = null
+      const wantsSignature = embedSignature && canEmbedSignature(file.type)
+      const wantsCredentials = addCredentials && canAddContentCredentials(file.type)
+      if ((wantsSignature || wantsCredentials) && imageId) {
+        try {
+          const bundleResult = await getSignatureBundleAction(imageId)
+          if (!bundleResult.success || !bundleResult.bundle) {
+            throw new Error(bundleResult.error || "Failed to build the signature bundle")
+          }
+          
+          const bundle = bundleResult.bundle
+          let signedFile = content
+          if (wantsSignature) {
+            signedFile = await embedSignatureBundle(signedFile, bundle)
+          }
+          
+          // Content Credentials go last, as their hash covers everything else in the file
+          if (wantsCredentials) {
+            const subkeyCertificate = bundle.certificateChain?.[0]?.certificate
+            signedFile = await addContentCredentials(signedFile, {
+              privateKey: signingKey,
+              publicKey: subkeyCertificate?.subjectPublicKey ?? bundle.signer.publicKey,
+              name: subkeyCertificate?.deviceLabel ?? `Key ${formatFingerprint(bundle.signer.fingerprint).slice(0, 19)}`,
+              notAfter: subkeyCertificate?.notAfter ?? bundle.signer.notAfter ?? activeKey.notAfter,
+            })
+          }
+          
+          const replaceResult = await replaceStoredFile(path, signedFile)
+          if (!replaceResult.success) {
+            throw new Error(replaceResult.error || "Failed to store the signed copy")
+          }
+        } catch (error) {
+          console.error("Error embedding signature:", error)
+          embedError = error instanceof Error ? error.message : String(error)
+        }
+      }
+      
       // Store upload details in localStorage for verification debugging
       try {
         localStorage.setItem(`image_${file.name}_details`, JSON.stringify({
           fileName: file.name,
-          fileSize: file.size,
+          fileSize: content.size,
           fileType: file.type,
           hash: hash,
           uploadDate: new Date().toISOString()
@@ -302,10 +693,18 @@ export default function UploadPage() {
         console.warn("Could not store image details in localStorage:", storageError)
       }
       
-      toast({
-        title: "Upload Successful",
-        description: "Your image has been uploaded and signed successfully.",
-      })
+      if (embedError) {
+        toast({
+          title: "Signature Not Embedded",
+          description: `Your image was uploaded and signed, but the stored file could not be updated with its proof: ${embedError}`,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Upload Successful",
+          description: "Your image has been uploaded and signed successfully.",
+        })
+      }
       
       // Redirect to dashboard
       router.push("/dashboard")
@@ -352,6 +751,20 @@ export default function UploadPage() {
           </div>
         ) : (
           <>
+            {isKeyExpired && activeKey && (
+              <div className="bg-red-500/10 backdrop-blur-md p-6 rounded-2xl border border-red-400/30 mb-6 flex items-start">
+                <CalendarClock className="h-5 w-5 text-red-300 mr-3 mt-0.5" />
+                <div>
+                  <h2 className="text-lg font-medium text-red-300 mb-1">Your Signing Key Has Expired</h2>
+                  <p className="text-blue-100/80 text-sm">
+                    The key expired on {new Date(activeKey.notAfter).toLocaleDateString()} and can no longer sign
+                    images. <Link href="/dashboard" className="text-blue-300 hover:text-blue-200 underline">Rotate
+                    your key on the dashboard</Link> to continue; images you signed before it expired remain valid.
+                  </p>
+                </div>
+              </div>
+            )}
+            
             <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10 mb-6 relative overflow-hidden">
               <div className="absolute -right-20 -top-20 w-40 h-40 bg-blue-500/10 rounded-full blur-2xl" />
               <div className="relative z-10">
@@ -401,48 +814,175 @@ export default function UploadPage() {
                     className="hidden" 
                   />
                 </div>
+                {file && canEmbedSignature(file.type) && (
+                  <label className="mt-3 flex items-start gap-2 text-sm text-blue-100">
+                    <input
+                      type="checkbox"
+                      checked={embedSignature}
+                      onChange={(e) => setEmbedSignature(e.target.checked)}
+                      className="mt-0.5 h-4 w-4 rounded border-white/20 bg-white/5"
+                    />
+                    <span>
+                      Embed the signature in the image file
+                      <span className="block text-blue-100/60">
+                        The stored copy carries its own proof, so it can still be verified after it leaves the app.
+                        The signature is written to a metadata block that is left out when the image is hashed.
+                      </span>
+                    </span>
+                  </label>
+                )}
+                {file && canAddContentCredentials(file.type) && (
+                  <label className="mt-3 flex items-start gap-2 text-sm text-blue-100">
+                    <input
+                      type="checkbox"
+                      checked={addCredentials}
+                      onChange={(e) => setAddCredentials(e.target.checked)}
+                      className="mt-0.5 h-4 w-4 rounded border-white/20 bg-white/5"
+                    />
+                    <span>
+                      Add Content Credentials (C2PA)
+                      <span className="block text-blue-100/60">
+                        Writes a C2PA manifest signed with your key, so tools that read Content Credentials can show
+                        who created the image. The manifest is left out when the image is hashed.
+                      </span>
+                    </span>
+                  </label>
+                )}
               </div>
             </div>
             
-            <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10 mb-6 relative overflow-hidden">
-              <div className="absolute -left-20 -bottom-20 w-40 h-40 bg-indigo-500/10 rounded-full blur-2xl" />
-              <div className="relative z-10">
-                <h2 className="text-xl font-medium mb-4 text-white">Upload Private Key</h2>
-                <div 
-                  className="border-2 border-dashed border-white/20 rounded-lg p-8 text-center cursor-pointer hover:border-white/40 transition-colors"
-                  onClick={() => keyInputRef.current?.click()}
-                >
-                  {privateKey ? (
+            {deviceSubkey ? (
+              <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10 mb-6 relative overflow-hidden">
+                <div className="absolute -left-20 -bottom-20 w-40 h-40 bg-indigo-500/10 rounded-full blur-2xl" />
+                <div className="relative z-10">
+                  <h2 className="text-xl font-medium mb-4 text-white">Signing Key</h2>
+                  <div className="border-2 border-dashed border-white/20 rounded-lg p-8 text-center">
                     <div className="flex flex-col items-center text-green-300">
                       <CheckCircle className="h-12 w-12 mb-2" />
-                      <p className="mb-1">Private Key Loaded</p>
-                      <p className="text-sm text-blue-100">Ready to sign your image</p>
+                      <p className="mb-1">Using This Device&apos;s Sub-Key</p>
+                      <p className="text-sm text-blue-100">
+                        {deviceSubkey.deviceLabel} &middot; valid until {new Date(deviceSubkey.notAfter).toLocaleDateString()}
+                      </p>
                     </div>
-                  ) : (
-                    <div className="flex flex-col items-center">
-                      <FileKey className="h-12 w-12 text-blue-200/50 mb-2" />
-                      <p className="text-blue-100 mb-1">Click to upload your private key file</p>
-                      <p className="text-sm text-blue-200/50">JSON format</p>
+                  </div>
+                  <p className="mt-3 text-sm text-blue-100/60">
+                    The sub-key is certified by your identity key. If this device is lost, revoke just this
+                    sub-key from the dashboard; your identity key and other devices are unaffected.
+                  </p>
+                  <div className="mt-3 flex justify-end">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleRemoveSubkey}
+                      className="text-blue-100 hover:text-white hover:bg-white/10"
+                    >
+                      Remove sub-key from this device
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10 mb-6 relative overflow-hidden">
+                <div className="absolute -left-20 -bottom-20 w-40 h-40 bg-indigo-500/10 rounded-full blur-2xl" />
+                <div className="relative z-10">
+                  <h2 className="text-xl font-medium mb-4 text-white">Upload Private Key</h2>
+                  <div 
+                    className="border-2 border-dashed border-white/20 rounded-lg p-8 text-center cursor-pointer hover:border-white/40 transition-colors"
+                    onClick={() => keyInputRef.current?.click()}
+                  >
+                    {privateKey ? (
+                      <div className="flex flex-col items-center text-green-300">
+                        <CheckCircle className="h-12 w-12 mb-2" />
+                        <p className="mb-1">{isRememberedKey ? "Using Key Remembered on This Device" : "Private Key Loaded"}</p>
+                        <p className="text-sm text-blue-100">Ready to sign your image</p>
+                      </div>
+                    ) : (
+                      <div className="flex flex-col items-center">
+                        <FileKey className="h-12 w-12 text-blue-200/50 mb-2" />
+                        <p className="text-blue-100 mb-1">Click to upload your private key file</p>
+                        <p className="text-sm text-blue-200/50">Encrypted key file (.enc.json), PKCS#8 PEM key or legacy JSON key</p>
+                      </div>
+                    )}
+                    <input 
+                      type="file" 
+                      ref={keyInputRef} 
+                      onChange={handleKeyFileChange} 
+                      accept=".json,.jwk,.pem,.key" 
+                      className="hidden" 
+                    />
+                  </div>
+                  {privateKeyError && (
+                    <p className="text-red-300 mt-2 text-sm">{privateKeyError}</p>
+                  )}
+                  {!privateKey && (
+                    <p className="mt-2 text-sm text-blue-100/60">
+                      Lost your key file?{" "}
+                      <Link href="/recover" className="text-blue-300 hover:text-blue-200 hover:underline">
+                        Recover it from your recovery shares
+                      </Link>
+                    </p>
+                  )}
+                  {isRememberedKey ? (
+                    <div className="mt-3 flex justify-end">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleForgetRememberedKey}
+                        className="text-blue-100 hover:text-white hover:bg-white/10"
+                      >
+                        Forget key on this device
+                      </Button>
+                    </div>
+                  ) : !privateKey && (
+                    <label className="mt-3 flex items-center gap-2 text-sm text-blue-100">
+                      <input
+                        type="checkbox"
+                        checked={rememberKey}
+                        onChange={(e) => setRememberKey(e.target.checked)}
+                        className="h-4 w-4 rounded border-white/20 bg-white/5"
+                      />
+                      Remember this key on this device
+                    </label>
+                  )}
+                  {loadedKeyFingerprint && (
+                    <div className="mt-4">
+                      <KeyDetailsPanel
+                        title="Loaded Key"
+                        fingerprint={loadedKeyFingerprint}
+                        algorithm={privateKey ? getKeyAlgorithm(privateKey) : undefined}
+                      />
+                      {activeKey && activeKey.fingerprint !== loadedKeyFingerprint && (
+                        <p className="text-red-300 mt-2 text-sm">
+                          This private key does not match your active signing key. Images signed with it will fail verification.
+                        </p>
+                      )}
+                      <div className="mt-3 flex justify-end gap-2">
+                        {privateKey && activeKey?.fingerprint === loadedKeyFingerprint && !isKeyExpired && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleCreateSubkey}
+                            disabled={isCreatingSubkey}
+                            className="border-white/20 bg-white/5 hover:bg-white/10 transition-colors"
+                          >
+                            {isCreatingSubkey ? "Creating..." : "Create Sub-Key for This Device"}
+                          </Button>
+                        )}
+                        {/* Remembered keys are non-extractable and cannot be split into shares */}
+                        {privateKey?.extractable && (
+                          <KeyBackupDialog privateKey={privateKey} />
+                        )}
+                      </div>
                     </div>
                   )}
-                  <input 
-                    type="file" 
-                    ref={keyInputRef} 
-                    onChange={handleKeyFileChange} 
-                    accept=".json" 
-                    className="hidden" 
-                  />
                 </div>
-                {privateKeyError && (
-                  <p className="text-red-300 mt-2 text-sm">{privateKeyError}</p>
-                )}
               </div>
-            </div>
+            )}
             
             <div className="flex justify-center">
               <Button
                 onClick={handleUpload}
-                disabled={!file || !privateKey || isUploading}
+                disabled={!file || !(privateKey || deviceSubkey) || isKeyExpired || isUploading}
                 className="w-full max-w-md bg-gradient-to-r from-blue-500 to-indigo-600 text-white hover:from-blue-600 hover:to-indigo-700 transition-all shadow-lg shadow-indigo-500/30 border-0"
               >
                 {isUploading ? (
@@ -461,6 +1001,43 @@ export default function UploadPage() {
           </>
         )}
       </div>
+
+      <Dialog
+        open={encryptedKeyFile !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setEncryptedKeyFile(null)
+            setKeyPassphrase("")
+          }
+        }}
+      >
+        <DialogContent>
+          <form onSubmit={handleDecryptKey}>
+            <DialogHeader>
+              <DialogTitle>Unlock Private Key</DialogTitle>
+              <DialogDescription>
+                This key file is encrypted. Enter the passphrase you chose when downloading or encrypting it.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="unlock-passphrase">Passphrase</Label>
+              <Input
+                id="unlock-passphrase"
+                type="password"
+                value={keyPassphrase}
+                onChange={(e) => setKeyPassphrase(e.target.value)}
+                autoComplete="current-password"
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={!keyPassphrase || isDecryptingKey}>
+                {isDecryptingKey ? "Decrypting..." : "Unlock Key"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
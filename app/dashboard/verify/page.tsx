@@ -5,31 +5,30 @@ import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { useToast } from "@/hooks/use-toast"
 import { ArrowLeft, Upload, ShieldCheck, ShieldX } from "lucide-react"
+import { KeyDetailsPanel } from "@/components/key-details-panel"
+import { loadSeenTreeHead, rememberTreeHead, TransparencyVerificationResult, verifyTransparencyProof } from "@/lib/transparency-log"
+import { SignerResult, verifyImageContent } from "@/lib/verification-engine"
+import { signerVerificationResult, VerificationResult, visualMatchVerificationResult } from "@/lib/verification-result"
+import { TransparencyLogPanel } from "@/components/transparency-log-panel"
+import { SignerListPanel } from "@/components/signer-list-panel"
 import { 
-  calculateFileHash, 
-  importPublicKey, 
-  verifyFileSignature 
-} from "@/lib/crypto-utils"
-import { 
-  findImageByHashAction,
-  findImageByFileNameAction,
-  getUserPublicKeyAction
+  findImagesByHashAction,
+  getUserPublicKeyAction,
+  getTrustedTimestampAuthoritiesAction,
+  isRegisteredKeyAction,
+  getTransparencyProofAction
 } from "@/app/actions/verify"
 import { getCurrentUser } from "@/lib/supabase-utils"
 
-interface VerificationResult {
-  isVerified: boolean
-  message: string
-  details?: string
-  uploadDate?: string
-}
-
 export default function VerifyPage() {
   const router = useRouter()
   const { toast } = useToast()
   const [file, setFile] = useState<File | null>(null)
   const [isVerifying, setIsVerifying] = useState(false)
   const [verificationResult, setVerificationResult] = useState<VerificationResult | null>(null)
+  const [hasEmbeddedSignature, setHasEmbeddedSignature] = useState(false)
+  const [signers, setSigners] = useState<SignerResult[]>([])
+  const [transparencyLog, setTransparencyLog] = useState<{ result: TransparencyVerificationResult | null; seenTreeSize: number | null } | null>(null)
   const [currentUserId, setCurrentUserId] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -50,11 +49,37 @@ export default function VerifyPage() {
     fetchCurrentUser()
   }, [])
 
+  // Checks the image's entry in the transparency log, and that the log still extends the tree head seen last
+  const checkTransparencyLog = async (image: { id: string; hash: string; signature: string }) => {
+    try {
+      const seenTreeHead = loadSeenTreeHead()
+      const proof = await getTransparencyProofAction(image.id, seenTreeHead?.treeSize)
+      const result = proof ? await verifyTransparencyProof(proof, image, seenTreeHead) : null
+      
+      if (result?.valid) {
+        rememberTreeHead(result.treeHead)
+      }
+      setTransparencyLog({
+        result,
+        seenTreeSize: result?.valid && result.consistentWithSeen ? seenTreeHead?.treeSize ?? null : null,
+      })
+    } catch (error) {
+      console.warn("Could not check the transparency log:", error)
+      setTransparencyLog({
+        result: { valid: false, reason: error instanceof Error ? error.message : String(error) },
+        seenTreeSize: null,
+      })
+    }
+  }
+
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setFile(e.target.files[0])
       // Reset verification result when a new file is selected
       setVerificationResult(null)
+      setHasEmbeddedSignature(false)
+      setSigners([])
+      setTransparencyLog(null)
     }
   }
 
@@ -80,6 +105,8 @@ export default function VerifyPage() {
     }
     
     setIsVerifying(true)
+    setTransparencyLog(null)
+    setSigners([])
     
     try {
       // Log file details before hash calculation
@@ -90,112 +117,39 @@ export default function VerifyPage() {
         lastModified: new Date(file.lastModified).toISOString()
       })
       
-      // Calculate the hash of the uploaded image
-      const fileHash = await calculateFileHash(file)
-      console.log("File hash calculated:", fileHash)
+      // Timestamps count as the signing time only when a TSA the server trusts issued them
+      const trustedAuthorities = await getTrustedTimestampAuthoritiesAction()
       
-      // Search for images with matching filename first to find the original image
-      // This approach allows us to detect if the hash has changed (indicating tampering)
-      const imageByName = await findImageByFileNameAction(file.name, currentUserId)
+      // The image is found by its content alone, so a renamed copy still verifies;
+      // every upload of the same content and any embedded proof are checked
+      const result = await verifyImageContent(file, {
+        registry: {
+          findImagesByHash: findImagesByHashAction,
+          getPublicKey: getUserPublicKeyAction,
+        },
+        isRegisteredKey: isRegisteredKeyAction,
+        trustedAuthorities,
+      })
+      console.log("File hash calculated:", result.sha256)
       
-      if (!imageByName) {
-        // If no image found by filename, try hash as a fallback
-        const imageByHash = await findImageByHashAction(fileHash, currentUserId)
-        
-        if (!imageByHash) {
-          console.log("No image found by filename or hash")
-          setVerificationResult({
-            isVerified: false,
-            message: "Verification Failed",
-            details: "This image could not be verified. It may not be registered in your account.",
-          })
-          return
-        }
-        
-        // Found by hash but not by name (unusual case - possibly renamed)
-        console.log("Image found by hash but not by filename")
-        
-        // Get the public key and verify the signature
-        const publicKeyString = await getUserPublicKeyAction(imageByHash.userId)
-        
-        if (!publicKeyString) {
-          console.error("Could not retrieve public key")
-          throw new Error("Could not retrieve public key for verification")
-        }
-        
-        // Import the public key
-        const publicKey = await importPublicKey(publicKeyString)
-        
-        // Verify the signature
-        const isValid = await verifyFileSignature(file, imageByHash.signature, publicKey)
-        
-        if (isValid) {
-          setVerificationResult({
-            isVerified: true,
-            message: "Image Verified Successfully",
-            details: "This image is authentic and has not been modified since it was signed, but it may have been renamed.",
-            uploadDate: new Date(imageByHash.createdAt).toLocaleString(),
-          })
-        } else {
-          setVerificationResult({
-            isVerified: false,
-            message: "Signature Verification Failed",
-            details: "The image hash matches a registered image, but the cryptographic signature is invalid.",
-            uploadDate: new Date(imageByHash.createdAt).toLocaleString(),
-          })
-        }
-        return
-      }
+      setHasEmbeddedSignature(result.hasEmbeddedProof)
+      setSigners(result.signers)
       
-      // Image found by filename - now check if hash matches
-      if (imageByName.hash !== fileHash) {
-        console.log("Image found by filename but hash doesn't match")
-        console.log("Calculated hash:", fileHash)
-        console.log("Stored hash:", imageByName.hash)
-        
-        setVerificationResult({
+      if (!result.primary) {
+        console.log("No image found by hash")
+        setVerificationResult(await visualMatchVerificationResult(file) ?? {
           isVerified: false,
-          message: "Image Has Been Modified",
-          details: "An image with this filename exists in your account, but its content has been modified since it was originally signed.",
-          uploadDate: new Date(imageByName.createdAt).toLocaleString(),
+          message: "Verification Failed",
+          details: "This image could not be verified. It may not be registered in your account.",
         })
         return
       }
       
-      // Hash matches - now verify the cryptographic signature
-      console.log("Hash matches, verifying signature")
-      
-      // Get the public key
-      const publicKeyString = await getUserPublicKeyAction(imageByName.userId)
-      
-      if (!publicKeyString) {
-        console.error("Could not retrieve public key")
-        throw new Error("Could not retrieve public key for verification")
+      if (result.primary.image) {
+        await checkTransparencyLog(result.primary.image)
       }
       
-      // Import the public key
-      const publicKey = await importPublicKey(publicKeyString)
-      
-      // Verify the signature
-      const isValid = await verifyFileSignature(file, imageByName.signature, publicKey)
-      
-      if (isValid) {
-        console.log("Signature verified successfully")
-        setVerificationResult({
-          isVerified: true,
-          message: "Image Verified Successfully",
-          details: "This image is authentic and has not been modified since it was signed.",
-          uploadDate: new Date(imageByName.createdAt).toLocaleString(),
-        })
-      } else {
-        console.log("Signature verification failed")
-        setVerificationResult({
-          isVerified: false,
-          message: "Signature Verification Failed",
-          details: "The image appears unmodified based on its hash, but the cryptographic signature is invalid. This could indicate sophisticated tampering.",
-          uploadDate: new Date(imageByName.createdAt).toLocaleString(),
-        })
-      }
+      setVerificationResult(signerVerificationResult(result.primary, file.name, "embedded"))
     } catch (error: any) {
       console.error("Verification error:", error)
       toast({
@@ -286,6 +240,82 @@ export default function VerifyPage() {
                 <p className="text-gray-500">Upload Date</p>
                 <p className="text-white">{verificationResult.uploadDate}</p>
               </div>
+              {verificationResult.timestampTime && (
+                <div>
+                  <p className="text-gray-500">{verificationResult.timestampTrusted ? "Trusted Signing Time" : "Timestamped"}</p>
+                  <p className="text-white">
+                    {verificationResult.timestampTime} by {verificationResult.timestampAuthority}
+                  </p>
+                </div>
+              )}
+              {verificationResult.timestampProblem && (
+                <div>
+                  <p className="text-gray-500">Timestamp Not Used</p>
+                  <p className="text-amber-300">{verificationResult.timestampProblem}</p>
+                </div>
+              )}
+              {verificationResult.keyRevokedAt && (
+                <div>
+                  <p className="text-gray-500">Key Revoked</p>
+                  <p className="text-amber-300">
+                    {verificationResult.keyRevokedAt} ({verificationResult.keyRevocationReason})
+                  </p>
+                </div>
+              )}
+              {verificationResult.keyValidUntil && (
+                <div>
+                  <p className="text-gray-500">Key Valid Until</p>
+                  <p className={verificationResult.keyExpired ? "text-amber-300" : "text-white"}>
+                    {verificationResult.keyValidUntil}
+                    {verificationResult.isVerified && verificationResult.keyExpired && " (the key has since expired, but the image was signed while it was valid)"}
+                  </p>
+                </div>
+              )}
+              {verificationResult.isVerified && verificationResult.signedMetadata !== undefined && (
+                <div>
+                  <p className="text-gray-500">Signed Metadata</p>
+                  <p className="text-white">
+                    {verificationResult.signedMetadata
+                      ? "File name, type, size, owner, signing key and upload time"
+                      : "None - this image was signed before metadata signing, so only its contents are authenticated"}
+                  </p>
+                </div>
+              )}
+              {hasEmbeddedSignature && (
+                <div>
+                  <p className="text-gray-500">Embedded Signature</p>
+                  <p className="text-white">The file carries its own proof, which is left out when it is hashed</p>
+                </div>
+              )}
+              {verificationResult.subkeyLabel && (
+                <div>
+                  <p className="text-gray-500">Device Sub-Key</p>
+                  <p className="text-white">
+                    {verificationResult.subkeyLabel} (valid until {verificationResult.subkeyValidUntil}), certified by the identity key below
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+          
+          {verificationResult.keyFingerprint && (
+            <div className="mt-4">
+              <KeyDetailsPanel
+                fingerprint={verificationResult.keyFingerprint}
+                algorithm={verificationResult.signatureAlgorithm}
+              />
+            </div>
+          )}
+          
+          {signers.length > 1 && (
+            <div className="mt-4">
+              <SignerListPanel signers={signers} />
+            </div>
+          )}
+          
+          {transparencyLog && (
+            <div className="mt-4">
+              <TransparencyLogPanel result={transparencyLog.result} seenTreeSize={transparencyLog.seenTreeSize} />
             </div>
           )}
         </div>
@@ -0,0 +1,247 @@
+"use client"
+
+import { useState, useRef, ChangeEvent } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+import { ArrowLeft, LifeBuoy, Upload, CheckCircle } from "lucide-react"
+import {
+  importPrivateKey,
+  exportPublicKeyFromPrivateKey,
+  calculateKeyFingerprint,
+  getKeyAlgorithm,
+} from "@/lib/crypto-utils"
+import { parseKeyShare, recoverEncryptedKey, KeyShare } from "@/lib/key-backup"
+import { PrivateKeyDownload } from "@/components/private-key-download"
+import { KeyDetailsPanel } from "@/components/key-details-panel"
+
+interface RecoveredKey {
+  privateKey: CryptoKey
+  fingerprint: string
+}
+
+/**
+ * Reconstructs a private key from Shamir recovery shares
+ * Everything happens in the browser; shares and the passphrase are never sent to the server
+ */
+export default function RecoverKeyPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const shareInputRef = useRef<HTMLInputElement>(null)
+  const [shares, setShares] = useState<KeyShare[]>([])
+  const [pastedShare, setPastedShare] = useState("")
+  const [passphrase, setPassphrase] = useState("")
+  const [isRecovering, setIsRecovering] = useState(false)
+  const [recoveredKey, setRecoveredKey] = useState<RecoveredKey | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const threshold = shares[0]?.threshold
+
+  const addShares = async (texts: string[]) => {
+    setError(null)
+    const added = [...shares]
+
+    for (const text of texts) {
+      try {
+        const share = await parseKeyShare(text)
+
+        if (added.length > 0 && share.setId !== added[0].setId) {
+          throw new Error("This share belongs to a different backup")
+        }
+
+        if (added.some(existing => existing.index === share.index)) {
+          continue
+        }
+
+        added.push(share)
+      } catch (shareError) {
+        setError(shareError instanceof Error ? shareError.message : "Invalid share")
+      }
+    }
+
+    setShares(added.sort((a, b) => a.index - b.index))
+  }
+
+  const handleShareFilesChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      const texts = await Promise.all(Array.from(e.target.files).map(file => file.text()))
+      // Allow selecting the same files again
+      e.target.value = ""
+      await addShares(texts)
+    }
+  }
+
+  const handleAddPastedShare = async () => {
+    await addShares([pastedShare])
+    setPastedShare("")
+  }
+
+  const handleRecover = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    try {
+      setIsRecovering(true)
+      const encryptedKey = recoverEncryptedKey(shares)
+      const privateKey = await importPrivateKey(encryptedKey, passphrase)
+      const fingerprint = await calculateKeyFingerprint(await exportPublicKeyFromPrivateKey(privateKey))
+
+      setRecoveredKey({ privateKey, fingerprint })
+      setPassphrase("")
+      toast({
+        title: "Key Recovered",
+        description: "Check the fingerprint against your account, then save the key.",
+      })
+    } catch (recoverError) {
+      console.error("Error recovering key:", recoverError)
+      setError(recoverError instanceof Error ? recoverError.message : "Failed to recover the key")
+    } finally {
+      setIsRecovering(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-950 via-slate-900 to-blue-950 text-white relative overflow-hidden">
+      {/* Background decorative elements */}
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute -top-40 -right-40 w-96 h-96 bg-blue-500/20 rounded-full blur-3xl" />
+        <div className="absolute top-1/3 -left-40 w-80 h-80 bg-indigo-500/20 rounded-full blur-3xl" />
+        <div className="absolute bottom-20 right-1/4 w-64 h-64 bg-purple-500/20 rounded-full blur-3xl" />
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 relative z-10">
+        <div className="flex items-center mb-8">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => router.push("/dashboard")}
+            className="mr-4 text-blue-100 hover:text-white hover:bg-white/10"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white via-blue-100 to-indigo-200">Recover Private Key</h1>
+        </div>
+
+        {recoveredKey ? (
+          <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10 mb-6 relative overflow-hidden">
+            <div className="absolute -right-20 -top-20 w-40 h-40 bg-green-500/10 rounded-full blur-2xl" />
+            <div className="relative z-10 space-y-4">
+              <div className="flex items-center text-green-300">
+                <CheckCircle className="h-6 w-6 mr-2" />
+                <h2 className="text-xl font-medium">Key Recovered</h2>
+              </div>
+              <KeyDetailsPanel
+                title="Recovered Key"
+                fingerprint={recoveredKey.fingerprint}
+                algorithm={getKeyAlgorithm(recoveredKey.privateKey)}
+              />
+              <p className="text-blue-100/80">
+                Make sure the fingerprint matches the signing key shown on your dashboard, then save the key
+                with a passphrase to use it for uploads again.
+              </p>
+              <PrivateKeyDownload privateKey={recoveredKey.privateKey} />
+            </div>
+          </div>
+        ) : (
+          <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10 mb-6 relative overflow-hidden">
+            <div className="absolute -right-20 -top-20 w-40 h-40 bg-blue-500/10 rounded-full blur-2xl" />
+            <div className="relative z-10 space-y-6">
+              <div className="flex items-start">
+                <div className="w-10 h-10 rounded-full bg-blue-500/20 flex items-center justify-center mr-4">
+                  <LifeBuoy className="h-5 w-5 text-blue-300" />
+                </div>
+                <p className="text-blue-100/80 flex-1">
+                  Collect the recovery shares from your trusted contacts. Add share files, or paste the text
+                  from a scanned QR code. Shares and your passphrase never leave this browser.
+                </p>
+              </div>
+
+              <div
+                className="border-2 border-dashed border-white/20 rounded-lg p-6 text-center cursor-pointer hover:border-white/40 transition-colors"
+                onClick={() => shareInputRef.current?.click()}
+              >
+                <Upload className="h-10 w-10 text-blue-200/50 mx-auto mb-2" />
+                <p className="text-blue-100">Click to add share files</p>
+                <input
+                  type="file"
+                  ref={shareInputRef}
+                  onChange={handleShareFilesChange}
+                  accept=".txt"
+                  multiple
+                  className="hidden"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="pasted-share" className="text-blue-100">Paste a share</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="pasted-share"
+                    value={pastedShare}
+                    onChange={(e) => setPastedShare(e.target.value)}
+                    placeholder="ISV-SHARE-1:..."
+                    className="bg-white/5 border-white/20 focus:border-blue-400/50 focus:ring-blue-400/20 transition-colors font-mono text-xs"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleAddPastedShare}
+                    disabled={!pastedShare.trim()}
+                    className="border-white/20 bg-white/5 hover:bg-white/10 transition-colors"
+                  >
+                    Add
+                  </Button>
+                </div>
+              </div>
+
+              {shares.length > 0 && (
+                <div className="bg-white/5 rounded-lg border border-white/10 p-4">
+                  <p className="text-sm text-white mb-2">
+                    {shares.length} of {threshold} shares needed
+                  </p>
+                  <ul className="text-sm text-blue-100/80 space-y-1">
+                    {shares.map(share => (
+                      <li key={share.index}>
+                        Share {share.index} of {share.total}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {error && (
+                <p className="text-red-300 text-sm">{error}</p>
+              )}
+
+              {threshold !== undefined && shares.length >= threshold && (
+                <form className="space-y-3" onSubmit={handleRecover}>
+                  <div className="space-y-1">
+                    <Label htmlFor="recovery-passphrase" className="text-blue-100">Backup Passphrase</Label>
+                    <Input
+                      id="recovery-passphrase"
+                      type="password"
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                      autoComplete="current-password"
+                      className="bg-white/5 border-white/20 focus:border-blue-400/50 focus:ring-blue-400/20 transition-colors"
+                    />
+                  </div>
+                  <Button
+                    type="submit"
+                    disabled={!passphrase || isRecovering}
+                    className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 transition-all shadow-lg shadow-indigo-500/30 border-0"
+                  >
+                    {isRecovering ? "Recovering..." : "Recover Key"}
+                  </Button>
+                </form>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
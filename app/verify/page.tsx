@@ -4,36 +4,48 @@ import { useState, useRef, ChangeEvent, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { useToast } from "@/hooks/use-toast"
-import { ArrowLeft, Upload, ShieldCheck, ShieldX, ImageIcon, RefreshCw } from "lucide-react"
+import { ArrowLeft, Upload, ShieldCheck, ShieldX, ImageIcon, RefreshCw, FileCheck } from "lucide-react"
+import { KeyDetailsPanel } from "@/components/key-details-panel"
+import { parseSignatureBundle } from "@/lib/signature-bundle"
+import { loadSeenTreeHead, rememberTreeHead, TransparencyVerificationResult, verifyTransparencyProof } from "@/lib/transparency-log"
+import { extractEmbeddedSignature } from "@/lib/embedded-signature"
+import { calculateFileHash } from "@/lib/crypto-utils"
+import { PublicSignerResult, SignerResult, verifyImageContent } from "@/lib/verification-engine"
+import { publishedSignerVerificationResult, signerVerificationResult, VerificationResult, visualMatchVerificationResult } from "@/lib/verification-result"
+import { TransparencyLogPanel } from "@/components/transparency-log-panel"
+import { PublishedSignerListPanel, SignerListPanel } from "@/components/signer-list-panel"
+import { readContentCredentials, ContentCredentialsReport } from "@/lib/c2pa"
+import { ContentCredentialsPanel } from "@/components/content-credentials-panel"
 import { 
-  calculateFileHash, 
-  importPublicKey, 
-  verifyFileSignature 
-} from "@/lib/crypto-utils"
-import { 
-  findImageByHashAction,
-  findImageByFileNameAction,
-  getUserPublicKeyAction
+  findImagesByHashAction,
+  getUserPublicKeyAction,
+  getTrustedTimestampAuthoritiesAction,
+  isRegisteredKeyAction,
+  getTransparencyProofAction,
+  verifyPublishedImageAction
 } from "@/app/actions/verify"
 import { getCurrentUser } from "@/lib/supabase-utils"
 
-interface VerificationResult {
-  isVerified: boolean
-  message: string
-  details?: string
-  ownerEmail?: string
-  uploadDate?: string
-  debugInfo?: string
-}
+// Registry mode looks the image up in the database; proof mode checks it against a downloaded signature bundle only;
+// public mode checks it against every published image, without signing in
+type VerifyMode = "registry" | "proof" | "public"
 
 export default function VerifyPage() {
   const router = useRouter()
   const { toast } = useToast()
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const bundleInputRef = useRef<HTMLInputElement>(null)
+  const [mode, setMode] = useState<VerifyMode>("registry")
   const [file, setFile] = useState<File | null>(null)
+  const [bundleFile, setBundleFile] = useState<File | null>(null)
   const [isVerifying, setIsVerifying] = useState(false)
   const [verificationResult, setVerificationResult] = useState<VerificationResult | null>(null)
   const [imageLoadError, setImageLoadError] = useState(false)
+  const [hasEmbeddedSignature, setHasEmbeddedSignature] = useState(false)
+  const [signers, setSigners] = useState<SignerResult[]>([])
+  const [publishedSigners, setPublishedSigners] = useState<PublicSignerResult[]>([])
+  const [transparencyLog, setTransparencyLog] = useState<{ result: TransparencyVerificationResult | null; seenTreeSize: number | null } | null>(null)
+  const [contentCredentials, setContentCredentials] = useState<ContentCredentialsReport | null>(null)
   const [currentUserId, setCurrentUserId] = useState<string | null>(null)
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false)
 
@@ -48,6 +60,8 @@ export default function VerifyPage() {
           console.log("Current user ID:", user.id)
         } else {
           setIsAuthenticated(false)
+          // Without an account, published images are the only ones to check against
+          setMode("public")
         }
       } catch (error) {
         console.error("Error fetching current user:", error)
@@ -58,6 +72,29 @@ export default function VerifyPage() {
     fetchCurrentUser()
   }, [])
 
+  // Checks the image's entry in the transparency log, and that the log still extends the tree head seen last
+  const checkTransparencyLog = async (image: { id: string; hash: string; signature: string }) => {
+    try {
+      const seenTreeHead = loadSeenTreeHead()
+      const proof = await getTransparencyProofAction(image.id, seenTreeHead?.treeSize)
+      const result = proof ? await verifyTransparencyProof(proof, image, seenTreeHead) : null
+      
+      if (result?.valid) {
+        rememberTreeHead(result.treeHead)
+      }
+      setTransparencyLog({
+        result,
+        seenTreeSize: result?.valid && result.consistentWithSeen ? seenTreeHead?.treeSize ?? null : null,
+      })
+    } catch (error) {
+      console.warn("Could not check the transparency log:", error)
+      setTransparencyLog({
+        result: { valid: false, reason: error instanceof Error ? error.message : String(error) },
+        seenTreeSize: null,
+      })
+    }
+  }
+
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0]
     if (selectedFile) {
@@ -66,9 +103,30 @@ export default function VerifyPage() {
       setImageLoadError(false)
       // Clear previous verification result
       setVerificationResult(null)
+      setHasEmbeddedSignature(false)
+      setSigners([])
+      setPublishedSigners([])
+      setTransparencyLog(null)
+      setContentCredentials(null)
+    }
+  }
+
+  const handleBundleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0]
+    if (selectedFile) {
+      setBundleFile(selectedFile)
+      setVerificationResult(null)
     }
   }
 
+  const handleModeChange = (newMode: VerifyMode) => {
+    setMode(newMode)
+    setVerificationResult(null)
+    setSigners([])
+    setPublishedSigners([])
+    setTransparencyLog(null)
+  }
+
   const handleImageError = () => {
     console.error("Failed to load image preview for file:", file?.name)
     setImageLoadError(true)
@@ -79,25 +137,6 @@ export default function VerifyPage() {
     setImageLoadError(false)
   }
 
-  // Function to check if two hashes are similar (allowing for minor differences)
-  const areHashesSimilar = (hash1: string, hash2: string, tolerance = 5): boolean => {
-    // Count the number of different characters between hashes
-    let differences = 0
-    const minLength = Math.min(hash1.length, hash2.length)
-    
-    for (let i = 0; i < minLength; i++) {
-      if (hash1[i] !== hash2[i]) {
-        differences++
-      }
-    }
-    
-    // Add differences for length mismatch
-    differences += Math.abs(hash1.length - hash2.length)
-    
-    // Return true if the differences are within tolerance
-    return differences <= tolerance
-  }
-
   const verifyImage = async () => {
     if (!file) {
       toast({
@@ -108,6 +147,89 @@ export default function VerifyPage() {
       return
     }
     
+    // Content Credentials are validated on their own, whichever way the image is verified
+    try {
+      setContentCredentials(await readContentCredentials(file))
+    } catch (error) {
+      console.warn("Could not read Content Credentials:", error)
+      setContentCredentials(null)
+    }
+    
+    setTransparencyLog(null)
+    setSigners([])
+    setPublishedSigners([])
+    
+    if (mode === "public") {
+      setIsVerifying(true)
+      try {
+        // Published images are verified on the server, which reveals only who signed them and when
+        const { content, bundle } = await extractEmbeddedSignature(file)
+        setHasEmbeddedSignature(bundle !== null)
+        const results = await verifyPublishedImageAction(await calculateFileHash(content))
+        setPublishedSigners(results)
+        
+        const primary = results.find(signer => signer.status === "valid") ?? results[0]
+        if (!primary) {
+          setVerificationResult({
+            isVerified: false,
+            message: "Not Published",
+            details: "No published image matches this one. Its owner may not have published it, or it was modified.",
+          })
+          return
+        }
+        
+        setVerificationResult(publishedSignerVerificationResult(primary))
+      } catch (error) {
+        console.error("Public verification error:", error)
+        setVerificationResult({
+          isVerified: false,
+          message: "Verification Error",
+          details: error instanceof Error ? error.message : "An error occurred during verification. Please try again.",
+        })
+      } finally {
+        setIsVerifying(false)
+      }
+      return
+    }
+    
+    // Timestamps count as the signing time only when a TSA the server trusts issued them
+    const trustedAuthorities = await getTrustedTimestampAuthoritiesAction()
+    
+    if (mode === "proof") {
+      setIsVerifying(true)
+      try {
+        // Both a proof file the user selected and one embedded in the image are checked
+        const result = await verifyImageContent(file, {
+          detachedBundle: bundleFile ? parseSignatureBundle(await bundleFile.text()) : null,
+          isRegisteredKey: isRegisteredKeyAction,
+          trustedAuthorities,
+        })
+        setHasEmbeddedSignature(result.hasEmbeddedProof)
+        setSigners(result.signers)
+        
+        if (!result.primary) {
+          setVerificationResult({
+            isVerified: false,
+            message: "No Proof Found",
+            details: "This image has no embedded signature. Select the image's .sigbundle.json proof file.",
+          })
+          return
+        }
+        
+        setVerificationResult(signerVerificationResult(result.primary, file.name))
+      } catch (error) {
+        console.error("Proof verification error:", error)
+        setVerificationResult({
+          isVerified: false,
+          message: "Verification Error",
+          details: error instanceof Error ? error.message : "The proof file could not be read.",
+        })
+      } finally {
+        setIsVerifying(false)
+      }
+      return
+    }
+    
     // Ensure user is logged in
     if (!currentUserId) {
       toast({
@@ -130,140 +252,36 @@ export default function VerifyPage() {
         lastModified: new Date(file.lastModified).toISOString()
       })
       
-      // Calculate the hash of the uploaded image
-      const fileHash = await calculateFileHash(file)
-      console.log("File hash calculated:", fileHash)
-      
-      // Check if we have stored details for this file in localStorage
-      let storedDetails = null
-      try {
-        const storedData = localStorage.getItem(`image_${file.name}_details`)
-        if (storedData) {
-          storedDetails = JSON.parse(storedData)
-          console.log("Found stored details for this file:", storedDetails)
-        }
-      } catch (error) {
-        console.warn("Error retrieving stored details:", error)
-      }
+      // The image is found by its content alone, so a renamed copy still verifies;
+      // every upload of the same content and any embedded proof are checked
+      const result = await verifyImageContent(file, {
+        registry: {
+          findImagesByHash: findImagesByHashAction,
+          getPublicKey: getUserPublicKeyAction,
+        },
+        isRegisteredKey: isRegisteredKeyAction,
+        trustedAuthorities,
+      })
+      console.log("File hash calculated:", result.sha256)
       
-      // Search for images with matching filename first to find the original image
-      // This approach allows us to detect if the hash has changed (indicating tampering)
-      const imageByName = await findImageByFileNameAction(file.name, currentUserId)
+      setHasEmbeddedSignature(result.hasEmbeddedProof)
+      setSigners(result.signers)
       
-      if (!imageByName) {
-        // If no image found by filename, try hash as a fallback
-        const imageByHash = await findImageByHashAction(fileHash, currentUserId)
-        
-        if (!imageByHash) {
-          console.log("No image found by filename or hash")
-          setVerificationResult({
-            isVerified: false,
-            message: "Image Not Found",
-            details: "This image has not been registered in our system.",
-          })
-          return
-        }
-        
-        // Found by hash but not by name (unusual case - possibly renamed)
-        console.log("Image found by hash but not by filename")
-        
-        // Get the public key and verify the signature
-        const publicKeyString = await getUserPublicKeyAction(imageByHash.userId)
-        
-        if (!publicKeyString) {
-          console.error("Could not retrieve public key")
-          throw new Error("Could not retrieve public key for verification")
-        }
-        
-        // Import the public key
-        const publicKey = await importPublicKey(publicKeyString)
-        
-        // Verify the signature
-        const isValid = await verifyFileSignature(file, imageByHash.signature, publicKey)
-        
-        if (isValid) {
-          setVerificationResult({
-            isVerified: true,
-            message: "Image Verified Successfully",
-            details: "This image is authentic and has not been modified since it was signed, but it may have been renamed.",
-            uploadDate: new Date(imageByHash.createdAt).toLocaleString(),
-          })
-        } else {
-          setVerificationResult({
-            isVerified: false,
-            message: "Signature Verification Failed",
-            details: "The image hash matches a registered image, but the cryptographic signature is invalid.",
-            uploadDate: new Date(imageByHash.createdAt).toLocaleString(),
-          })
-        }
-        return
-      }
-      
-      // Image found by filename - now check if hash matches
-      if (imageByName.hash !== fileHash) {
-        console.log("Image found by filename but hash doesn't match")
-        console.log("Calculated hash:", fileHash)
-        console.log("Stored hash:", imageByName.hash)
-        
-        // Check if the hashes are similar (allowing for minor differences)
-        const hashesAreSimilar = areHashesSimilar(fileHash, imageByName.hash)
-        console.log("Hashes are similar:", hashesAreSimilar)
-        
-        // Add debugging info to help diagnose the issue
-        const debugInfo = `
-          Calculated hash: ${fileHash}
-          Stored hash: ${imageByName.hash}
-          Hashes similar: ${hashesAreSimilar}
-          File size: ${file.size} bytes
-          File type: ${file.type}
-          Original size: ${imageByName.fileSize} bytes
-          Original type: ${imageByName.fileType}
-        `
-        console.log(debugInfo)
-        
-        setVerificationResult({
+      if (!result.primary) {
+        console.log("No image found by hash")
+        setVerificationResult(await visualMatchVerificationResult(file) ?? {
           isVerified: false,
-          message: "Image Has Been Modified",
-          details: "An image with this filename exists in your account, but its content has been modified since it was originally signed.",
-          uploadDate: new Date(imageByName.createdAt).toLocaleString(),
+          message: "Image Not Found",
+          details: "This image has not been registered in our system.",
         })
         return
       }
       
-      // Hash matches - now verify the cryptographic signature
-      console.log("Hash matches, verifying signature")
-      
-      // Get the public key
-      const publicKeyString = await getUserPublicKeyAction(imageByName.userId)
-      
-      if (!publicKeyString) {
-        console.error("Could not retrieve public key")
-        throw new Error("Could not retrieve public key for verification")
+      if (result.primary.image) {
+        await checkTransparencyLog(result.primary.image)
       }
       
-      // Import the public key
-      const publicKey = await importPublicKey(publicKeyString)
-      
-      // Verify the signature
-      const isValid = await verifyFileSignature(file, imageByName.signature, publicKey)
-      
-      if (isValid) {
-        console.log("Signature verified successfully")
-        setVerificationResult({
-          isVerified: true,
-          message: "Image Verified Successfully",
-          details: "This image is authentic and has not been modified since it was signed.",
-          uploadDate: new Date(imageByName.createdAt).toLocaleString(),
-        })
-      } else {
-        console.log("Signature verification failed")
-        setVerificationResult({
-          isVerified: false,
-          message: "Signature Verification Failed",
-          details: "The image appears unmodified based on its hash, but the cryptographic signature is invalid. This could indicate sophisticated tampering.",
-          uploadDate: new Date(imageByName.createdAt).toLocaleString(),
-        })
-      }
+      setVerificationResult(signerVerificationResult(result.primary, file.name))
     } catch (error: any) {
       console.error("Verification error:", error)
       toast({
@@ -304,6 +322,33 @@ export default function VerifyPage() {
           <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white via-blue-100 to-indigo-200">Verify Image</h1>
         </div>
         
+        <div className="flex gap-2 mb-6">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleModeChange("registry")}
+            className={mode === "registry" ? "bg-white/10 text-white" : "text-blue-100/70 hover:text-white hover:bg-white/10"}
+          >
+            Check against my uploads
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleModeChange("proof")}
+            className={mode === "proof" ? "bg-white/10 text-white" : "text-blue-100/70 hover:text-white hover:bg-white/10"}
+          >
+            Check against a proof file
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleModeChange("public")}
+            className={mode === "public" ? "bg-white/10 text-white" : "text-blue-100/70 hover:text-white hover:bg-white/10"}
+          >
+            Check published images
+          </Button>
+        </div>
+        
         <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10 mb-6 relative overflow-hidden">
           <div className="absolute -right-20 -top-20 w-40 h-40 bg-blue-500/10 rounded-full blur-2xl" />
           <div className="relative z-10">
@@ -359,6 +404,50 @@ export default function VerifyPage() {
           </div>
         </div>
         
+        {mode === "proof" && (
+          <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl border border-white/10 mb-6 relative overflow-hidden">
+            <div className="absolute -left-20 -bottom-20 w-40 h-40 bg-indigo-500/10 rounded-full blur-2xl" />
+            <div className="relative z-10">
+              <h2 className="text-xl font-medium mb-4 text-white">Select Proof File</h2>
+              <div
+                className="border-2 border-dashed border-white/20 rounded-lg p-8 text-center cursor-pointer hover:border-white/40 transition-colors"
+                onClick={() => bundleInputRef.current?.click()}
+              >
+                {bundleFile ? (
+                  <div className="flex flex-col items-center text-green-300">
+                    <FileCheck className="h-12 w-12 mb-2" />
+                    <p className="text-sm text-blue-100">{bundleFile.name}</p>
+                  </div>
+                ) : (
+                  <div className="flex flex-col items-center">
+                    <FileCheck className="h-12 w-12 text-blue-200/50 mb-2" />
+                    <p className="text-blue-100 mb-1">Click to select the image&apos;s proof</p>
+                    <p className="text-sm text-blue-200/50">.sigbundle.json, downloaded from My Images</p>
+                  </div>
+                )}
+                <input
+                  type="file"
+                  ref={bundleInputRef}
+                  onChange={handleBundleFileChange}
+                  accept=".json,application/json"
+                  className="hidden"
+                />
+              </div>
+              <p className="mt-3 text-sm text-blue-100/60">
+                The image is checked against the proof in your browser and is never uploaded; the server is only asked whether the key that made the proof is registered, and which timestamp authorities it trusts.
+                Images with an embedded signature carry their own proof, so no proof file is needed for them.
+              </p>
+            </div>
+          </div>
+        )}
+        
+        {mode === "public" && (
+          <p className="mb-6 text-sm text-blue-100/60">
+            The image is checked against every image its owner has published, without signing in.
+            Only the signer&apos;s display name, key fingerprint and signing time are shown.
+          </p>
+        )}
+        
         {verificationResult && (
           <div className={`bg-white/5 backdrop-blur-md p-6 rounded-2xl mb-6 border border-white/10 relative overflow-hidden ${
             verificationResult.isVerified ? "border-l-4 border-l-green-500" : "border-l-4 border-l-red-500"
@@ -391,22 +480,99 @@ export default function VerifyPage() {
                   </div>
                 )}
                 
+                {verificationResult.signerName && (
+                  <div className="text-sm text-blue-100/80 mb-1">
+                    <span className="font-medium">Signed by:</span> {verificationResult.signerName}
+                  </div>
+                )}
+                
                 {verificationResult.uploadDate && (
                   <div className="text-sm text-blue-100/80">
                     <span className="font-medium">Uploaded:</span> {verificationResult.uploadDate}
                   </div>
                 )}
                 
-                {verificationResult.debugInfo && (
-                  <div className="mt-4 p-3 bg-white/5 backdrop-blur-sm rounded text-xs font-mono text-blue-100/70 whitespace-pre-wrap">
-                    {verificationResult.debugInfo}
+                {verificationResult.timestampTime && (
+                  <div className="text-sm text-blue-100/80 mt-1">
+                    <span className="font-medium">{verificationResult.timestampTrusted ? "Trusted signing time:" : "Timestamped:"}</span>{" "}
+                    {verificationResult.timestampTime} by {verificationResult.timestampAuthority}
+                  </div>
+                )}
+                
+                {verificationResult.timestampProblem && (
+                  <div className="text-sm text-amber-300/90 mt-1">
+                    <span className="font-medium">Timestamp not used:</span> {verificationResult.timestampProblem}
+                  </div>
+                )}
+                
+                {verificationResult.keyRevokedAt && (
+                  <div className="text-sm text-amber-300/90 mt-1">
+                    <span className="font-medium">Key revoked:</span> {verificationResult.keyRevokedAt} ({verificationResult.keyRevocationReason})
+                  </div>
+                )}
+                
+                {verificationResult.keyValidUntil && (
+                  <div className="text-sm text-blue-100/80 mt-1">
+                    <span className="font-medium">Key valid until:</span> {verificationResult.keyValidUntil}
+                    {verificationResult.isVerified && verificationResult.keyExpired && " (the key has since expired, but the image was signed while it was valid)"}
+                  </div>
+                )}
+                
+                {verificationResult.isVerified && verificationResult.signedMetadata !== undefined && (
+                  <div className="text-sm text-blue-100/80 mt-1">
+                    <span className="font-medium">Signed metadata:</span>{" "}
+                    {verificationResult.signedMetadata
+                      ? "file name, type, size, owner, signing key and upload time"
+                      : "none - this image was signed before metadata signing, so only its contents are authenticated"}
                   </div>
                 )}
+                
+                {hasEmbeddedSignature && (
+                  <div className="text-sm text-blue-100/80 mt-1">
+                    <span className="font-medium">Embedded signature:</span> the file carries its own proof, which is left out when it is hashed
+                  </div>
+                )}
+                
+                {verificationResult.subkeyLabel && (
+                  <div className="text-sm text-blue-100/80 mt-1">
+                    <span className="font-medium">Signed with device sub-key:</span> {verificationResult.subkeyLabel} (valid until {verificationResult.subkeyValidUntil}), certified by the identity key below
+                  </div>
+                )}
+                
+                {verificationResult.keyFingerprint && (
+                  <div className="mt-4">
+                    <KeyDetailsPanel
+                      fingerprint={verificationResult.keyFingerprint}
+                      algorithm={verificationResult.signatureAlgorithm}
+                    />
+                  </div>
+                )}
+                
+                {signers.length > 1 && (
+                  <div className="mt-4">
+                    <SignerListPanel signers={signers} />
+                  </div>
+                )}
+                
+                {publishedSigners.length > 1 && (
+                  <div className="mt-4">
+                    <PublishedSignerListPanel signers={publishedSigners} />
+                  </div>
+                )}
+                
+                {transparencyLog && (
+                  <div className="mt-4">
+                    <TransparencyLogPanel result={transparencyLog.result} seenTreeSize={transparencyLog.seenTreeSize} />
+                  </div>
+                )}
+                
               </div>
             </div>
           </div>
         )}
         
+        {contentCredentials && <ContentCredentialsPanel report={contentCredentials} />}
+        
         <div className="flex justify-center">
           <Button
             onClick={verifyImage}
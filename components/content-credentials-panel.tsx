@@ -0,0 +1,91 @@
+"use client"
+
+import { BadgeCheck, BadgeAlert } from "lucide-react"
+import { formatFingerprint } from "@/lib/key-fingerprint"
+import { C2paStatusKind, ContentCredentialsReport } from "@/lib/c2pa"
+
+interface ContentCredentialsPanelProps {
+  report: ContentCredentialsReport
+}
+
+const STATUS_COLORS: Record<C2paStatusKind, string> = {
+  success: "text-green-300",
+  informational: "text-amber-300/90",
+  failure: "text-red-300",
+}
+
+/**
+ * Shows the C2PA manifest found in an image and the result of validating it
+ */
+export function ContentCredentialsPanel({ report }: ContentCredentialsPanelProps) {
+  const { signer } = report
+  const signerName = [signer?.commonName, signer?.organization].filter(Boolean).join(", ")
+
+  return (
+    <div className="bg-white/5 backdrop-blur-md p-6 rounded-2xl mb-6 border border-white/10">
+      <div className="flex items-center mb-3">
+        {report.valid
+          ? <BadgeCheck className="h-5 w-5 mr-2 text-green-300" />
+          : <BadgeAlert className="h-5 w-5 mr-2 text-red-300" />
+        }
+        <h3 className={`text-lg font-medium ${report.valid ? "text-green-300" : "text-red-300"}`}>
+          {report.valid ? "Content Credentials Valid" : "Content Credentials Invalid"}
+        </h3>
+      </div>
+
+      <div className="space-y-1 text-sm text-blue-100/80">
+        <div>
+          <span className="font-medium">Claim generator:</span> {report.claimGenerator}
+        </div>
+        {(report.title || report.format) && (
+          <div>
+            <span className="font-medium">Title:</span> {report.title ?? "untitled"}
+            {report.format && ` (${report.format})`}
+          </div>
+        )}
+        {report.manifestCount > 1 && (
+          <div>
+            <span className="font-medium">Manifests:</span> {report.manifestCount}, showing the active one ({report.manifestLabel})
+          </div>
+        )}
+        {signer && (
+          <>
+            <div>
+              <span className="font-medium">Signed by:</span> {signerName || "unnamed signer"}
+              {signer.issuer && `, issued by ${signer.issuer}`}
+            </div>
+            <div>
+              <span className="font-medium">Certificate valid:</span>{" "}
+              {new Date(signer.notBefore).toLocaleDateString()} to {new Date(signer.notAfter).toLocaleDateString()} ({signer.algorithm})
+            </div>
+            <div>
+              <span className="font-medium">Root key:</span>{" "}
+              <span className="font-mono text-xs break-all">{formatFingerprint(signer.rootKeyFingerprint)}</span>
+            </div>
+          </>
+        )}
+        {report.actions.length > 0 && (
+          <div>
+            <span className="font-medium">Actions:</span>{" "}
+            {report.actions.map(action => [
+              action.action,
+              action.softwareAgent && `by ${action.softwareAgent}`,
+              action.when && `on ${new Date(action.when).toLocaleString()}`,
+            ].filter(Boolean).join(" ")).join("; ")}
+          </div>
+        )}
+        <div>
+          <span className="font-medium">Assertions:</span> {report.assertions.join(", ") || "none"}
+        </div>
+      </div>
+
+      <ul className="mt-4 p-3 bg-white/5 backdrop-blur-sm rounded text-xs font-mono space-y-1">
+        {report.statuses.map((status, index) => (
+          <li key={`${status.code}-${index}`} className={STATUS_COLORS[status.kind]}>
+            {status.code}{status.url && ` (${status.url})`}: <span className="text-blue-100/70">{status.explanation}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
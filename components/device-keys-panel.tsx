@@ -0,0 +1,103 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Laptop } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+import { listDeviceKeysAction, forgetDeviceKeyAction, DeviceKeySummary } from "@/app/actions/keys"
+import { getDeviceId, forgetRememberedKey } from "@/lib/device-key-store"
+
+/**
+ * Lists the devices that remember a signing key and lets the user forget them
+ */
+export function DeviceKeysPanel() {
+  const { toast } = useToast()
+  const [devices, setDevices] = useState<DeviceKeySummary[]>([])
+  const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null)
+  const [forgettingId, setForgettingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadDevices = async () => {
+      setCurrentDeviceId(getDeviceId())
+      const result = await listDeviceKeysAction()
+
+      if (result.success && result.devices) {
+        setDevices(result.devices)
+      } else {
+        console.error("Failed to list devices:", result.message)
+      }
+    }
+
+    loadDevices()
+  }, [])
+
+  const handleForget = async (device: DeviceKeySummary) => {
+    try {
+      setForgettingId(device.id)
+      const result = await forgetDeviceKeyAction(device.id)
+
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+
+      // Other devices drop their copy the next time they load the upload page
+      if (device.deviceId === currentDeviceId) {
+        await forgetRememberedKey(device.keyId)
+      }
+
+      setDevices(devices.filter(d => d.id !== device.id))
+      toast({
+        title: "Device Forgotten",
+        description: `${device.deviceName} will no longer sign with your key.`,
+      })
+    } catch (error) {
+      console.error("Error forgetting device:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to forget the device",
+        variant: "destructive",
+      })
+    } finally {
+      setForgettingId(null)
+    }
+  }
+
+  if (devices.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-lg border border-white/10 p-4">
+      <div className="flex items-center mb-3">
+        <Laptop className="h-4 w-4 mr-2 text-blue-300" />
+        <h4 className="text-sm font-medium text-white">Devices Remembering Your Key</h4>
+      </div>
+      <ul className="space-y-2">
+        {devices.map(device => (
+          <li key={device.id} className="flex items-center justify-between text-sm">
+            <div>
+              <p className="text-blue-100">
+                {device.deviceName}
+                {device.deviceId === currentDeviceId && (
+                  <span className="ml-2 text-xs text-green-300">(this device)</span>
+                )}
+              </p>
+              <p className="text-xs text-blue-100/60">
+                Last used {new Date(device.lastUsedAt).toLocaleString()}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleForget(device)}
+              disabled={forgettingId === device.id}
+              className="text-blue-100 hover:text-white hover:bg-white/10"
+            >
+              {forgettingId === device.id ? "Forgetting..." : "Forget"}
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Terminal } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+import { createEnrollmentChallengeAction } from "@/app/actions/enrollment"
+import { enrollExternalPublicKey, EnrolledKey } from "@/lib/key-enrollment"
+
+interface ExternalKeyEnrollmentProps {
+  onEnrolled: (key: EnrolledKey) => void
+}
+
+interface EnrollmentChallenge {
+  challengeId: string
+  challenge: string
+}
+
+const textareaClassName =
+  "w-full rounded-md border border-white/20 bg-white/5 px-3 py-2 font-mono text-xs text-white focus:border-blue-400/50 focus:outline-none"
+
+/**
+ * Registers a public key generated outside the browser, e.g. with OpenSSL or an HSM
+ * The user proves possession of the private key by signing a one-time challenge
+ */
+export function ExternalKeyEnrollment({ onEnrolled }: ExternalKeyEnrollmentProps) {
+  const { toast } = useToast()
+  const [challenge, setChallenge] = useState<EnrollmentChallenge | null>(null)
+  const [publicKeyText, setPublicKeyText] = useState("")
+  const [proof, setProof] = useState("")
+  const [isEnrolling, setIsEnrolling] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadChallenge = async () => {
+    const result = await createEnrollmentChallengeAction()
+
+    if (result.success && result.challengeId && result.challenge) {
+      setChallenge({ challengeId: result.challengeId, challenge: result.challenge })
+    } else {
+      setError(result.message || "Failed to get an enrollment challenge")
+    }
+  }
+
+  useEffect(() => {
+    loadChallenge()
+  }, [])
+
+  const handleEnroll = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!challenge) {
+      return
+    }
+
+    setError(null)
+    setIsEnrolling(true)
+    try {
+      const enrolled = await enrollExternalPublicKey({
+        challengeId: challenge.challengeId,
+        publicKeyText,
+        proof,
+      })
+      toast({
+        title: "Public Key Registered",
+        description: "Your existing key is now your signing key. Load its private key on the upload page to sign images.",
+      })
+      onEnrolled(enrolled)
+    } catch (enrollError) {
+      console.error("Error enrolling external key:", enrollError)
+      setError(enrollError instanceof Error ? enrollError.message : "Failed to register the public key")
+      // Challenges are single use, so fetch a fresh one for the next attempt
+      setProof("")
+      await loadChallenge()
+    } finally {
+      setIsEnrolling(false)
+    }
+  }
+
+  return (
+    <form className="space-y-4" onSubmit={handleEnroll}>
+      <div className="space-y-1">
+        <Label htmlFor="external-public-key" className="text-blue-100">Public Key</Label>
+        <textarea
+          id="external-public-key"
+          rows={5}
+          value={publicKeyText}
+          onChange={(e) => setPublicKeyText(e.target.value)}
+          placeholder={"-----BEGIN PUBLIC KEY-----\n...\n-----END PUBLIC KEY-----\n\nor an OpenSSH line: ssh-ed25519 AAAA..."}
+          className={textareaClassName}
+        />
+      </div>
+
+      <div className="bg-black/20 rounded-lg border border-white/10 p-4 space-y-2">
+        <div className="flex items-center">
+          <Terminal className="h-4 w-4 mr-2 text-blue-300" />
+          <p className="text-sm font-medium text-white">Sign this challenge with your private key</p>
+        </div>
+        <p className="font-mono text-xs text-blue-100 break-all">
+          {challenge?.challenge ?? "Loading challenge..."}
+        </p>
+        <p className="text-xs text-blue-100/60">
+          Save the challenge without a trailing newline, then sign it with the command for your key type.
+          The challenge expires after 5 minutes.
+        </p>
+        <pre className="font-mono text-xs text-blue-100/80 whitespace-pre-wrap break-all">
+{`printf '%s' '${challenge?.challenge ?? "<challenge>"}' > challenge.txt
+
+# RSA (signed with RSA-PSS, 32 byte salt)
+openssl dgst -sha256 -sigopt rsa_padding_mode:pss -sigopt rsa_pss_saltlen:32 -sign key.pem challenge.txt | base64 -w0
+
+# ECDSA P-256
+openssl dgst -sha256 -sign key.pem challenge.txt | base64 -w0
+
+# Ed25519
+openssl pkeyutl -sign -rawin -inkey key.pem -in challenge.txt | base64 -w0`}
+        </pre>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="external-key-proof" className="text-blue-100">Signature (base64)</Label>
+        <textarea
+          id="external-key-proof"
+          rows={3}
+          value={proof}
+          onChange={(e) => setProof(e.target.value)}
+          className={textareaClassName}
+        />
+      </div>
+
+      {error && (
+        <p className="text-red-300 text-sm">{error}</p>
+      )}
+
+      <Button
+        type="submit"
+        disabled={!challenge || !publicKeyText.trim() || !proof.trim() || isEnrolling}
+        className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 transition-all shadow-lg shadow-indigo-500/30 border-0"
+      >
+        {isEnrolling ? "Registering..." : "Register Public Key"}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,252 @@
+"use client"
+
+import { useState } from "react"
+import Image from "next/image"
+import QRCode from "qrcode"
+import { Download, QrCode, Users } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { downloadStringAsFile } from "@/lib/crypto-utils"
+import { createKeyBackupShares, keyShareFileName, KeyShare } from "@/lib/key-backup"
+
+const MIN_PASSPHRASE_LENGTH = 8
+const MAX_BACKUP_SHARES = 10
+
+interface KeyBackupDialogProps {
+  privateKey: CryptoKey
+}
+
+/**
+ * Button and dialog for splitting a private key into Shamir recovery shares
+ * Shares are created in the browser and handed out as files or QR codes
+ */
+export function KeyBackupDialog({ privateKey }: KeyBackupDialogProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [passphrase, setPassphrase] = useState("")
+  const [confirmPassphrase, setConfirmPassphrase] = useState("")
+  const [shareCount, setShareCount] = useState(5)
+  const [threshold, setThreshold] = useState(3)
+  const [shares, setShares] = useState<KeyShare[]>([])
+  const [qrCodes, setQrCodes] = useState<Record<number, string>>({})
+  const [isCreating, setIsCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen)
+    if (!isOpen) {
+      // Don't keep shares around once the dialog is closed
+      setPassphrase("")
+      setConfirmPassphrase("")
+      setShares([])
+      setQrCodes({})
+      setError(null)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long`)
+      return
+    }
+
+    if (passphrase !== confirmPassphrase) {
+      setError("Passphrases do not match")
+      return
+    }
+
+    if (shareCount < 2 || shareCount > MAX_BACKUP_SHARES) {
+      setError(`Create between 2 and ${MAX_BACKUP_SHARES} shares`)
+      return
+    }
+
+    if (threshold < 2 || threshold > shareCount) {
+      setError("The number of shares needed must be between 2 and the number of shares")
+      return
+    }
+
+    setIsCreating(true)
+    try {
+      setShares(await createKeyBackupShares(privateKey, passphrase, shareCount, threshold))
+      setPassphrase("")
+      setConfirmPassphrase("")
+    } catch (createError) {
+      console.error("Error creating recovery shares:", createError)
+      toast({
+        title: "Backup Failed",
+        description: createError instanceof Error ? createError.message : "Failed to create recovery shares",
+        variant: "destructive",
+      })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleShowQrCode = async (share: KeyShare) => {
+    try {
+      const dataUrl = await QRCode.toDataURL(share.encoded, { errorCorrectionLevel: "L", margin: 2 })
+      setQrCodes({ ...qrCodes, [share.index]: dataUrl })
+    } catch (qrError) {
+      console.error("Error rendering QR code:", qrError)
+      toast({
+        title: "QR Code Unavailable",
+        description: "This share is too large for a QR code. Hand it out as a file instead.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="border-white/20 bg-white/5 hover:bg-white/10 transition-colors"
+      >
+        <Users className="h-4 w-4 mr-2" />
+        Create Recovery Shares
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          {shares.length === 0 ? (
+            <form onSubmit={handleCreate}>
+              <DialogHeader>
+                <DialogTitle>Back Up Your Key With Trusted Contacts</DialogTitle>
+                <DialogDescription>
+                  Your key is encrypted with a passphrase and split into shares. Any {threshold} of
+                  the {shareCount} shares, together with the passphrase, recover the key; fewer
+                  shares reveal nothing about it.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="backup-share-count">Shares</Label>
+                    <Input
+                      id="backup-share-count"
+                      type="number"
+                      min={2}
+                      max={MAX_BACKUP_SHARES}
+                      value={shareCount}
+                      onChange={(e) => setShareCount(Number(e.target.value))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="backup-threshold">Needed to recover</Label>
+                    <Input
+                      id="backup-threshold"
+                      type="number"
+                      min={2}
+                      max={shareCount}
+                      value={threshold}
+                      onChange={(e) => setThreshold(Number(e.target.value))}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="backup-passphrase">Passphrase</Label>
+                  <Input
+                    id="backup-passphrase"
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    autoComplete="new-password"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="backup-passphrase-confirm">Confirm Passphrase</Label>
+                  <Input
+                    id="backup-passphrase-confirm"
+                    type="password"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    autoComplete="new-password"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Keep the passphrase yourself - don&apos;t give it to the people holding the shares.
+                  </p>
+                </div>
+                {error && (
+                  <p className="text-sm text-red-500">{error}</p>
+                )}
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={isCreating}>
+                  {isCreating ? "Creating..." : "Create Shares"}
+                </Button>
+              </DialogFooter>
+            </form>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle>Hand Out Your Recovery Shares</DialogTitle>
+                <DialogDescription>
+                  Give each share to a different trusted contact. Any {shares[0].threshold} of them can
+                  be combined on the recovery page to restore your key.
+                </DialogDescription>
+              </DialogHeader>
+              <ul className="space-y-3 py-4">
+                {shares.map(share => (
+                  <li key={share.index} className="rounded-md border p-3">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium">
+                        Share {share.index} of {share.total}
+                      </p>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => downloadStringAsFile(share.encoded + "\n", keyShareFileName(share), "text/plain")}
+                        >
+                          <Download className="h-4 w-4 mr-1" />
+                          File
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleShowQrCode(share)}
+                          disabled={qrCodes[share.index] !== undefined}
+                        >
+                          <QrCode className="h-4 w-4 mr-1" />
+                          QR Code
+                        </Button>
+                      </div>
+                    </div>
+                    {qrCodes[share.index] && (
+                      <Image
+                        src={qrCodes[share.index]}
+                        alt={`QR code for recovery share ${share.index}`}
+                        width={256}
+                        height={256}
+                        unoptimized
+                        className="mt-3 mx-auto"
+                      />
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <DialogFooter>
+                <Button onClick={() => handleOpenChange(false)}>Done</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { KeyRound } from "lucide-react"
+import { describeFingerprint } from "@/lib/key-fingerprint"
+import { SIGNING_ALGORITHMS, SigningAlgorithm } from "@/lib/crypto-utils"
+
+interface KeyDetailsPanelProps {
+  fingerprint: string
+  algorithm?: SigningAlgorithm
+  createdAt?: string
+  notAfter?: string
+  title?: string
+}
+
+/**
+ * Shows a public key's fingerprint so it can be compared out of band
+ */
+export function KeyDetailsPanel({
+  fingerprint,
+  algorithm,
+  createdAt,
+  notAfter,
+  title = "Signing Key"
+}: KeyDetailsPanelProps) {
+  const display = describeFingerprint(fingerprint)
+  const algorithmLabel = SIGNING_ALGORITHMS.find(a => a.value === algorithm)?.label
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-lg border border-white/10 p-4">
+      <div className="flex items-center mb-3">
+        <KeyRound className="h-4 w-4 mr-2 text-blue-300" />
+        <h4 className="text-sm font-medium text-white">{title}</h4>
+      </div>
+      <div className="text-2xl tracking-widest mb-1" aria-label={display.words}>
+        {display.emoji}
+      </div>
+      <p className="text-xs text-blue-100/70 mb-3">{display.words}</p>
+      <p className="font-mono text-xs text-blue-100/80 break-all mb-2">{display.formatted}</p>
+      {(algorithmLabel || createdAt || notAfter) && (
+        <div className="text-xs text-blue-100/60 space-x-3">
+          {algorithmLabel && <span>{algorithmLabel}</span>}
+          {createdAt && <span>Created {new Date(createdAt).toLocaleDateString()}</span>}
+          {notAfter && <span>Valid until {new Date(notAfter).toLocaleDateString()}</span>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+"use client"
+
+import { useState } from "react"
+import { CalendarClock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+import { KeySummary } from "@/app/actions/keys"
+import { SIGNING_ALGORITHMS, SigningAlgorithm } from "@/lib/crypto-utils"
+import { generateAndEnrollKeyPair, EnrolledKeyPair } from "@/lib/key-enrollment"
+import { getKeyExpiryStatus } from "@/lib/key-status"
+
+interface KeyRenewalBannerProps {
+  activeKey: KeySummary
+  onRotated: (enrolled: EnrolledKeyPair) => void
+}
+
+/**
+ * Warns that the signing key is about to expire, or has expired, and walks
+ * the user through rotating to a new key
+ * Renders nothing while the key is outside the renewal notice period
+ */
+export function KeyRenewalBanner({ activeKey, onRotated }: KeyRenewalBannerProps) {
+  const { toast } = useToast()
+  const [showRotation, setShowRotation] = useState(false)
+  const [algorithm, setAlgorithm] = useState<SigningAlgorithm>(activeKey.algorithm)
+  const [isRotating, setIsRotating] = useState(false)
+
+  const expiry = getKeyExpiryStatus(activeKey.notAfter)
+
+  if (expiry.status === "valid") {
+    return null
+  }
+
+  const isExpired = expiry.status === "expired"
+  const expiryDate = new Date(activeKey.notAfter).toLocaleDateString()
+
+  const handleRotate = async () => {
+    try {
+      setIsRotating(true)
+
+      // Enrolling the new key retires the current one; images stay pinned to the key that signed them
+      const enrolled = await generateAndEnrollKeyPair(algorithm)
+      onRotated(enrolled)
+      toast({
+        title: "Key Rotated",
+        description: "Your new key is active. Download the private key to keep signing images.",
+      })
+    } catch (error) {
+      console.error("Error rotating key:", error)
+      toast({
+        title: "Key Rotation Failed",
+        description: error instanceof Error ? error.message : "Failed to rotate your key",
+        variant: "destructive",
+      })
+    } finally {
+      setIsRotating(false)
+    }
+  }
+
+  return (
+    <div className={`backdrop-blur-md p-6 rounded-2xl mb-6 border ${
+      isExpired ? "bg-red-500/10 border-red-400/30" : "bg-amber-500/10 border-amber-400/30"
+    }`}>
+      <div className="flex items-start">
+        <div className={`w-10 h-10 rounded-full flex items-center justify-center mr-4 ${
+          isExpired ? "bg-red-500/20" : "bg-amber-500/20"
+        }`}>
+          <CalendarClock className={`h-5 w-5 ${isExpired ? "text-red-300" : "text-amber-300"}`} />
+        </div>
+        <div className="flex-1">
+          <h3 className={`text-lg font-medium mb-1 ${isExpired ? "text-red-300" : "text-amber-300"}`}>
+            {isExpired
+              ? "Your Signing Key Has Expired"
+              : `Your Signing Key Expires in ${expiry.daysLeft} ${expiry.daysLeft === 1 ? "Day" : "Days"}`}
+          </h3>
+          <p className="text-blue-100/80 mb-4">
+            {isExpired
+              ? `The key expired on ${expiryDate} and can no longer sign images. Rotate to a new key to keep uploading.`
+              : `The key can sign images until ${expiryDate}. Rotate to a new key before then to keep uploading without interruption.`}
+          </p>
+
+          {showRotation ? (
+            <div className="bg-white/5 rounded-lg border border-white/10 p-4">
+              <ol className="list-decimal list-inside space-y-2 text-sm text-blue-100/80 mb-4">
+                <li>
+                  Generate a new key pair in your browser. It replaces your current key as soon as it is enrolled.
+                </li>
+                <li>
+                  Download the new private key with a passphrase, and optionally create recovery shares for it.
+                </li>
+                <li>
+                  Load the new key on the upload page. Devices that remember the old key and their sub-keys
+                  need to be set up again.
+                </li>
+              </ol>
+              <p className="text-sm text-blue-100/60 mb-4">
+                Images you already signed are not affected: each one stays pinned to the key that signed it
+                and keeps verifying, because it was signed while that key was valid.
+              </p>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <select
+                  value={algorithm}
+                  onChange={(e) => setAlgorithm(e.target.value as SigningAlgorithm)}
+                  disabled={isRotating}
+                  className="h-10 rounded-md border border-white/20 bg-white/5 px-3 text-sm text-white focus:border-blue-400/50 focus:outline-none"
+                >
+                  {SIGNING_ALGORITHMS.map(({ value, label }) => (
+                    <option key={value} value={value} className="bg-slate-900">
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  onClick={handleRotate}
+                  disabled={isRotating}
+                  className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 transition-all shadow-lg shadow-indigo-500/30 border-0"
+                >
+                  {isRotating ? "Generating..." : "Generate New Key"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button
+              onClick={() => setShowRotation(true)}
+              className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 transition-all shadow-lg shadow-indigo-500/30 border-0"
+            >
+              Rotate Key
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+"use client"
+
+import { AlertTriangle, Link2 } from "lucide-react"
+import { ChainAudit, ChainIssueKind } from "@/lib/manifest-chain"
+import { formatDate } from "@/lib/crypto-utils"
+
+interface ManifestChainAuditProps {
+  audit: ChainAudit
+}
+
+const ISSUE_LABELS: Record<ChainIssueKind, string> = {
+  gap: "Gap",
+  fork: "Fork",
+  reordered: "Reordered",
+}
+
+/**
+ * Shows a user's manifest chain as it was walked, newest first, with the
+ * gaps, forks and reordered entries the audit found
+ */
+export function ManifestChainAudit({ audit }: ManifestChainAuditProps) {
+  const titleColor = audit.intact ? "text-green-300" : "text-red-300"
+  const deletedCount = audit.entries.filter(entry => entry.deletedAt).length
+
+  return (
+    <div className="bg-white/5 backdrop-blur-md rounded-2xl border border-white/10 p-6 mb-8">
+      <div className="flex items-center mb-2">
+        <Link2 className={`h-5 w-5 mr-2 ${titleColor}`} />
+        <h2 className={`text-lg font-medium ${titleColor}`}>
+          {audit.intact ? "Upload Chain Intact" : "Upload Chain Broken"}
+        </h2>
+      </div>
+
+      <p className="text-sm text-blue-100/70 mb-4">
+        {audit.entries.length === 0
+          ? "None of your images has a signed manifest yet."
+          : audit.intact
+            ? "Every signed upload links to the one before it, so none was removed, inserted or reordered."
+            : `Found ${audit.issues.length} problem${audit.issues.length === 1 ? "" : "s"} walking your uploads back from the newest.`}
+        {deletedCount > 0 &&
+          ` ${deletedCount} deleted image${deletedCount === 1 ? " is" : "s are"} accounted for by ${deletedCount === 1 ? "its" : "their"} deletion record.`}
+      </p>
+
+      {audit.issues.length > 0 && (
+        <ul className="mb-4 space-y-1">
+          {audit.issues.map((issue, i) => (
+            <li key={i} className="flex items-start text-sm text-red-300/90">
+              <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+              <span>
+                <span className="font-medium">{ISSUE_LABELS[issue.kind]}:</span> {issue.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ol className="space-y-1">
+        {audit.entries.map(entry => (
+          <li
+            key={entry.imageId}
+            className={`flex items-center justify-between text-xs rounded-md px-3 py-2 ${entry.segmentStart ? "mt-3" : ""} ${entry.issues.length > 0 ? "bg-red-500/10" : "bg-white/5"}`}
+          >
+            <div className="min-w-0 mr-4">
+              <div className={`truncate ${entry.deletedAt ? "text-blue-200/60 line-through" : "text-white"}`} title={entry.fileName}>
+                {entry.fileName}
+              </div>
+              <div className="font-mono text-blue-200/60 truncate" title={entry.manifestHash}>
+                {entry.manifestHash.slice(0, 16)}
+                {entry.unchained
+                  ? " · signed before uploads were chained"
+                  : ` ← ${entry.previousManifestHash ? entry.previousManifestHash.slice(0, 16) : "first upload"}`}
+              </div>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {entry.deletedAt && (
+                <span className="px-2 py-0.5 bg-white/10 rounded-full text-blue-200/80" title={formatDate(entry.deletedAt)}>
+                  Deleted
+                </span>
+              )}
+              {entry.issues.map(kind => (
+                <span key={kind} className="px-2 py-0.5 bg-red-500/20 rounded-full text-red-300">
+                  {ISSUE_LABELS[kind]}
+                </span>
+              ))}
+              <span className="text-blue-200/60 whitespace-nowrap">{formatDate(entry.signedAt)}</span>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+"use client"
+
+import { useState } from "react"
+import { FileKey } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+import { exportPrivateKey, exportPrivateKeyPem, downloadStringAsFile } from "@/lib/crypto-utils"
+
+const MIN_PASSPHRASE_LENGTH = 8
+
+type KeyFileFormat = "json" | "pem"
+
+interface PrivateKeyDownloadProps {
+  privateKey: CryptoKey
+  fileName?: string
+  onDownloaded?: () => void
+}
+
+/**
+ * Asks for a passphrase and downloads the private key as an encrypted key file
+ * or, for use with OpenSSL and other tooling, an encrypted PKCS#8 PEM file
+ */
+export function PrivateKeyDownload({
+  privateKey,
+  fileName = "private-key.enc.json",
+  onDownloaded
+}: PrivateKeyDownloadProps) {
+  const { toast } = useToast()
+  const [passphrase, setPassphrase] = useState("")
+  const [confirmPassphrase, setConfirmPassphrase] = useState("")
+  const [format, setFormat] = useState<KeyFileFormat>("json")
+  const [isEncrypting, setIsEncrypting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleDownload = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long`)
+      return
+    }
+
+    if (passphrase !== confirmPassphrase) {
+      setError("Passphrases do not match")
+      return
+    }
+
+    setIsEncrypting(true)
+    try {
+      if (format === "pem") {
+        const encryptedKey = await exportPrivateKeyPem(privateKey, passphrase)
+        downloadStringAsFile(encryptedKey, fileName.replace(/\.json$/, ".pem"), "application/x-pem-file")
+      } else {
+        const encryptedKey = await exportPrivateKey(privateKey, passphrase)
+        downloadStringAsFile(encryptedKey, fileName, "application/json")
+      }
+      setPassphrase("")
+      setConfirmPassphrase("")
+      onDownloaded?.()
+    } catch (downloadError) {
+      console.error("Error exporting private key:", downloadError)
+      toast({
+        title: "Download Failed",
+        description: "Failed to encrypt your private key. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsEncrypting(false)
+    }
+  }
+
+  return (
+    <form className="space-y-3" onSubmit={handleDownload}>
+      <div className="space-y-1">
+        <Label htmlFor="key-passphrase" className="text-blue-100">Passphrase</Label>
+        <Input
+          id="key-passphrase"
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoComplete="new-password"
+          className="bg-white/5 border-white/20 focus:border-blue-400/50 focus:ring-blue-400/20 transition-colors"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="key-passphrase-confirm" className="text-blue-100">Confirm Passphrase</Label>
+        <Input
+          id="key-passphrase-confirm"
+          type="password"
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+          autoComplete="new-password"
+          className="bg-white/5 border-white/20 focus:border-blue-400/50 focus:ring-blue-400/20 transition-colors"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="key-file-format" className="text-blue-100">Format</Label>
+        <select
+          id="key-file-format"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as KeyFileFormat)}
+          className="h-10 w-full rounded-md border border-white/20 bg-white/5 px-3 text-sm text-white focus:border-blue-400/50 focus:outline-none"
+        >
+          <option value="json" className="bg-slate-900">Encrypted key file (.enc.json)</option>
+          <option value="pem" className="bg-slate-900">Encrypted PKCS#8 PEM (.pem, for OpenSSL)</option>
+        </select>
+      </div>
+      {error && (
+        <p className="text-red-300 text-sm">{error}</p>
+      )}
+      <Button
+        type="submit"
+        disabled={isEncrypting}
+        className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 transition-all shadow-lg shadow-indigo-500/30 border-0"
+      >
+        <FileKey className="h-4 w-4 mr-2" />
+        {isEncrypting ? "Encrypting..." : "Download Private Key"}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,153 @@
+"use client"
+
+import { useState } from "react"
+import { ShieldOff } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useToast } from "@/hooks/use-toast"
+import { revokeKeyAction } from "@/app/actions/keys"
+import { REVOCATION_REASONS, RevocationReason } from "@/lib/key-status"
+
+interface RevokeKeyDialogProps {
+  keyId: string
+  onRevoked?: () => void
+  // Defaults to revoking an identity key; sub-keys pass revokeSubkeyAction
+  revokeAction?: typeof revokeKeyAction
+  buttonLabel?: string
+}
+
+/**
+ * Formats a date for a datetime-local input in the user's time zone
+ */
+function toDateTimeLocal(date: Date): string {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16)
+}
+
+/**
+ * Button and dialog for revoking a signing key with a reason and effective date
+ */
+export function RevokeKeyDialog({
+  keyId,
+  onRevoked,
+  revokeAction = revokeKeyAction,
+  buttonLabel = "Revoke Key"
+}: RevokeKeyDialogProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [reason, setReason] = useState<RevocationReason>("key_compromise")
+  const [effectiveAt, setEffectiveAt] = useState("")
+  const [isRevoking, setIsRevoking] = useState(false)
+
+  const handleOpen = () => {
+    setReason("key_compromise")
+    setEffectiveAt(toDateTimeLocal(new Date()))
+    setOpen(true)
+  }
+
+  const handleRevoke = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setIsRevoking(true)
+      const result = await revokeAction({
+        keyId,
+        reason,
+        effectiveAt: new Date(effectiveAt).toISOString(),
+      })
+
+      if (!result.success) {
+        throw new Error(result.message)
+      }
+
+      setOpen(false)
+      toast({
+        title: "Key Revoked",
+        description: "Signatures made with this key from the effective date on will fail verification. Set up a new key to keep signing images.",
+      })
+      onRevoked?.()
+    } catch (error) {
+      console.error("Error revoking key:", error)
+      toast({
+        title: "Revocation Failed",
+        description: error instanceof Error ? error.message : "Failed to revoke the key",
+        variant: "destructive",
+      })
+    } finally {
+      setIsRevoking(false)
+    }
+  }
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleOpen}
+        className="border-red-400/30 text-red-300 hover:text-red-200 hover:bg-red-500/10"
+      >
+        <ShieldOff className="h-4 w-4 mr-2" />
+        {buttonLabel}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <form onSubmit={handleRevoke}>
+            <DialogHeader>
+              <DialogTitle>Revoke Signing Key</DialogTitle>
+              <DialogDescription>
+                Images signed with this key on or after the effective date will no longer verify.
+                Earlier signatures stay valid. This cannot be undone.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="revocation-reason">Reason</Label>
+                <select
+                  id="revocation-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value as RevocationReason)}
+                  className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+                >
+                  {REVOCATION_REASONS.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="revocation-effective-at">Effective from</Label>
+                <Input
+                  id="revocation-effective-at"
+                  type="datetime-local"
+                  value={effectiveAt}
+                  max={toDateTimeLocal(new Date())}
+                  onChange={(e) => setEffectiveAt(e.target.value)}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  If the key was compromised earlier, backdate this to when the compromise may have begun.
+                </p>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" variant="destructive" disabled={!effectiveAt || isRevoking}>
+                {isRevoking ? "Revoking..." : "Revoke Key"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,117 @@
+"use client"
+
+import { ReactNode } from "react"
+import { Users } from "lucide-react"
+import { formatFingerprint } from "@/lib/key-fingerprint"
+import {
+  PublicSignerResult,
+  SIGNATURE_STATUS_LABELS,
+  SignatureSource,
+  SignatureStatus,
+  SignerResult,
+} from "@/lib/verification-engine"
+
+interface SignerListPanelProps {
+  signers: SignerResult[]
+}
+
+interface PublishedSignerListPanelProps {
+  signers: PublicSignerResult[]
+}
+
+const SOURCE_LABELS: Record<SignatureSource, string> = {
+  registry: "Registered",
+  embedded: "Embedded proof",
+  detached: "Proof file",
+}
+
+interface SignerRowProps {
+  title: ReactNode
+  status: SignatureStatus
+  keyFingerprint: string | null
+  reason: string | null
+}
+
+function SignerRow({ title, status, keyFingerprint, reason }: SignerRowProps) {
+  return (
+    <li className="text-xs text-blue-100/80">
+      <div className="flex items-center justify-between">
+        <span>{title}</span>
+        <span className={status === "valid" ? "text-green-300" : "text-red-300"}>
+          {SIGNATURE_STATUS_LABELS[status]}
+        </span>
+      </div>
+      {keyFingerprint && (
+        <div className="font-mono break-all text-blue-200/60">
+          {formatFingerprint(keyFingerprint).slice(0, 19)}
+        </div>
+      )}
+      {reason && <div className="text-red-300/80">{reason}</div>}
+    </li>
+  )
+}
+
+function SignerListFrame({ count, children }: { count: number; children: ReactNode }) {
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-lg border border-white/10 p-4">
+      <div className="flex items-center mb-2">
+        <Users className="h-4 w-4 mr-2 text-blue-300" />
+        <h4 className="text-sm font-medium text-white">
+          {count} Signatures Found for This Content
+        </h4>
+      </div>
+
+      <ul className="space-y-2">{children}</ul>
+    </div>
+  )
+}
+
+/**
+ * Lists every signature found for an image's content, from its registrations
+ * and the proofs that came with it, with whether each one holds
+ */
+export function SignerListPanel({ signers }: SignerListPanelProps) {
+  return (
+    <SignerListFrame count={signers.length}>
+      {signers.map((signer, i) => (
+        <SignerRow
+          key={signer.image?.id ?? `${signer.source}-${i}`}
+          title={
+            <>
+              {SOURCE_LABELS[signer.source]}
+              {signer.image && <> as <span className="text-white">{signer.image.fileName}</span></>}
+              {signer.signedAt && <>, {new Date(signer.signedAt).toLocaleString()}</>}
+            </>
+          }
+          status={signer.status}
+          keyFingerprint={signer.keyFingerprint}
+          reason={signer.reason}
+        />
+      ))}
+    </SignerListFrame>
+  )
+}
+
+/**
+ * Lists the signers of every published registration of an image's content
+ */
+export function PublishedSignerListPanel({ signers }: PublishedSignerListPanelProps) {
+  return (
+    <SignerListFrame count={signers.length}>
+      {signers.map((signer, i) => (
+        <SignerRow
+          key={i}
+          title={
+            <>
+              Signed by <span className="text-white">{signer.displayName}</span>
+              {signer.signedAt && <>, {new Date(signer.signedAt).toLocaleString()}</>}
+            </>
+          }
+          status={signer.status}
+          keyFingerprint={signer.keyFingerprint}
+          reason={signer.reason}
+        />
+      ))}
+    </SignerListFrame>
+  )
+}
@@ -0,0 +1,77 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { KeyRound } from "lucide-react"
+import { listSubkeysAction, revokeSubkeyAction, SubkeySummary } from "@/app/actions/keys"
+import { RevokeKeyDialog } from "@/components/revoke-key-dialog"
+import { formatFingerprint } from "@/lib/key-fingerprint"
+
+interface SubkeysPanelProps {
+  identityKeyId: string
+}
+
+/**
+ * Lists the device sub-keys certified by the identity key and lets the user
+ * revoke one, e.g. when a device is lost
+ */
+export function SubkeysPanel({ identityKeyId }: SubkeysPanelProps) {
+  const [subkeys, setSubkeys] = useState<SubkeySummary[]>([])
+
+  const loadSubkeys = useCallback(async () => {
+    const result = await listSubkeysAction()
+
+    if (result.success && result.subkeys) {
+      setSubkeys(result.subkeys.filter(subkey => subkey.identityKeyId === identityKeyId))
+    } else {
+      console.error("Failed to list sub-keys:", result.message)
+    }
+  }, [identityKeyId])
+
+  useEffect(() => {
+    loadSubkeys()
+  }, [loadSubkeys])
+
+  if (subkeys.length === 0) {
+    return null
+  }
+
+  const now = Date.now()
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-lg border border-white/10 p-4">
+      <div className="flex items-center mb-3">
+        <KeyRound className="h-4 w-4 mr-2 text-blue-300" />
+        <h4 className="text-sm font-medium text-white">Device Sub-Keys</h4>
+      </div>
+      <ul className="space-y-3">
+        {subkeys.map(subkey => {
+          const isExpired = new Date(subkey.notAfter).getTime() < now
+
+          return (
+            <li key={subkey.id} className="flex items-center justify-between text-sm">
+              <div>
+                <p className="text-blue-100">{subkey.deviceLabel}</p>
+                <p className="text-xs text-blue-100/60 font-mono">
+                  {formatFingerprint(subkey.fingerprint).slice(0, 19)}
+                </p>
+                <p className="text-xs text-blue-100/60">
+                  {subkey.revokedAt
+                    ? `Revoked ${new Date(subkey.revokedAt).toLocaleString()}`
+                    : `${isExpired ? "Expired" : "Valid until"} ${new Date(subkey.notAfter).toLocaleString()}`}
+                </p>
+              </div>
+              {!subkey.revokedAt && !isExpired && (
+                <RevokeKeyDialog
+                  keyId={subkey.id}
+                  revokeAction={revokeSubkeyAction}
+                  buttonLabel="Revoke"
+                  onRevoked={loadSubkeys}
+                />
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { ScrollText } from "lucide-react"
+import { formatFingerprint } from "@/lib/key-fingerprint"
+import { TransparencyVerificationResult } from "@/lib/transparency-log"
+
+interface TransparencyLogPanelProps {
+  // Null for images uploaded before the transparency log
+  result: TransparencyVerificationResult | null
+  // Size of the tree head this browser saw before, when the log was checked against it
+  seenTreeSize: number | null
+}
+
+/**
+ * Shows whether an image's signature is in the transparency log, and whether
+ * the log still extends the tree head this browser saw before
+ */
+export function TransparencyLogPanel({ result, seenTreeSize }: TransparencyLogPanelProps) {
+  const isPending = result?.valid === false && result.pending === true
+  const titleColor = !result ? "text-white" : result.valid ? "text-green-300" : isPending ? "text-amber-300" : "text-red-300"
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-lg border border-white/10 p-4">
+      <div className="flex items-center mb-2">
+        <ScrollText className={`h-4 w-4 mr-2 ${!result ? "text-blue-300" : titleColor}`} />
+        <h4 className={`text-sm font-medium ${titleColor}`}>
+          {!result
+            ? "Not in the Transparency Log"
+            : result.valid
+              ? "Recorded in the Transparency Log"
+              : isPending ? "Awaiting the Next Tree Head" : "Transparency Log Check Failed"}
+        </h4>
+      </div>
+
+      {!result && (
+        <p className="text-xs text-blue-100/70">This image was uploaded before signatures were logged.</p>
+      )}
+
+      {result && !result.valid && (
+        <p className={`text-xs ${isPending ? "text-amber-300/90" : "text-red-300/90"}`}>{result.reason}</p>
+      )}
+
+      {result?.valid && (
+        <div className="text-xs text-blue-100/80 space-y-1">
+          <div>
+            Entry {result.leafIndex + 1} of {result.treeHead.treeSize}, in the tree head signed{" "}
+            {new Date(result.treeHead.timestamp).toLocaleString()}
+          </div>
+          <div>
+            Log key: <span className="font-mono break-all">{formatFingerprint(result.treeHead.logId).slice(0, 19)}</span>
+          </div>
+          <div>
+            {result.consistentWithSeen
+              ? `The log still extends the tree of size ${seenTreeSize} this browser saw before, so no earlier entry was removed or changed.`
+              : "This is the first tree head this browser has seen from the log; later checks will prove the log only grew since."}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,266 @@
+/**
+ * Minimal DER encoding and decoding
+ * Covers the ASN.1 structures needed for PEM key files and X.509
+ * certificates: SEQUENCE, SET, INTEGER, BOOLEAN, BIT and OCTET STRING,
+ * OBJECT IDENTIFIER, NULL, strings and times
+ */
+
+export const ASN1_TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OBJECT_IDENTIFIER: 0x06,
+  UTF8_STRING: 0x0c,
+  PRINTABLE_STRING: 0x13,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const;
+
+export interface Asn1Node {
+  tag: number;
+  value: Uint8Array;
+  children: Asn1Node[];
+}
+
+/**
+ * Reads one DER element starting at an offset
+ */
+function readElement(bytes: Uint8Array, offset: number): { node: Asn1Node; next: number } {
+  if (offset + 2 > bytes.length) {
+    throw new Error("Invalid DER: unexpected end of data");
+  }
+
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let position = offset + 2;
+
+  // Long form lengths give the number of length bytes in the low bits
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4) {
+      throw new Error("Invalid DER: unsupported length encoding");
+    }
+
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + bytes[position + i];
+    }
+    position += lengthBytes;
+  }
+
+  if (position + length > bytes.length) {
+    throw new Error("Invalid DER: element extends past end of data");
+  }
+
+  const value = bytes.slice(position, position + length);
+  // Constructed elements (bit 6 set) contain further elements
+  const children = tag & 0x20 ? parseDerSequence(value) : [];
+
+  return { node: { tag, value, children }, next: position + length };
+}
+
+/**
+ * Parses consecutive DER elements
+ */
+function parseDerSequence(bytes: Uint8Array): Asn1Node[] {
+  const nodes: Asn1Node[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const { node, next } = readElement(bytes, offset);
+    nodes.push(node);
+    offset = next;
+  }
+
+  return nodes;
+}
+
+/**
+ * Parses a single DER-encoded element and its children
+ * @param bytes - The DER encoding
+ * @returns The parsed element tree
+ */
+export function parseDer(bytes: Uint8Array): Asn1Node {
+  const { node, next } = readElement(bytes, 0);
+
+  if (next !== bytes.length) {
+    throw new Error("Invalid DER: trailing data");
+  }
+
+  return node;
+}
+
+/**
+ * Encodes a DER element from its tag and value
+ */
+export function encodeDer(tag: number, value: Uint8Array): Uint8Array {
+  let header: number[];
+
+  if (value.length < 0x80) {
+    header = [tag, value.length];
+  } else {
+    const lengthBytes: number[] = [];
+    for (let length = value.length; length > 0; length = Math.floor(length / 256)) {
+      lengthBytes.unshift(length % 256);
+    }
+    header = [tag, 0x80 | lengthBytes.length, ...lengthBytes];
+  }
+
+  const result = new Uint8Array(header.length + value.length);
+  result.set(header);
+  result.set(value, header.length);
+  return result;
+}
+
+/**
+ * Encodes a SEQUENCE of already encoded elements
+ */
+export function encodeSequence(...elements: Uint8Array[]): Uint8Array {
+  const length = elements.reduce((total, element) => total + element.length, 0);
+  const value = new Uint8Array(length);
+
+  let offset = 0;
+  for (const element of elements) {
+    value.set(element, offset);
+    offset += element.length;
+  }
+
+  return encodeDer(ASN1_TAG.SEQUENCE, value);
+}
+
+/**
+ * Encodes a non-negative INTEGER from a number or its big-endian bytes
+ */
+export function encodeInteger(value: number | Uint8Array): Uint8Array {
+  let bytes: number[];
+
+  if (typeof value === "number") {
+    bytes = [];
+    for (let v = value; v > 0; v = Math.floor(v / 256)) {
+      bytes.unshift(v % 256);
+    }
+  } else {
+    bytes = Array.from(value);
+    // Strip redundant leading zeros
+    while (bytes.length > 1 && bytes[0] === 0) {
+      bytes.shift();
+    }
+  }
+
+  if (bytes.length === 0) {
+    bytes = [0];
+  }
+
+  // A set high bit would make the integer negative
+  if (bytes[0] & 0x80) {
+    bytes.unshift(0);
+  }
+
+  return encodeDer(ASN1_TAG.INTEGER, new Uint8Array(bytes));
+}
+
+/**
+ * Decodes a non-negative INTEGER that fits in a JavaScript number
+ */
+export function decodeInteger(node: Asn1Node): number {
+  if (node.tag !== ASN1_TAG.INTEGER) {
+    throw new Error("Invalid DER: expected an INTEGER");
+  }
+
+  return node.value.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+/**
+ * Gets the magnitude bytes of an INTEGER without its sign padding
+ */
+export function decodeIntegerBytes(node: Asn1Node): Uint8Array {
+  if (node.tag !== ASN1_TAG.INTEGER) {
+    throw new Error("Invalid DER: expected an INTEGER");
+  }
+
+  let start = 0;
+  while (start < node.value.length - 1 && node.value[start] === 0) {
+    start++;
+  }
+
+  return node.value.slice(start);
+}
+
+/**
+ * Encodes an OCTET STRING
+ */
+export function encodeOctetString(value: Uint8Array): Uint8Array {
+  return encodeDer(ASN1_TAG.OCTET_STRING, value);
+}
+
+/**
+ * Encodes an OBJECT IDENTIFIER from dotted notation
+ * Arcs may exceed JavaScript's safe integers, as in UUID-based 2.25 OIDs
+ */
+export function encodeOid(oid: string): Uint8Array {
+  const parts = oid.split(".").map(part => BigInt(part));
+  const first = parts[0] * BigInt(40) + parts[1];
+  const bytes: number[] = [];
+
+  for (const part of [first, ...parts.slice(2)]) {
+    // Base-128 with the high bit set on all but the last byte
+    const chunk: number[] = [Number(part % BigInt(128))];
+    for (let v = part / BigInt(128); v > BigInt(0); v = v / BigInt(128)) {
+      chunk.unshift(Number(v % BigInt(128)) | 0x80);
+    }
+    bytes.push(...chunk);
+  }
+
+  return encodeDer(ASN1_TAG.OBJECT_IDENTIFIER, new Uint8Array(bytes));
+}
+
+/**
+ * Decodes an OBJECT IDENTIFIER to dotted notation
+ */
+export function decodeOid(node: Asn1Node): string {
+  if (node.tag !== ASN1_TAG.OBJECT_IDENTIFIER || node.value.length === 0) {
+    throw new Error("Invalid DER: expected an OBJECT IDENTIFIER");
+  }
+
+  const arcs: bigint[] = [];
+  let current = BigInt(0);
+
+  for (const byte of node.value) {
+    current = current * BigInt(128) + BigInt(byte & 0x7f);
+    if (!(byte & 0x80)) {
+      arcs.push(current);
+      current = BigInt(0);
+    }
+  }
+
+  // The first subidentifier combines the first two arcs
+  const first = arcs[0] < BigInt(80) ? arcs[0] / BigInt(40) : BigInt(2);
+  return [first, arcs[0] - first * BigInt(40), ...arcs.slice(1)].join(".");
+}
+
+/**
+ * Encodes a NULL
+ */
+export function encodeNull(): Uint8Array {
+  return new Uint8Array([ASN1_TAG.NULL, 0]);
+}
+
+/**
+ * Encodes a BIT STRING with no unused bits
+ */
+export function encodeBitString(value: Uint8Array): Uint8Array {
+  const content = new Uint8Array(value.length + 1);
+  content.set(value, 1);
+  return encodeDer(ASN1_TAG.BIT_STRING, content);
+}
+
+/**
+ * Re-encodes a parsed element, e.g. to get the exact bytes a signature covers
+ */
+export function encodeNode(node: Asn1Node): Uint8Array {
+  return encodeDer(node.tag, node.value);
+}
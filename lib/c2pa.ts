@@ -0,0 +1,914 @@
+/**
+ * Content Credentials (C2PA)
+ * A C2PA manifest store is a JUMBF box structure holding a claim, the
+ * assertions it references by hash, and a COSE_Sign1 signature over the claim
+ * with the signer's X.509 certificate chain. It is embedded in JPEG files as
+ * APP11 segments and in PNG files as a caBX chunk, and binds to the image
+ * with a hash over the file excluding the manifest store itself.
+ *
+ * Manifests produced here are signed by a one-time claim signing key whose
+ * certificate is issued by the user's signing key, so the chain in every
+ * manifest leads back to a key the user has registered
+ */
+
+import { CborMap, CborValue, decodeCbor, encodeCbor, encodeCborTagged, isCborMap } from "@/lib/cbor";
+import { bytesToBase64, calculateKeyFingerprint, base64ToBytes, getCrypto } from "@/lib/crypto-utils";
+import {
+  ByteRange,
+  concatBytes,
+  detectContainer,
+  encodeJpegSegment,
+  encodePngChunk,
+  insertBytes,
+  jpegInsertionPoint,
+  JPEG_MARKER,
+  JPEG_MAX_SEGMENT_DATA,
+  pngInsertionPoint,
+  readJpegSegments,
+  readPngChunks,
+  removeRanges,
+  startsWith,
+} from "@/lib/image-container";
+import { TimestampInfo, verifyTimestampToken } from "@/lib/timestamp";
+import {
+  Certificate,
+  ecdsaComponentSize,
+  importCertificateKey,
+  issueCertificate,
+  parseCertificate,
+  verifyCertificateSignature,
+} from "@/lib/x509";
+
+const CLAIM_GENERATOR_NAME = "Image Security Verification";
+const CLAIM_GENERATOR_VERSION = "0.1.0";
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// JUMBF box types, as the first four bytes of C2PA's UUIDs
+const C2PA_UUID_SUFFIX = "00110010800000aa00389b71";
+const JUMBF_UUID = {
+  MANIFEST_STORE: `63327061${C2PA_UUID_SUFFIX}`,
+  MANIFEST: `63326d61${C2PA_UUID_SUFFIX}`,
+  UPDATE_MANIFEST: `6332756d${C2PA_UUID_SUFFIX}`,
+  ASSERTION_STORE: `63326173${C2PA_UUID_SUFFIX}`,
+  CLAIM: `6332636c${C2PA_UUID_SUFFIX}`,
+  SIGNATURE: `63326373${C2PA_UUID_SUFFIX}`,
+  CBOR: `63626f72${C2PA_UUID_SUFFIX}`,
+  JSON: `6a736f6e${C2PA_UUID_SUFFIX}`,
+} as const;
+
+// Labels are present and the box is requestable
+const JUMBF_TOGGLES = 0x03;
+
+// APP11 segments carrying JUMBF start with "JP"
+const JPEG_JUMBF_ID = new Uint8Array([0x4a, 0x50]);
+const JPEG_BOX_INSTANCE = 1;
+const PNG_CHUNK_TYPE = "caBX";
+
+// COSE algorithm identifiers (RFC 9053)
+const COSE_ALGORITHMS: Record<number, { name: string; hash: string }> = {
+  [-7]: { name: "ES256", hash: "SHA-256" },
+  [-35]: { name: "ES384", hash: "SHA-384" },
+  [-36]: { name: "ES512", hash: "SHA-512" },
+  [-37]: { name: "PS256", hash: "SHA-256" },
+  [-38]: { name: "PS384", hash: "SHA-384" },
+  [-39]: { name: "PS512", hash: "SHA-512" },
+  [-8]: { name: "Ed25519", hash: "SHA-512" },
+};
+const COSE_HEADER_ALG = 1;
+const COSE_HEADER_X5CHAIN = 33;
+const COSE_SIGN1_TAG = 18;
+
+const HASH_ALGORITHMS: Record<string, string> = {
+  sha256: "SHA-256",
+  sha384: "SHA-384",
+  sha512: "SHA-512",
+};
+
+interface JumbfBox {
+  type: string;
+  // The box without its header
+  payload: Uint8Array;
+}
+
+interface JumbfSuperbox {
+  uuid: string;
+  label: string | null;
+  // The superbox without its header, which is what hashed URIs cover
+  contents: Uint8Array;
+  contentBoxes: JumbfBox[];
+  children: JumbfSuperbox[];
+}
+
+interface HashedUri {
+  url: string;
+  hash: Uint8Array;
+  alg?: string;
+}
+
+export type C2paStatusKind = "success" | "informational" | "failure";
+
+export interface C2paStatus {
+  // Validation status code as defined by the C2PA specification
+  code: string;
+  kind: C2paStatusKind;
+  explanation: string;
+  url?: string;
+}
+
+export interface C2paAction {
+  action: string;
+  when: string | null;
+  softwareAgent: string | null;
+}
+
+export interface C2paSigner {
+  commonName: string | null;
+  organization: string | null;
+  issuer: string | null;
+  notBefore: string;
+  notAfter: string;
+  algorithm: string;
+  // Fingerprint of the last key in the certificate chain; for manifests made by this app, the user's signing key
+  rootKeyFingerprint: string;
+}
+
+export interface ContentCredentialsReport {
+  manifestLabel: string;
+  manifestCount: number;
+  claimGenerator: string;
+  title: string | null;
+  format: string | null;
+  signer: C2paSigner | null;
+  assertions: string[];
+  actions: C2paAction[];
+  statuses: C2paStatus[];
+  // True when no check failed; whether the signer is trusted is reported separately
+  valid: boolean;
+}
+
+export interface ContentCredentialsSigner {
+  // The user's key; it certifies the one-time claim signing key
+  privateKey: CryptoKey;
+  // Base64 encoded SPKI public key matching privateKey
+  publicKey: string;
+  name: string;
+  notAfter: string;
+}
+
+interface ManifestStoreLocation {
+  store: Uint8Array;
+  ranges: ByteRange[];
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)));
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+function randomUuid(): string {
+  const bytes = getCrypto().getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = toHex(bytes);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+async function digest(algorithm: string, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await getCrypto().subtle.digest(algorithm, data));
+}
+
+/**
+ * Reads consecutive ISO BMFF style boxes
+ */
+function readBoxes(bytes: Uint8Array): JumbfBox[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: JumbfBox[] = [];
+  let offset = 0;
+
+  while (offset + 8 <= bytes.length) {
+    let length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    let header = 8;
+
+    // A length of 1 means a 64-bit length follows; 0 means the box runs to the end
+    if (length === 1) {
+      if (offset + 16 > bytes.length) throw new Error("Invalid JUMBF: truncated box");
+      length = view.getUint32(offset + 8) * 0x100000000 + view.getUint32(offset + 12);
+      header = 16;
+    } else if (length === 0) {
+      length = bytes.length - offset;
+    }
+
+    if (length < header || offset + length > bytes.length) {
+      throw new Error("Invalid JUMBF: box extends past end of data");
+    }
+
+    boxes.push({ type, payload: bytes.subarray(offset + header, offset + length) });
+    offset += length;
+  }
+
+  return boxes;
+}
+
+/**
+ * Parses a JUMBF superbox from its contents (without the jumb header)
+ */
+function parseSuperbox(contents: Uint8Array, depth = 0): JumbfSuperbox {
+  if (depth > 16) {
+    throw new Error("Invalid JUMBF: nested too deeply");
+  }
+
+  const [description, ...rest] = readBoxes(contents);
+
+  if (description?.type !== "jumd" || description.payload.length < 17) {
+    throw new Error("Invalid JUMBF: superbox without a description box");
+  }
+
+  const toggles = description.payload[16];
+  let label: string | null = null;
+
+  if (toggles & 0x02) {
+    const end = description.payload.indexOf(0, 17);
+    label = new TextDecoder().decode(description.payload.subarray(17, end === -1 ? undefined : end));
+  }
+
+  const superbox: JumbfSuperbox = {
+    uuid: toHex(description.payload.subarray(0, 16)),
+    label,
+    contents,
+    contentBoxes: [],
+    children: [],
+  };
+
+  for (const box of rest) {
+    if (box.type === "jumb") {
+      superbox.children.push(parseSuperbox(box.payload, depth + 1));
+    } else {
+      superbox.contentBoxes.push({ type: box.type, payload: box.payload });
+    }
+  }
+
+  return superbox;
+}
+
+function encodeBox(type: string, payload: Uint8Array): Uint8Array {
+  const box = new Uint8Array(8 + payload.length);
+  new DataView(box.buffer).setUint32(0, box.length);
+  box.set(new TextEncoder().encode(type), 4);
+  box.set(payload, 8);
+  return box;
+}
+
+function encodeSuperbox(uuid: string, label: string, ...boxes: Uint8Array[]): Uint8Array {
+  const description = encodeBox("jumd", concatBytes(
+    fromHex(uuid),
+    new Uint8Array([JUMBF_TOGGLES]),
+    new TextEncoder().encode(label),
+    new Uint8Array([0])
+  ));
+  return encodeBox("jumb", concatBytes(description, ...boxes));
+}
+
+/**
+ * Finds the C2PA manifest store in an image and the byte ranges it occupies
+ */
+function locateManifestStore(bytes: Uint8Array): ManifestStoreLocation | null {
+  const container = detectContainer(bytes);
+
+  if (container === "png") {
+    const chunk = readPngChunks(bytes).find(candidate => candidate.type === PNG_CHUNK_TYPE);
+    return chunk ? { store: chunk.data, ranges: [{ start: chunk.start, end: chunk.end }] } : null;
+  }
+
+  if (container !== "jpeg") {
+    return null;
+  }
+
+  // A large store is split over several APP11 segments sharing a box instance number
+  const instances = new Map<number, { sequence: number; data: Uint8Array; range: ByteRange }[]>();
+
+  for (const segment of readJpegSegments(bytes)) {
+    if (segment.marker !== JPEG_MARKER.APP11 || !startsWith(segment.data, JPEG_JUMBF_ID) || segment.data.length < 8) {
+      continue;
+    }
+
+    const view = new DataView(segment.data.buffer, segment.data.byteOffset, segment.data.byteLength);
+    const instance = view.getUint16(2);
+    const parts = instances.get(instance) ?? [];
+    parts.push({ sequence: view.getUint32(4), data: segment.data.subarray(8), range: { start: segment.start, end: segment.end } });
+    instances.set(instance, parts);
+  }
+
+  for (const parts of Array.from(instances.values())) {
+    parts.sort((a, b) => a.sequence - b.sequence);
+    const first = parts[0].data;
+
+    if (first.length < 8) continue;
+
+    // Segments after the first repeat the superbox header before continuing its contents
+    const headerLength = new DataView(first.buffer, first.byteOffset).getUint32(0) === 1 ? 16 : 8;
+    const store = concatBytes(first, ...parts.slice(1).map(part => part.data.subarray(headerLength)));
+
+    try {
+      const [box] = readBoxes(store);
+      if (box?.type === "jumb" && parseSuperbox(box.payload).uuid === JUMBF_UUID.MANIFEST_STORE) {
+        return { store, ranges: parts.map(part => part.range) };
+      }
+    } catch {
+      // Some other JUMBF content; keep looking
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Gets the byte ranges of any C2PA manifest store in an image, so that other
+ * embedded metadata can be written or hashed around it
+ * @param bytes - A PNG or JPEG image
+ * @returns The ranges, empty when the image has no Content Credentials
+ */
+export function findContentCredentials(bytes: Uint8Array): ByteRange[] {
+  return locateManifestStore(bytes)?.ranges ?? [];
+}
+
+/**
+ * Checks whether Content Credentials can be added to files of a type
+ * @param fileType - The file's MIME type
+ */
+export function canAddContentCredentials(fileType: string): boolean {
+  return fileType === "image/png" || fileType === "image/jpeg";
+}
+
+/**
+ * Wraps a manifest store in the blocks a container embeds it with
+ */
+function encodeStoreBlock(container: "png" | "jpeg", store: Uint8Array): Uint8Array {
+  if (container === "png") {
+    return encodePngChunk(PNG_CHUNK_TYPE, store);
+  }
+
+  const boxHeader = store.subarray(0, 8);
+  const segments: Uint8Array[] = [];
+  let offset = 0;
+
+  for (let sequence = 1; offset < store.length; sequence++) {
+    const prefix = new Uint8Array(8);
+    const view = new DataView(prefix.buffer);
+    prefix.set(JPEG_JUMBF_ID);
+    view.setUint16(2, JPEG_BOX_INSTANCE);
+    view.setUint32(4, sequence);
+
+    const header = sequence === 1 ? new Uint8Array(0) : boxHeader;
+    const size = JPEG_MAX_SEGMENT_DATA - prefix.length - header.length;
+    segments.push(encodeJpegSegment(JPEG_MARKER.APP11, concatBytes(prefix, header, store.subarray(offset, offset + size))));
+    offset += size;
+  }
+
+  return concatBytes(...segments);
+}
+
+/**
+ * Issues the certificates for a one-time claim signing key: a self-signed
+ * certificate for the user's key, and one it issues for the claim signing key
+ */
+async function createClaimSigner(signer: ContentCredentialsSigner): Promise<{ privateKey: CryptoKey; chain: Uint8Array[] }> {
+  const crypto = getCrypto();
+  const claimKey = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+  const claimPublicKeyInfo = new Uint8Array(await crypto.subtle.exportKey("spki", claimKey.publicKey));
+  const userPublicKeyInfo = base64ToBytes(signer.publicKey);
+
+  // Backdated slightly so that verifiers with clocks running behind accept the certificates
+  const notBefore = new Date(Date.now() - CLOCK_SKEW_MS);
+  const notAfter = new Date(signer.notAfter);
+  const issuer = { commonName: signer.name, organization: CLAIM_GENERATOR_NAME };
+
+  const root = await issueCertificate({
+    subjectPublicKeyInfo: userPublicKeyInfo,
+    subject: issuer,
+    issuer,
+    issuerPublicKeyInfo: userPublicKeyInfo,
+    issuerPrivateKey: signer.privateKey,
+    notBefore,
+    notAfter,
+    isCa: true,
+  });
+
+  const leaf = await issueCertificate({
+    subjectPublicKeyInfo: claimPublicKeyInfo,
+    subject: { commonName: `${signer.name} claim signer`, organization: CLAIM_GENERATOR_NAME },
+    issuer,
+    issuerPublicKeyInfo: userPublicKeyInfo,
+    issuerPrivateKey: signer.privateKey,
+    notBefore,
+    notAfter,
+    isCa: false,
+  });
+
+  return { privateKey: claimKey.privateKey, chain: [leaf, root] };
+}
+
+/**
+ * Builds a manifest store whose data hash excludes the given byte range
+ */
+async function buildManifestStore(
+  claimFields: CborMap,
+  actions: CborMap,
+  contentHash: Uint8Array,
+  exclusion: { start: number; length: number },
+  claimSigner: { privateKey: CryptoKey; chain: Uint8Array[] },
+  manifestLabel: string
+): Promise<Uint8Array> {
+  const assertionBoxes = [
+    encodeSuperbox(JUMBF_UUID.CBOR, "c2pa.actions", encodeBox("cbor", encodeCbor(actions))),
+    encodeSuperbox(JUMBF_UUID.CBOR, "c2pa.hash.data", encodeBox("cbor", encodeCbor({
+      exclusions: [exclusion],
+      name: "jumbf manifest",
+      alg: "sha256",
+      hash: contentHash,
+      pad: new Uint8Array(0),
+    }))),
+  ];
+
+  // Hashed URIs cover each assertion superbox without its 8-byte header
+  const assertions: CborValue[] = [];
+  for (const [index, label] of ["c2pa.actions", "c2pa.hash.data"].entries()) {
+    assertions.push({
+      url: `self#jumbf=c2pa.assertions/${label}`,
+      hash: await digest("SHA-256", assertionBoxes[index].subarray(8)),
+    });
+  }
+
+  const claim = encodeCbor({
+    ...claimFields,
+    signature: "self#jumbf=c2pa.signature",
+    assertions,
+    alg: "sha256",
+  });
+
+  // COSE_Sign1 with a detached payload: the claim is stored in its own box
+  const protectedHeader = encodeCbor(new Map<number, CborValue>([
+    [COSE_HEADER_ALG, -7],
+    [COSE_HEADER_X5CHAIN, claimSigner.chain],
+  ]));
+  const toBeSigned = encodeCbor(["Signature1", protectedHeader, new Uint8Array(0), claim]);
+  const signature = new Uint8Array(await getCrypto().subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    claimSigner.privateKey,
+    toBeSigned
+  ));
+  const coseSign1 = encodeCborTagged(COSE_SIGN1_TAG, [protectedHeader, new Map(), null, signature]);
+
+  return encodeSuperbox(JUMBF_UUID.MANIFEST_STORE, "c2pa",
+    encodeSuperbox(JUMBF_UUID.MANIFEST, manifestLabel,
+      encodeSuperbox(JUMBF_UUID.ASSERTION_STORE, "c2pa.assertions", ...assertionBoxes),
+      encodeSuperbox(JUMBF_UUID.CLAIM, "c2pa.claim", encodeBox("cbor", claim)),
+      encodeSuperbox(JUMBF_UUID.SIGNATURE, "c2pa.signature", encodeBox("cbor", coseSign1))
+    )
+  );
+}
+
+/**
+ * Adds Content Credentials to an image, replacing any it already has
+ * The manifest records that the image was created with this app and is signed
+ * under the user's key
+ * @param file - A PNG or JPEG image
+ * @param signer - The user's signing key and how to name it in the certificates
+ * @returns Promise with a copy of the image carrying the manifest store
+ */
+export async function addContentCredentials(file: File, signer: ContentCredentialsSigner): Promise<File> {
+  const original = new Uint8Array(await file.arrayBuffer());
+  const container = detectContainer(original);
+
+  if (!container) {
+    throw new Error("Content Credentials can only be added to PNG and JPEG images");
+  }
+
+  // Existing credentials would no longer match the file, so they are replaced
+  const bytes = removeRanges(original, findContentCredentials(original));
+  const insertAt = container === "png" ? pngInsertionPoint(readPngChunks(bytes)) : jpegInsertionPoint(readJpegSegments(bytes));
+
+  // Excluding the inserted block leaves exactly the bytes the image has now
+  const contentHash = await digest("SHA-256", bytes);
+  const claimSigner = await createClaimSigner(signer);
+  const manifestLabel = `urn:uuid:${randomUuid()}`;
+  const claimFields: CborMap = {
+    claim_generator: `${CLAIM_GENERATOR_NAME}/${CLAIM_GENERATOR_VERSION}`,
+    claim_generator_info: [{ name: CLAIM_GENERATOR_NAME, version: CLAIM_GENERATOR_VERSION }],
+    "dc:title": file.name,
+    "dc:format": file.type,
+    instanceID: `xmp:iid:${randomUuid()}`,
+  };
+  const actions: CborMap = {
+    actions: [{
+      action: "c2pa.created",
+      when: new Date().toISOString(),
+      softwareAgent: `${CLAIM_GENERATOR_NAME} ${CLAIM_GENERATOR_VERSION}`,
+    }],
+  };
+
+  // The exclusion covers the block, whose size depends on how the exclusion's own length is encoded
+  let length = 0;
+  let block: Uint8Array = new Uint8Array(0);
+  for (let attempt = 0; attempt < 4; attempt++) {
+    const store = await buildManifestStore(claimFields, actions, contentHash, { start: insertAt, length }, claimSigner, manifestLabel);
+    block = encodeStoreBlock(container, store);
+    if (block.length === length) break;
+    length = block.length;
+  }
+
+  if (block.length !== length) {
+    throw new Error("Could not lay out the Content Credentials manifest");
+  }
+
+  return new File([insertBytes(bytes, insertAt, block)], file.name, { type: file.type, lastModified: file.lastModified });
+}
+
+function findChild(superbox: JumbfSuperbox, label: string): JumbfSuperbox | undefined {
+  return superbox.children.find(child => child.label === label);
+}
+
+/**
+ * Resolves a JUMBF URI such as "self#jumbf=c2pa.assertions/c2pa.actions",
+ * relative to a manifest or absolute from the store
+ */
+function resolveJumbfUri(url: string, store: JumbfSuperbox, manifest: JumbfSuperbox): JumbfSuperbox | undefined {
+  const path = url.replace(/^self#jumbf=/, "").split("/").filter(Boolean);
+  let current: JumbfSuperbox | undefined = manifest;
+
+  if (url.startsWith("self#jumbf=/")) {
+    if (path.shift() !== "c2pa") return undefined;
+    current = store;
+  }
+
+  for (const label of path) {
+    current = current && findChild(current, label);
+  }
+
+  return current;
+}
+
+/**
+ * Decodes an assertion's content box
+ */
+function decodeAssertion(assertion: JumbfSuperbox): CborValue {
+  const box = assertion.contentBoxes[0];
+
+  if (box?.type === "cbor") return decodeCbor(box.payload);
+  if (box?.type === "json") return JSON.parse(new TextDecoder().decode(box.payload));
+  return null;
+}
+
+function textOf(value: CborValue): string | null {
+  if (typeof value === "string") return value;
+  if (isCborMap(value) && typeof value.name === "string") {
+    return typeof value.version === "string" ? `${value.name} ${value.version}` : value.name;
+  }
+  return null;
+}
+
+function hashedUris(value: CborValue): HashedUri[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.filter(isCborMap).filter(uri => typeof uri.url === "string" && uri.hash instanceof Uint8Array).map(uri => ({
+    url: uri.url as string,
+    hash: uri.hash as Uint8Array,
+    alg: typeof uri.alg === "string" ? uri.alg : undefined,
+  }));
+}
+
+/**
+ * Hashes a file excluding byte ranges, as data hash assertions define
+ */
+async function hashExcluding(bytes: Uint8Array, exclusions: CborValue, algorithm: string): Promise<Uint8Array> {
+  const ranges: ByteRange[] = (Array.isArray(exclusions) ? exclusions : [])
+    .filter(isCborMap)
+    .map(exclusion => ({ start: Number(exclusion.start), end: Number(exclusion.start) + Number(exclusion.length) }));
+
+  if (ranges.some(range => !(range.start >= 0 && range.end >= range.start && range.end <= bytes.length))) {
+    throw new Error("Data hash exclusion outside the file");
+  }
+
+  return digest(algorithm, removeRanges(bytes, ranges));
+}
+
+/**
+ * Validates the timestamp in a COSE signature's sigTst2 or sigTst header.
+ * sigTst2 tokens cover the signature itself, sigTst tokens the data it signs
+ */
+async function validateTimestamp(
+  headers: CborMap,
+  toBeSigned: Uint8Array,
+  signature: Uint8Array,
+  statuses: C2paStatus[]
+): Promise<TimestampInfo | null> {
+  const [header, data] = headers.sigTst2 !== undefined ? [headers.sigTst2, signature] : [headers.sigTst, toBeSigned];
+
+  if (header === undefined) {
+    return null;
+  }
+
+  const tokens = isCborMap(header) && Array.isArray(header.tstTokens) ? header.tstTokens : [];
+  const token = tokens.map(entry => isCborMap(entry) ? entry.val : undefined).find(val => val instanceof Uint8Array);
+
+  if (!(token instanceof Uint8Array)) {
+    statuses.push({ code: "timeStamp.malformed", kind: "failure", explanation: "The signature's timestamp could not be read" });
+    return null;
+  }
+
+  const result = await verifyTimestampToken(token, data);
+
+  if (!result.valid) {
+    statuses.push({ code: "timeStamp.mismatch", kind: "failure", explanation: `The signature's timestamp is invalid: ${result.reason}` });
+    return null;
+  }
+
+  statuses.push({
+    code: "timeStamp.validated",
+    kind: "success",
+    explanation: `The signature was timestamped at ${result.timestamp.genTime}${result.timestamp.tsaName ? ` by ${result.timestamp.tsaName}` : ""}`,
+  });
+  return result.timestamp;
+}
+
+/**
+ * Verifies the claim signature and the certificate chain it carries
+ */
+async function validateSignature(
+  signatureBox: JumbfSuperbox | undefined,
+  claimBytes: Uint8Array,
+  statuses: C2paStatus[]
+): Promise<C2paSigner | null> {
+  const coseBytes = signatureBox?.contentBoxes.find(box => box.type === "cbor")?.payload;
+
+  if (!coseBytes) {
+    statuses.push({ code: "claimSignature.missing", kind: "failure", explanation: "The manifest has no claim signature" });
+    return null;
+  }
+
+  const cose = decodeCbor(coseBytes);
+
+  if (!Array.isArray(cose) || cose.length !== 4 || !(cose[0] instanceof Uint8Array) || !(cose[3] instanceof Uint8Array)) {
+    statuses.push({ code: "claimSignature.mismatch", kind: "failure", explanation: "The claim signature is not a COSE_Sign1 structure" });
+    return null;
+  }
+
+  const [protectedBytes, unprotectedHeader, , signature] = cose as [Uint8Array, CborValue, CborValue, Uint8Array];
+  const protectedHeader = protectedBytes.length > 0 ? decodeCbor(protectedBytes) : {};
+  const headers = { ...(isCborMap(unprotectedHeader) ? unprotectedHeader : {}), ...(isCborMap(protectedHeader) ? protectedHeader : {}) };
+  const algorithm = COSE_ALGORITHMS[Number(headers[String(COSE_HEADER_ALG)])];
+  const x5chain = headers[String(COSE_HEADER_X5CHAIN)];
+  const chainDer = x5chain instanceof Uint8Array ? [x5chain] : Array.isArray(x5chain) ? x5chain.filter((cert): cert is Uint8Array => cert instanceof Uint8Array) : [];
+
+  if (!algorithm || chainDer.length === 0) {
+    statuses.push({
+      code: "signingCredential.invalid",
+      kind: "failure",
+      explanation: algorithm ? "The signature has no certificate" : "The signature uses an unsupported algorithm",
+    });
+    return null;
+  }
+
+  const chain: Certificate[] = chainDer.map(parseCertificate);
+  const leaf = chain[0];
+
+  // The payload is detached: the signature covers the claim box's contents
+  const toBeSigned = encodeCbor(["Signature1", protectedBytes, new Uint8Array(0), claimBytes]);
+  let signatureValid: boolean;
+
+  if (algorithm.name.startsWith("ES")) {
+    const key = await importCertificateKey(leaf, algorithm.hash);
+    // COSE ECDSA signatures are raw r || s of the curve's size
+    signatureValid = signature.length === ecdsaComponentSize(leaf) * 2
+      && await getCrypto().subtle.verify({ name: "ECDSA", hash: algorithm.hash }, key, signature, toBeSigned);
+  } else if (algorithm.name.startsWith("PS")) {
+    const key = await importCertificateKey(leaf, algorithm.hash);
+    const saltLength = algorithm.hash === "SHA-256" ? 32 : algorithm.hash === "SHA-384" ? 48 : 64;
+    signatureValid = await getCrypto().subtle.verify({ name: "RSA-PSS", saltLength }, key, signature, toBeSigned);
+  } else {
+    const key = await importCertificateKey(leaf, algorithm.hash);
+    signatureValid = await getCrypto().subtle.verify({ name: "Ed25519" }, key, signature, toBeSigned);
+  }
+
+  statuses.push(signatureValid
+    ? { code: "claimSignature.validated", kind: "success", explanation: "The claim signature is valid" }
+    : { code: "claimSignature.mismatch", kind: "failure", explanation: "The claim signature does not match the claim" });
+
+  // Each certificate must be issued by the next; a self-issued last certificate must verify with its own key
+  let chainValid = true;
+  let chainChecked = true;
+  for (let i = 0; i < chain.length; i++) {
+    const isLast = i === chain.length - 1;
+    const isSelfIssued = JSON.stringify(chain[i].subject) === JSON.stringify(chain[i].issuer);
+
+    // Chains often stop short of the root, which verifiers are expected to hold
+    if (isLast && !isSelfIssued) {
+      chainChecked = false;
+      break;
+    }
+
+    try {
+      if (!await verifyCertificateSignature(chain[i], isLast ? chain[i] : chain[i + 1])) {
+        chainValid = false;
+      }
+    } catch {
+      // An algorithm we can't check
+      chainChecked = false;
+    }
+  }
+
+  // A valid timestamp moves the validity check to when the signature was made; an invalid one is ignored
+  const timestamp = await validateTimestamp(headers, toBeSigned, signature, statuses);
+  const signedAt = timestamp ? new Date(timestamp.genTime).getTime() : Date.now();
+
+  if (!chainValid) {
+    statuses.push({ code: "signingCredential.invalid", kind: "failure", explanation: "The signer's certificate chain is broken" });
+  } else if (signedAt < new Date(leaf.notBefore).getTime() || signedAt > new Date(leaf.notAfter).getTime()) {
+    statuses.push({ code: "signingCredential.expired", kind: "failure", explanation: "The signer's certificate is outside its validity period" });
+  } else {
+    statuses.push({
+      code: "signingCredential.untrusted",
+      kind: "informational",
+      explanation: chainChecked
+        ? "The certificate chain is intact, but its root is not on a trust list this app checks"
+        : "The signer's certificate is not on a trust list this app checks",
+    });
+  }
+
+  const root = chain[chain.length - 1];
+  return {
+    commonName: leaf.subject.commonName ?? null,
+    organization: leaf.subject.organization ?? null,
+    issuer: leaf.issuer.organization ?? leaf.issuer.commonName ?? null,
+    notBefore: leaf.notBefore,
+    notAfter: leaf.notAfter,
+    algorithm: algorithm.name,
+    rootKeyFingerprint: await calculateKeyFingerprint(bytesToBase64(root.subjectPublicKeyInfo)),
+  };
+}
+
+/**
+ * Reads and validates the Content Credentials in an image
+ * Checks the claim signature and certificate chain, every assertion's hash
+ * and the hash binding the manifest to the image
+ * @param file - Any image
+ * @returns Promise with the claim generator, signer, assertions and validation statuses, or null if there are none
+ */
+export async function readContentCredentials(file: File): Promise<ContentCredentialsReport | null> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const location = locateManifestStore(bytes);
+
+  if (!location) {
+    return null;
+  }
+
+  const [storeBox] = readBoxes(location.store);
+  const store = parseSuperbox(storeBox.payload);
+  const manifests = store.children.filter(child =>
+    child.uuid === JUMBF_UUID.MANIFEST || child.uuid === JUMBF_UUID.UPDATE_MANIFEST
+  );
+  // The last manifest in the store is the active one
+  const manifest = manifests[manifests.length - 1];
+  const statuses: C2paStatus[] = [];
+
+  const report: ContentCredentialsReport = {
+    manifestLabel: manifest?.label ?? "",
+    manifestCount: manifests.length,
+    claimGenerator: "Unknown",
+    title: null,
+    format: null,
+    signer: null,
+    assertions: [],
+    actions: [],
+    statuses,
+    valid: false,
+  };
+
+  const claimBox = manifest?.children.find(child => child.uuid === JUMBF_UUID.CLAIM);
+  const claimBytes = claimBox?.contentBoxes.find(box => box.type === "cbor")?.payload;
+
+  if (!manifest || !claimBytes) {
+    statuses.push({ code: "claim.missing", kind: "failure", explanation: "The manifest store has no claim" });
+    return report;
+  }
+
+  const claim = decodeCbor(claimBytes);
+
+  if (!isCborMap(claim)) {
+    statuses.push({ code: "claim.malformed", kind: "failure", explanation: "The claim could not be read" });
+    return report;
+  }
+
+  const generatorInfo = Array.isArray(claim.claim_generator_info) ? claim.claim_generator_info[0] : claim.claim_generator_info;
+  report.claimGenerator = textOf(claim.claim_generator ?? null) ?? textOf(generatorInfo ?? null) ?? "Unknown";
+  report.title = typeof claim["dc:title"] === "string" ? claim["dc:title"] : null;
+  report.format = typeof claim["dc:format"] === "string" ? claim["dc:format"] : null;
+
+  try {
+    report.signer = await validateSignature(
+      manifest.children.find(child => child.uuid === JUMBF_UUID.SIGNATURE),
+      claimBytes,
+      statuses
+    );
+  } catch (error) {
+    statuses.push({
+      code: "signingCredential.invalid",
+      kind: "failure",
+      explanation: `The signature could not be checked: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+
+  // Version 2 claims split assertions into those the signer created and those it gathered
+  const references = [
+    ...hashedUris(claim.assertions),
+    ...hashedUris(claim.created_assertions),
+    ...hashedUris(claim.gathered_assertions),
+  ];
+  const claimAlgorithm = typeof claim.alg === "string" ? claim.alg : "sha256";
+  let hasHardBinding = false;
+
+  for (const reference of references) {
+    const assertion = resolveJumbfUri(reference.url, store, manifest);
+    const hashAlgorithm = HASH_ALGORITHMS[reference.alg ?? claimAlgorithm];
+
+    if (!assertion) {
+      statuses.push({ code: "assertion.missing", kind: "failure", explanation: "An assertion referenced by the claim is missing", url: reference.url });
+      continue;
+    }
+
+    const label = assertion.label ?? reference.url;
+    report.assertions.push(label);
+
+    if (!hashAlgorithm) {
+      statuses.push({ code: "algorithm.unsupported", kind: "failure", explanation: "An assertion uses an unsupported hash algorithm", url: reference.url });
+      continue;
+    }
+
+    if (!bytesEqual(await digest(hashAlgorithm, assertion.contents), reference.hash)) {
+      statuses.push({ code: "assertion.hashedURI.mismatch", kind: "failure", explanation: "An assertion was changed after it was signed", url: reference.url });
+      continue;
+    }
+
+    statuses.push({ code: "assertion.hashedURI.match", kind: "success", explanation: "The assertion matches the claim", url: reference.url });
+
+    let content: CborValue;
+    try {
+      content = decodeAssertion(assertion);
+    } catch {
+      statuses.push({ code: "assertion.cbor.invalid", kind: "failure", explanation: "An assertion could not be read", url: reference.url });
+      continue;
+    }
+
+    if (label.startsWith("c2pa.actions") && isCborMap(content) && Array.isArray(content.actions)) {
+      for (const action of content.actions.filter(isCborMap)) {
+        report.actions.push({
+          action: typeof action.action === "string" ? action.action : "unknown",
+          when: typeof action.when === "string" ? action.when : null,
+          softwareAgent: textOf(action.softwareAgent ?? null),
+        });
+      }
+    }
+
+    if (label.startsWith("c2pa.hash.data") && isCborMap(content)) {
+      hasHardBinding = true;
+      const dataHashAlgorithm = HASH_ALGORITHMS[typeof content.alg === "string" ? content.alg : claimAlgorithm];
+
+      try {
+        const matches = !!dataHashAlgorithm && content.hash instanceof Uint8Array
+          && bytesEqual(await hashExcluding(bytes, content.exclusions, dataHashAlgorithm), content.hash);
+        statuses.push(matches
+          ? { code: "assertion.dataHash.match", kind: "success", explanation: "The image matches the hash in its Content Credentials", url: reference.url }
+          : { code: "assertion.dataHash.mismatch", kind: "failure", explanation: "The image was modified after its Content Credentials were signed", url: reference.url });
+      } catch (error) {
+        statuses.push({
+          code: "assertion.dataHash.malformed",
+          kind: "failure",
+          explanation: error instanceof Error ? error.message : String(error),
+          url: reference.url,
+        });
+      }
+    } else if (label.startsWith("c2pa.hash.")) {
+      hasHardBinding = true;
+      statuses.push({
+        code: "assertion.hashBinding.unchecked",
+        kind: "informational",
+        explanation: `The ${label} binding to the image is not checked by this app`,
+        url: reference.url,
+      });
+    }
+  }
+
+  if (!hasHardBinding) {
+    statuses.push({ code: "claim.hardBindings.missing", kind: "failure", explanation: "The manifest is not bound to the image's contents" });
+  }
+
+  report.valid = statuses.every(status => status.kind !== "failure");
+  return report;
+}
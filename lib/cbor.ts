@@ -0,0 +1,299 @@
+/**
+ * Minimal CBOR encoding and decoding (RFC 8949)
+ * Covers what C2PA manifests and COSE signatures use: integers, byte and
+ * text strings, arrays, maps, tags and simple values. Decoded maps become
+ * plain objects with their keys as strings, and tags are dropped
+ */
+
+export type CborValue =
+  | number
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | CborMap
+  | Map<number | string, CborValue>;
+
+export interface CborMap {
+  [key: string]: CborValue;
+}
+
+const MAJOR = {
+  UNSIGNED: 0,
+  NEGATIVE: 1,
+  BYTES: 2,
+  TEXT: 3,
+  ARRAY: 4,
+  MAP: 5,
+  TAG: 6,
+  SIMPLE: 7,
+} as const;
+
+const MAX_DEPTH = 64;
+
+/**
+ * Encodes a major type with its argument, using the shortest form
+ */
+function encodeHead(major: number, argument: number): number[] {
+  const type = major << 5;
+
+  if (argument < 24) return [type | argument];
+  if (argument < 0x100) return [type | 24, argument];
+  if (argument < 0x10000) return [type | 25, argument >> 8, argument & 0xff];
+  if (argument < 0x100000000) {
+    return [type | 26, (argument >>> 24) & 0xff, (argument >> 16) & 0xff, (argument >> 8) & 0xff, argument & 0xff];
+  }
+
+  const high = Math.floor(argument / 0x100000000);
+  const low = argument >>> 0;
+  return [
+    type | 27,
+    (high >>> 24) & 0xff, (high >> 16) & 0xff, (high >> 8) & 0xff, high & 0xff,
+    (low >>> 24) & 0xff, (low >> 16) & 0xff, (low >> 8) & 0xff, low & 0xff,
+  ];
+}
+
+function encodeInto(value: CborValue, out: number[]): void {
+  if (value === false) {
+    out.push(0xf4);
+  } else if (value === true) {
+    out.push(0xf5);
+  } else if (value === null) {
+    out.push(0xf6);
+  } else if (value === undefined) {
+    out.push(0xf7);
+  } else if (typeof value === "number") {
+    if (Number.isSafeInteger(value)) {
+      out.push(...(value >= 0 ? encodeHead(MAJOR.UNSIGNED, value) : encodeHead(MAJOR.NEGATIVE, -1 - value)));
+    } else {
+      const bytes = new Uint8Array(8);
+      new DataView(bytes.buffer).setFloat64(0, value);
+      out.push(0xfb, ...bytes);
+    }
+  } else if (typeof value === "string") {
+    const bytes = new TextEncoder().encode(value);
+    out.push(...encodeHead(MAJOR.TEXT, bytes.length));
+    for (const byte of bytes) out.push(byte);
+  } else if (value instanceof Uint8Array) {
+    out.push(...encodeHead(MAJOR.BYTES, value.length));
+    for (const byte of value) out.push(byte);
+  } else if (Array.isArray(value)) {
+    out.push(...encodeHead(MAJOR.ARRAY, value.length));
+    for (const item of value) encodeInto(item, out);
+  } else {
+    // Maps keep their insertion order; Map instances allow integer keys, as COSE headers use
+    const entries = value instanceof Map
+      ? Array.from(value.entries())
+      : Object.entries(value).filter(([, member]) => member !== undefined);
+    out.push(...encodeHead(MAJOR.MAP, entries.length));
+    for (const [key, member] of entries) {
+      encodeInto(key, out);
+      encodeInto(member, out);
+    }
+  }
+}
+
+/**
+ * Encodes a value as CBOR
+ * @param value - The value; objects and Maps are encoded as maps
+ * @returns The encoding
+ */
+export function encodeCbor(value: CborValue): Uint8Array {
+  const out: number[] = [];
+  encodeInto(value, out);
+  return new Uint8Array(out);
+}
+
+/**
+ * Encodes a value as CBOR with a tag, e.g. 18 for COSE_Sign1
+ */
+export function encodeCborTagged(tag: number, value: CborValue): Uint8Array {
+  const out = encodeHead(MAJOR.TAG, tag);
+  encodeInto(value, out);
+  return new Uint8Array(out);
+}
+
+interface Decoder {
+  bytes: Uint8Array;
+  view: DataView;
+  offset: number;
+}
+
+function readByte(decoder: Decoder): number {
+  if (decoder.offset >= decoder.bytes.length) {
+    throw new Error("Invalid CBOR: unexpected end of data");
+  }
+  return decoder.bytes[decoder.offset++];
+}
+
+function readArgument(decoder: Decoder, info: number): number {
+  if (info < 24) return info;
+
+  const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+
+  if (size === 0) {
+    throw new Error(`Invalid CBOR: unsupported additional information ${info}`);
+  }
+
+  if (decoder.offset + size > decoder.bytes.length) {
+    throw new Error("Invalid CBOR: unexpected end of data");
+  }
+
+  const { view, offset } = decoder;
+  decoder.offset += size;
+
+  switch (size) {
+    case 1: return view.getUint8(offset);
+    case 2: return view.getUint16(offset);
+    case 4: return view.getUint32(offset);
+    default: return view.getUint32(offset) * 0x100000000 + view.getUint32(offset + 4);
+  }
+}
+
+function readBytes(decoder: Decoder, length: number): Uint8Array {
+  if (decoder.offset + length > decoder.bytes.length) {
+    throw new Error("Invalid CBOR: string extends past end of data");
+  }
+  const bytes = decoder.bytes.slice(decoder.offset, decoder.offset + length);
+  decoder.offset += length;
+  return bytes;
+}
+
+function decodeHalf(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+function isBreak(decoder: Decoder): boolean {
+  if (decoder.bytes[decoder.offset] === 0xff) {
+    decoder.offset++;
+    return true;
+  }
+  return false;
+}
+
+function decodeItem(decoder: Decoder, depth: number): CborValue {
+  if (depth > MAX_DEPTH) {
+    throw new Error("Invalid CBOR: nested too deeply");
+  }
+
+  const initial = readByte(decoder);
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+  const indefinite = info === 31;
+
+  switch (major) {
+    case MAJOR.UNSIGNED:
+      return readArgument(decoder, info);
+    case MAJOR.NEGATIVE:
+      return -1 - readArgument(decoder, info);
+    case MAJOR.BYTES:
+    case MAJOR.TEXT: {
+      let bytes: Uint8Array;
+
+      if (indefinite) {
+        // Indefinite strings are a sequence of definite chunks of the same type
+        const chunks: Uint8Array[] = [];
+        while (!isBreak(decoder)) {
+          const chunk = decodeItem(decoder, depth + 1);
+          chunks.push(typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk as Uint8Array);
+        }
+        bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+        let offset = 0;
+        for (const chunk of chunks) {
+          bytes.set(chunk, offset);
+          offset += chunk.length;
+        }
+      } else {
+        bytes = readBytes(decoder, readArgument(decoder, info));
+      }
+
+      return major === MAJOR.TEXT ? new TextDecoder().decode(bytes) : bytes;
+    }
+    case MAJOR.ARRAY: {
+      const items: CborValue[] = [];
+      if (indefinite) {
+        while (!isBreak(decoder)) items.push(decodeItem(decoder, depth + 1));
+      } else {
+        const length = readArgument(decoder, info);
+        for (let i = 0; i < length; i++) items.push(decodeItem(decoder, depth + 1));
+      }
+      return items;
+    }
+    case MAJOR.MAP: {
+      const map: CborMap = {};
+      const length = indefinite ? Infinity : readArgument(decoder, info);
+      for (let i = 0; i < length && !(indefinite && isBreak(decoder)); i++) {
+        const key = decodeItem(decoder, depth + 1);
+        map[String(key)] = decodeItem(decoder, depth + 1);
+      }
+      return map;
+    }
+    case MAJOR.TAG:
+      readArgument(decoder, info);
+      return decodeItem(decoder, depth + 1);
+    default: {
+      if (info === 20) return false;
+      if (info === 21) return true;
+      if (info === 22) return null;
+      if (info === 23) return undefined;
+
+      const { view, offset } = decoder;
+      if (info === 25) {
+        readArgument(decoder, info);
+        return decodeHalf(view.getUint16(offset));
+      }
+      if (info === 26) {
+        readArgument(decoder, info);
+        return view.getFloat32(offset);
+      }
+      if (info === 27) {
+        readArgument(decoder, info);
+        return view.getFloat64(offset);
+      }
+      if (info === 24) {
+        return readArgument(decoder, info);
+      }
+      if (info < 20) {
+        return info;
+      }
+      throw new Error(`Invalid CBOR: unsupported simple value ${info}`);
+    }
+  }
+}
+
+/**
+ * Decodes a single CBOR item
+ * @param bytes - The encoding
+ * @returns The decoded value
+ */
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const decoder: Decoder = {
+    bytes,
+    view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+    offset: 0,
+  };
+
+  const value = decodeItem(decoder, 0);
+
+  if (decoder.offset !== bytes.length) {
+    throw new Error("Invalid CBOR: trailing data");
+  }
+
+  return value;
+}
+
+/**
+ * Checks that a decoded value is a map
+ */
+export function isCborMap(value: CborValue): value is CborMap {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    && !(value instanceof Uint8Array) && !(value instanceof Map);
+}
@@ -0,0 +1,205 @@
+/**
+ * Browser storage for remembered signing keys and device sub-keys
+ * Private keys are kept in IndexedDB as non-extractable CryptoKeys, so scripts
+ * on the page can sign with them but can never read the key material
+ */
+
+import { getCrypto, SigningAlgorithm } from "@/lib/crypto-utils";
+
+const DB_NAME = "image-security-keys";
+const DB_VERSION = 2;
+const STORE_NAME = "keys";
+const SUBKEY_STORE_NAME = "subkeys";
+const DEVICE_ID_STORAGE_KEY = "image-security-device-id";
+
+export interface RememberedKey {
+  keyId: string;
+  userId: string;
+  fingerprint: string;
+  algorithm: SigningAlgorithm;
+  privateKey: CryptoKey;
+  storedAt: string;
+}
+
+export interface DeviceSubkey {
+  subkeyId: string;
+  userId: string;
+  identityKeyId: string;
+  fingerprint: string;
+  algorithm: SigningAlgorithm;
+  deviceLabel: string;
+  notAfter: string;
+  privateKey: CryptoKey;
+  storedAt: string;
+}
+
+/**
+ * Opens the key database, creating the object store on first use
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: "keyId" });
+        store.createIndex("userId", "userId", { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(SUBKEY_STORE_NAME)) {
+        const subkeyStore = db.createObjectStore(SUBKEY_STORE_NAME, { keyPath: "subkeyId" });
+        subkeyStore.createIndex("userId", "userId", { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a single request against an object store and closes the database afterwards
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = STORE_NAME
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Gets this browser's device ID, generating one on first use
+ * @returns The device ID stored in localStorage
+ */
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+
+  if (!deviceId) {
+    deviceId = getCrypto().randomUUID();
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+  }
+
+  return deviceId;
+}
+
+/**
+ * Describes this browser for the device list, e.g. "Chrome on Windows"
+ */
+export function describeDevice(): string {
+  const userAgent = navigator.userAgent;
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Browser";
+
+  const os =
+    /Windows/.test(userAgent) ? "Windows" :
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "unknown OS";
+
+  return `${browser} on ${os}`;
+}
+
+/**
+ * Re-imports a private key so that the stored copy can only be used, never exported
+ */
+async function toNonExtractableKey(privateKey: CryptoKey): Promise<CryptoKey> {
+  const crypto = getCrypto();
+  const pkcs8 = await crypto.subtle.exportKey("pkcs8", privateKey);
+
+  return crypto.subtle.importKey("pkcs8", pkcs8, privateKey.algorithm, false, ["sign"]);
+}
+
+/**
+ * Stores a private key on this device as a non-extractable key
+ * @param record - The key and its public details; the key must be extractable so it can be copied
+ * @returns Promise with the stored record, holding the non-extractable copy
+ */
+export async function rememberPrivateKey(record: Omit<RememberedKey, "storedAt">): Promise<RememberedKey> {
+  const remembered: RememberedKey = {
+    ...record,
+    privateKey: await toNonExtractableKey(record.privateKey),
+    storedAt: new Date().toISOString(),
+  };
+
+  await withStore("readwrite", store => store.put(remembered));
+
+  return remembered;
+}
+
+/**
+ * Gets the keys remembered on this device for a user
+ * @param userId - The user's ID
+ * @returns Promise with the user's remembered keys
+ */
+export async function getRememberedKeys(userId: string): Promise<RememberedKey[]> {
+  return withStore<RememberedKey[]>("readonly", store => store.index("userId").getAll(userId));
+}
+
+/**
+ * Removes a remembered key from this device
+ * @param keyId - The key's ID
+ */
+export async function forgetRememberedKey(keyId: string): Promise<void> {
+  await withStore("readwrite", store => store.delete(keyId));
+}
+
+/**
+ * Stores a device sub-key's private key as a non-extractable key
+ * @param record - The sub-key and its details; the key must be extractable so it can be copied
+ * @returns Promise with the stored record, holding the non-extractable copy
+ */
+export async function storeDeviceSubkey(record: Omit<DeviceSubkey, "storedAt">): Promise<DeviceSubkey> {
+  const subkey: DeviceSubkey = {
+    ...record,
+    privateKey: await toNonExtractableKey(record.privateKey),
+    storedAt: new Date().toISOString(),
+  };
+
+  await withStore("readwrite", store => store.put(subkey), SUBKEY_STORE_NAME);
+
+  return subkey;
+}
+
+/**
+ * Gets the sub-keys stored on this device for a user
+ * @param userId - The user's ID
+ * @returns Promise with the user's device sub-keys
+ */
+export async function getDeviceSubkeys(userId: string): Promise<DeviceSubkey[]> {
+  return withStore<DeviceSubkey[]>("readonly", store => store.index("userId").getAll(userId), SUBKEY_STORE_NAME);
+}
+
+/**
+ * Removes a sub-key from this device
+ * @param subkeyId - The sub-key's ID
+ */
+export async function forgetDeviceSubkey(subkeyId: string): Promise<void> {
+  await withStore("readwrite", store => store.delete(subkeyId), SUBKEY_STORE_NAME);
+}
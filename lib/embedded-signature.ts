@@ -0,0 +1,207 @@
+/**
+ * Signatures embedded in the image file
+ * A signature bundle can travel inside the image itself: in PNG files as an
+ * iTXt chunk, in JPEG files as an APP11 segment. The image's hash is defined
+ * over the file without that block, so embedding a signature does not change
+ * the hash it signs, and verifiers strip the block before hashing. Content
+ * Credentials are left out of the hash the same way, as they are added after
+ * the signature and cover it in turn
+ */
+
+import { findContentCredentials } from "@/lib/c2pa";
+import { calculateFileHash } from "@/lib/crypto-utils";
+import {
+  ByteRange,
+  concatBytes,
+  detectContainer,
+  encodeJpegSegment,
+  encodePngChunk,
+  ImageContainer,
+  insertBytes,
+  jpegInsertionPoint,
+  JPEG_MARKER,
+  pngInsertionPoint,
+  readJpegSegments,
+  readPngChunks,
+  removeRanges,
+  startsWith,
+} from "@/lib/image-container";
+import { BUNDLE_FORMAT, parseSignatureBundle, SignatureBundle } from "@/lib/signature-bundle";
+
+// The iTXt keyword, and the identifier that starts our APP11 segments
+const PNG_KEYWORD = BUNDLE_FORMAT;
+const JPEG_IDENTIFIER = new TextEncoder().encode(`${BUNDLE_FORMAT.toUpperCase()}\0`);
+
+interface ContainerLayout {
+  // Blocks holding an embedded signature, with the text of each
+  signatures: (ByteRange & { text: string })[];
+  // Where a new block is inserted
+  insertAt: number;
+}
+
+export interface ExtractedSignature {
+  // The image with any embedded signature removed; this is what is hashed
+  content: File;
+  bundle: SignatureBundle | null;
+  // Why an embedded block was found but could not be read as a bundle
+  warning?: string;
+}
+
+/**
+ * Finds our iTXt chunks in a PNG file
+ */
+function parsePng(bytes: Uint8Array): ContainerLayout {
+  const chunks = readPngChunks(bytes);
+  const decoder = new TextDecoder();
+  const signatures: ContainerLayout["signatures"] = [];
+
+  for (const chunk of chunks) {
+    if (chunk.type !== "iTXt") continue;
+
+    // keyword \0 compression flag, compression method, language tag \0 translated keyword \0 text
+    const keywordEnd = chunk.data.indexOf(0);
+    if (keywordEnd === -1 || decoder.decode(chunk.data.subarray(0, keywordEnd)) !== PNG_KEYWORD) continue;
+
+    const languageEnd = chunk.data.indexOf(0, keywordEnd + 3);
+    const translatedEnd = languageEnd === -1 ? -1 : chunk.data.indexOf(0, languageEnd + 1);
+
+    if (chunk.data[keywordEnd + 1] !== 0 || translatedEnd === -1) {
+      throw new Error("Invalid PNG: unreadable embedded signature");
+    }
+
+    signatures.push({ start: chunk.start, end: chunk.end, text: decoder.decode(chunk.data.subarray(translatedEnd + 1)) });
+  }
+
+  return { signatures, insertAt: pngInsertionPoint(chunks) };
+}
+
+/**
+ * Finds our APP11 segments in a JPEG file
+ */
+function parseJpeg(bytes: Uint8Array): ContainerLayout {
+  const segments = readJpegSegments(bytes);
+  const decoder = new TextDecoder();
+
+  const signatures = segments
+    .filter(segment => segment.marker === JPEG_MARKER.APP11 && startsWith(segment.data, JPEG_IDENTIFIER))
+    .map(segment => ({
+      start: segment.start,
+      end: segment.end,
+      text: decoder.decode(segment.data.subarray(JPEG_IDENTIFIER.length)),
+    }));
+
+  return { signatures, insertAt: jpegInsertionPoint(segments) };
+}
+
+function parseContainer(container: ImageContainer, bytes: Uint8Array): ContainerLayout {
+  return container === "png" ? parsePng(bytes) : parseJpeg(bytes);
+}
+
+/**
+ * Gets every block that is left out of the image's hash
+ */
+function embeddedBlocks(container: ImageContainer, bytes: Uint8Array): ByteRange[] {
+  return [...parseContainer(container, bytes).signatures, ...findContentCredentials(bytes)];
+}
+
+function encodeSignatureBlock(container: ImageContainer, text: string): Uint8Array {
+  const encoded = new TextEncoder().encode(text);
+
+  if (container === "png") {
+    // Uncompressed, with empty language tag and translated keyword
+    return encodePngChunk("iTXt", concatBytes(new TextEncoder().encode(PNG_KEYWORD), new Uint8Array([0, 0, 0, 0, 0]), encoded));
+  }
+
+  try {
+    return encodeJpegSegment(JPEG_MARKER.APP11, concatBytes(JPEG_IDENTIFIER, encoded));
+  } catch {
+    throw new Error("The signature is too large to embed in a JPEG file");
+  }
+}
+
+function toFile(bytes: Uint8Array, original: File): File {
+  return new File([bytes], original.name, { type: original.type, lastModified: original.lastModified });
+}
+
+/**
+ * Checks whether a signature can be embedded in files of a type
+ * @param fileType - The file's MIME type
+ */
+export function canEmbedSignature(fileType: string): boolean {
+  return fileType === "image/png" || fileType === "image/jpeg";
+}
+
+/**
+ * Writes a signature bundle into an image, replacing any signature already
+ * embedded. Content Credentials are removed too, as the new block would
+ * invalidate them; add them again afterwards
+ * @param file - A PNG or JPEG image
+ * @param bundle - The image's signature bundle
+ * @returns Promise with a copy of the image carrying the bundle
+ */
+export async function embedSignatureBundle(file: File, bundle: SignatureBundle): Promise<File> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const container = detectContainer(bytes);
+
+  if (!container) {
+    throw new Error("Signatures can only be embedded in PNG and JPEG images");
+  }
+
+  const content = removeRanges(bytes, embeddedBlocks(container, bytes));
+
+  if (await calculateFileHash(toFile(content, file)) !== bundle.sha256) {
+    throw new Error("The signature bundle belongs to a different image");
+  }
+
+  // Positions are taken from the content, as the removed blocks may have come before the insertion point
+  const { insertAt } = parseContainer(container, content);
+
+  return toFile(insertBytes(content, insertAt, encodeSignatureBlock(container, JSON.stringify(bundle))), file);
+}
+
+/**
+ * Reads the signature bundle embedded in an image, if there is one, and
+ * separates the image content from the embedded blocks
+ * @param file - The image
+ * @returns Promise with the image content without embedded blocks, and the bundle, or null
+ * with a warning when the embedded block is not a valid bundle
+ */
+export async function extractEmbeddedSignature(file: File): Promise<ExtractedSignature> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const container = detectContainer(bytes);
+
+  if (!container) {
+    return { content: file, bundle: null };
+  }
+
+  let signatures: ContainerLayout["signatures"];
+  let blocks: ByteRange[];
+
+  try {
+    signatures = parseContainer(container, bytes).signatures;
+    blocks = embeddedBlocks(container, bytes);
+  } catch (error) {
+    // A file we can't parse carries no block we could have written; hash it as it is
+    console.warn("Could not read image structure:", error);
+    return { content: file, bundle: null };
+  }
+
+  if (blocks.length === 0) {
+    return { content: file, bundle: null };
+  }
+
+  const content = toFile(removeRanges(bytes, blocks), file);
+
+  if (signatures.length === 0) {
+    return { content, bundle: null };
+  }
+
+  try {
+    return { content, bundle: parseSignatureBundle(signatures[0].text) };
+  } catch (error) {
+    // A corrupt block must not stop the image being checked against the registry
+    const warning = `Ignored an unreadable embedded signature: ${error instanceof Error ? error.message : String(error)}`;
+    console.warn(warning);
+    return { content, bundle: null, warning };
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Reading and rewriting the block structure of PNG and JPEG files
+ * Metadata written into images (embedded signatures, Content Credentials)
+ * lives in PNG chunks and JPEG marker segments; this module finds those
+ * blocks and builds new ones without touching the image data itself
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export const JPEG_MARKER = {
+  APP0: 0xe0,
+  APP1: 0xe1,
+  APP11: 0xeb,
+  SOS: 0xda,
+  EOI: 0xd9,
+} as const;
+
+// A segment's length field counts itself and is 16 bits wide
+export const JPEG_MAX_SEGMENT_DATA = 0xffff - 2;
+
+export type ImageContainer = "png" | "jpeg";
+
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface PngChunk extends ByteRange {
+  type: string;
+  data: Uint8Array;
+}
+
+export interface JpegSegment extends ByteRange {
+  marker: number;
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Calculates the CRC-32 that PNG chunks end with
+ */
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Concatenates byte arrays
+ */
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Removes byte ranges from a file
+ * @param bytes - The file contents
+ * @param ranges - Non-overlapping ranges to remove, in any order
+ * @returns The remaining bytes
+ */
+export function removeRanges(bytes: Uint8Array, ranges: ByteRange[]): Uint8Array {
+  const parts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    parts.push(bytes.subarray(offset, range.start));
+    offset = range.end;
+  }
+
+  parts.push(bytes.subarray(offset));
+  return concatBytes(...parts);
+}
+
+/**
+ * Inserts a block at an offset
+ */
+export function insertBytes(bytes: Uint8Array, offset: number, block: Uint8Array): Uint8Array {
+  return concatBytes(bytes.subarray(0, offset), block, bytes.subarray(offset));
+}
+
+/**
+ * Identifies a PNG or JPEG file from its first bytes
+ * @returns The container format, or null for anything else
+ */
+export function detectContainer(bytes: Uint8Array): ImageContainer | null {
+  if (bytes.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+    return "png";
+  }
+
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "jpeg";
+  }
+
+  return null;
+}
+
+/**
+ * Lists the chunks of a PNG file, up to and including IEND
+ */
+export function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset < bytes.length) {
+    if (offset + 12 > bytes.length) {
+      throw new Error("Invalid PNG: truncated chunk");
+    }
+
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+
+    if (end > bytes.length) {
+      throw new Error("Invalid PNG: truncated chunk");
+    }
+
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ start: offset, end, type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset = end;
+
+    if (type === "IEND") {
+      break;
+    }
+  }
+
+  if (chunks[0]?.type !== "IHDR") {
+    throw new Error("Invalid PNG: missing IHDR chunk");
+  }
+
+  return chunks;
+}
+
+/**
+ * Lists the marker segments of a JPEG file that come before the scan data.
+ * The scan itself is never parsed, so it is never touched. A segment's range
+ * includes any fill bytes before its marker
+ */
+export function readJpegSegments(bytes: Uint8Array): JpegSegment[] {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      throw new Error("Invalid JPEG: expected a marker");
+    }
+
+    // Markers may be preceded by fill bytes
+    let markerOffset = offset;
+    while (bytes[markerOffset + 1] === 0xff) {
+      markerOffset++;
+    }
+
+    const marker = bytes[markerOffset + 1];
+
+    if (marker === JPEG_MARKER.SOS || marker === JPEG_MARKER.EOI || marker === undefined) {
+      break;
+    }
+
+    // Standalone markers carry no length
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      segments.push({ start: offset, end: markerOffset + 2, marker, data: new Uint8Array(0) });
+      offset = markerOffset + 2;
+      continue;
+    }
+
+    if (markerOffset + 4 > bytes.length) {
+      throw new Error("Invalid JPEG: truncated segment");
+    }
+
+    const end = markerOffset + 2 + ((bytes[markerOffset + 2] << 8) | bytes[markerOffset + 3]);
+
+    if (end > bytes.length) {
+      throw new Error("Invalid JPEG: truncated segment");
+    }
+
+    segments.push({ start: offset, end, marker, data: bytes.subarray(markerOffset + 4, end) });
+    offset = end;
+  }
+
+  return segments;
+}
+
+/**
+ * Gets where new metadata goes in a PNG file: right after IHDR, which must come first
+ */
+export function pngInsertionPoint(chunks: PngChunk[]): number {
+  return chunks[0].end;
+}
+
+/**
+ * Gets where new metadata goes in a JPEG file: after the JFIF and Exif
+ * segments that readers expect first
+ */
+export function jpegInsertionPoint(segments: JpegSegment[]): number {
+  let insertAt = 2;
+
+  for (const segment of segments) {
+    if (segment.marker !== JPEG_MARKER.APP0 && segment.marker !== JPEG_MARKER.APP1) {
+      break;
+    }
+    insertAt = segment.end;
+  }
+
+  return insertAt;
+}
+
+/**
+ * Encodes a PNG chunk with its length and CRC
+ */
+export function encodePngChunk(type: string, data: Uint8Array): Uint8Array {
+  const typeAndData = concatBytes(new TextEncoder().encode(type), data);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+
+  view.setUint32(0, data.length);
+  chunk.set(typeAndData, 4);
+  view.setUint32(8 + data.length, crc32(typeAndData));
+  return chunk;
+}
+
+/**
+ * Encodes a JPEG marker segment
+ */
+export function encodeJpegSegment(marker: number, data: Uint8Array): Uint8Array {
+  if (data.length > JPEG_MAX_SEGMENT_DATA) {
+    throw new Error("Segment data is too large for a JPEG marker segment");
+  }
+
+  const segment = new Uint8Array(4 + data.length);
+  segment[0] = 0xff;
+  segment[1] = marker;
+  segment[2] = (data.length + 2) >> 8;
+  segment[3] = (data.length + 2) & 0xff;
+  segment.set(data, 4);
+  return segment;
+}
+
+/**
+ * Checks whether bytes start with a prefix
+ */
+export function startsWith(bytes: Uint8Array, prefix: Uint8Array): boolean {
+  return bytes.length >= prefix.length && prefix.every((byte, i) => bytes[i] === byte);
+}
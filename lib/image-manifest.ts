@@ -0,0 +1,225 @@
+/**
+ * Signed image manifests
+ * Instead of only the file's hash, the uploader signs a manifest that also
+ * covers the metadata stored with the image: its name, size, declared type,
+ * owner, signing key and signing time. The manifest is serialized with JSON
+ * canonicalization (RFC 8785) so that verifiers re-derive exactly the bytes
+ * that were signed, and is stored alongside the image.
+ * From version 2 each manifest also carries the hash of the uploader's
+ * previous manifest, chaining a user's uploads together so that removing,
+ * inserting or reordering one breaks the chain
+ */
+
+import { createSignatureEnvelope, getCrypto, verifyFileHashSignature, verifyStoredSignature } from "@/lib/crypto-utils";
+
+export const MANIFEST_VERSION = 2;
+
+// Version 1 manifests, signed before uploads were chained, still verify
+const SUPPORTED_MANIFEST_VERSIONS = [1, MANIFEST_VERSION];
+
+// How far the signing time in a manifest may be from when the server stores the image
+export const MANIFEST_CLOCK_TOLERANCE_MS = 10 * 60 * 1000;
+
+export interface ImageManifest {
+  version: number;
+  sha256: string;
+  size: number;
+  type: string;
+  name: string;
+  ownerId: string;
+  keyId: string;
+  subkeyId: string | null;
+  signedAt: string;
+  // Hash of the uploader's previous manifest (see hashManifest), null for their
+  // first; absent from version 1 manifests
+  previousManifestHash?: string | null;
+}
+
+// The stored image record a manifest is checked against
+export interface ManifestSubject {
+  hash: string;
+  fileSize: number;
+  fileType: string;
+  fileName: string;
+  userId: string;
+  keyId: string | null;
+  subkeyId: string | null;
+  createdAt: string;
+}
+
+export type ManifestVerificationResult =
+  | { valid: true }
+  | { valid: false; reason: "signature" }
+  | { valid: false; reason: "mismatch"; fields: string[] };
+
+// A stored image with its signature, as returned to the verify pages
+export interface SignedImageRecord extends ManifestSubject {
+  signature: string;
+  manifest: ImageManifest | null;
+}
+
+export interface ImageSignatureResult {
+  valid: boolean;
+  // False for images signed before manifests, whose signature covers only the file contents
+  coversMetadata: boolean;
+  // Fields of the stored record that no longer match the signed manifest
+  alteredFields: string[];
+}
+
+/**
+ * Serializes a JSON value canonically as defined by RFC 8785: object members
+ * sorted by key, no insignificant whitespace, ECMAScript number and string
+ * formatting
+ * @param value - The value to serialize
+ * @returns The canonical JSON text
+ */
+export function canonicalizeJson(value: unknown): string {
+  if (value === null || typeof value === "boolean" || typeof value === "string") {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error("Cannot canonicalize a non-finite number");
+    }
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalizeJson).join(",")}]`;
+  }
+
+  if (typeof value === "object") {
+    // Default sort order compares UTF-16 code units, as RFC 8785 requires
+    const members = Object.entries(value as Record<string, unknown>)
+      .filter(([, member]) => member !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, member]) => `${JSON.stringify(key)}:${canonicalizeJson(member)}`);
+    return `{${members.join(",")}}`;
+  }
+
+  throw new Error(`Cannot canonicalize a value of type ${typeof value}`);
+}
+
+/**
+ * Calculates the hash a manifest is chained by
+ * @param manifest - The manifest to hash
+ * @returns Promise with the hex encoded SHA-256 of the canonical manifest
+ */
+export async function hashManifest(manifest: ImageManifest): Promise<string> {
+  const digest = await getCrypto().subtle.digest("SHA-256", new TextEncoder().encode(canonicalizeJson(manifest)));
+
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Checks whether a manifest version can be verified
+ * @param version - The manifest's version
+ * @returns True for the current version and those before it
+ */
+export function isSupportedManifestVersion(version: unknown): boolean {
+  return SUPPORTED_MANIFEST_VERSIONS.includes(version as number);
+}
+
+/**
+ * Signs a manifest
+ * @param manifest - The manifest to sign
+ * @param privateKey - The signing key
+ * @param keyFingerprint - The signing key's fingerprint, recorded as the envelope's key ID
+ * @returns Promise with a JWS over the canonical manifest, with the manifest's signing time as iat
+ */
+export async function signImageManifest(manifest: ImageManifest, privateKey: CryptoKey, keyFingerprint: string): Promise<string> {
+  return createSignatureEnvelope(canonicalizeJson(manifest), privateKey, {
+    kid: keyFingerprint,
+    issuedAt: new Date(manifest.signedAt),
+  });
+}
+
+/**
+ * Lists the fields in which a manifest disagrees with the stored image record
+ * @param manifest - The signed manifest
+ * @param image - The stored image record
+ * @returns Display names of the fields that differ
+ */
+export function compareManifest(manifest: ImageManifest, image: ManifestSubject): string[] {
+  const mismatches: string[] = [];
+
+  if (manifest.sha256 !== image.hash) mismatches.push("file hash");
+  if (manifest.size !== image.fileSize) mismatches.push("file size");
+  if (manifest.type !== image.fileType) mismatches.push("file type");
+  if (manifest.name !== image.fileName) mismatches.push("file name");
+  if (manifest.ownerId !== image.userId) mismatches.push("owner");
+  if (manifest.keyId !== image.keyId) mismatches.push("signing key");
+  if (manifest.subkeyId !== image.subkeyId) mismatches.push("device sub-key");
+
+  const skew = Math.abs(new Date(manifest.signedAt).getTime() - new Date(image.createdAt).getTime());
+  if (!(skew <= MANIFEST_CLOCK_TOLERANCE_MS)) mismatches.push("upload time");
+
+  return mismatches;
+}
+
+/**
+ * Verifies a manifest's signature and checks it against the stored image record
+ * and the hash of the file being verified
+ * @param manifest - The signed manifest
+ * @param signature - The signature envelope, or bare base64 signature, over the canonical manifest
+ * @param publicKey - The key the image was signed with
+ * @param image - The stored image record
+ * @param fileHash - SHA-256 of the file being verified
+ * @returns Promise with whether the manifest is valid, and if not, why
+ */
+export async function verifyImageManifest(
+  manifest: ImageManifest,
+  signature: string,
+  publicKey: CryptoKey,
+  image: ManifestSubject,
+  fileHash: string
+): Promise<ManifestVerificationResult> {
+  if (!isSupportedManifestVersion(manifest.version)) {
+    throw new Error(`Unsupported manifest version ${manifest.version}`);
+  }
+
+  if (!await verifyStoredSignature(canonicalizeJson(manifest), signature, publicKey)) {
+    return { valid: false, reason: "signature" };
+  }
+
+  const fields = compareManifest(manifest, image);
+
+  if (manifest.sha256 !== fileHash && !fields.includes("file hash")) {
+    fields.unshift("file hash");
+  }
+
+  return fields.length === 0 ? { valid: true } : { valid: false, reason: "mismatch", fields };
+}
+
+/**
+ * Verifies an image's signature, over its manifest if it has one and over the
+ * file hash otherwise
+ * @param fileHash - SHA-256 of the file being verified
+ * @param image - The stored image record
+ * @param publicKey - The key the image was signed with
+ * @returns Promise with whether the signature is valid and which record fields were altered
+ */
+export async function verifyImageSignature(
+  fileHash: string,
+  image: SignedImageRecord,
+  publicKey: CryptoKey
+): Promise<ImageSignatureResult> {
+  if (!image.manifest) {
+    return {
+      valid: await verifyFileHashSignature(fileHash, image.signature, publicKey),
+      coversMetadata: false,
+      alteredFields: [],
+    };
+  }
+
+  const result = await verifyImageManifest(image.manifest, image.signature, publicKey, image, fileHash);
+
+  return {
+    valid: result.valid,
+    coversMetadata: true,
+    alteredFields: !result.valid && result.reason === "mismatch" ? result.fields : [],
+  };
+}
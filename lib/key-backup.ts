@@ -0,0 +1,142 @@
+/**
+ * Social recovery backups of private keys
+ * The passphrase-encrypted PKCS#8 key is split into Shamir shares that can be
+ * handed to trusted contacts as files or QR codes; any threshold of them
+ * reconstructs the encrypted key, which still needs the passphrase to unlock
+ */
+
+import {
+  exportPrivateKeyPem,
+  encodePem,
+  decodePem,
+  bytesToBase64Url,
+  base64UrlToBytes,
+  getCrypto,
+} from "@/lib/crypto-utils";
+import { splitSecret, combineShares } from "@/lib/shamir";
+
+const SHARE_PREFIX = "ISV-SHARE-1";
+
+export interface KeyShare {
+  setId: string;
+  threshold: number;
+  total: number;
+  index: number;
+  data: Uint8Array;
+  encoded: string;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Computes the checksum that catches mistyped or partially scanned shares
+ */
+async function shareChecksum(body: string): Promise<string> {
+  const digest = await getCrypto().subtle.digest("SHA-256", new TextEncoder().encode(body));
+  return bytesToHex(new Uint8Array(digest).slice(0, 4));
+}
+
+/**
+ * Encodes a share as a single line of text, suitable for a file or a QR code:
+ * ISV-SHARE-1:<set id>:<threshold>:<total>:<index>:<base64url data>:<checksum>
+ */
+async function encodeShare(share: Omit<KeyShare, "encoded">): Promise<string> {
+  const body = [
+    SHARE_PREFIX,
+    share.setId,
+    share.threshold,
+    share.total,
+    share.index,
+    bytesToBase64Url(share.data),
+  ].join(":");
+
+  return `${body}:${await shareChecksum(body)}`;
+}
+
+/**
+ * Splits a private key into recovery shares
+ * @param privateKey - The extractable private key to back up
+ * @param passphrase - Passphrase the key is encrypted with before splitting
+ * @param shareCount - Number of shares to create
+ * @param threshold - Number of shares needed to recover the key
+ * @returns Promise with the shares
+ */
+export async function createKeyBackupShares(
+  privateKey: CryptoKey,
+  passphrase: string,
+  shareCount: number,
+  threshold: number
+): Promise<KeyShare[]> {
+  const { der } = decodePem(await exportPrivateKeyPem(privateKey, passphrase));
+  const setId = bytesToHex(getCrypto().getRandomValues(new Uint8Array(4)));
+
+  return Promise.all(
+    splitSecret(der, shareCount, threshold).map(async ({ x, y }) => {
+      const share = { setId, threshold, total: shareCount, index: x, data: y };
+      return { ...share, encoded: await encodeShare(share) };
+    })
+  );
+}
+
+/**
+ * Parses a share from its text form, e.g. the contents of a share file or a scanned QR code
+ * @param text - The encoded share
+ * @returns Promise with the parsed share
+ */
+export async function parseKeyShare(text: string): Promise<KeyShare> {
+  const encoded = text.trim();
+  const parts = encoded.split(":");
+
+  if (parts.length !== 7 || parts[0] !== SHARE_PREFIX) {
+    throw new Error("Not a key recovery share");
+  }
+
+  const [, setId, threshold, total, index, data, checksum] = parts;
+  const body = parts.slice(0, 6).join(":");
+
+  if (checksum !== await shareChecksum(body)) {
+    throw new Error("The share is damaged: its checksum does not match");
+  }
+
+  return {
+    setId,
+    threshold: Number(threshold),
+    total: Number(total),
+    index: Number(index),
+    data: base64UrlToBytes(data),
+    encoded,
+  };
+}
+
+/**
+ * Reconstructs the encrypted private key from recovery shares
+ * @param shares - At least threshold shares from the same backup
+ * @returns The recovered key as an "ENCRYPTED PRIVATE KEY" PEM block
+ */
+export function recoverEncryptedKey(shares: KeyShare[]): string {
+  if (shares.length === 0) {
+    throw new Error("No shares provided");
+  }
+
+  const { setId, threshold } = shares[0];
+
+  if (shares.some(share => share.setId !== setId)) {
+    throw new Error("The shares come from different backups");
+  }
+
+  if (shares.length < threshold) {
+    throw new Error(`This backup needs ${threshold} shares; only ${shares.length} provided`);
+  }
+
+  const der = combineShares(shares.slice(0, threshold).map(share => ({ x: share.index, y: share.data })));
+  return encodePem("ENCRYPTED PRIVATE KEY", der);
+}
+
+/**
+ * Gets the file name for a share, e.g. "key-share-a1b2c3d4-2-of-5.txt"
+ */
+export function keyShareFileName(share: KeyShare): string {
+  return `key-share-${share.setId}-${share.index}-of-${share.total}.txt`;
+}
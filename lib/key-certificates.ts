@@ -0,0 +1,200 @@
+/**
+ * Certificates for signing sub-keys
+ * A user's long-term identity key certifies short-lived sub-keys, one per
+ * device. Images signed with a sub-key carry the certificate chain, which
+ * verifiers validate back to the identity key before checking the signature
+ */
+
+import {
+  calculateKeyFingerprint,
+  detectPublicKeyAlgorithm,
+  exportPublicKey,
+  exportPublicKeyFromPrivateKey,
+  getKeyAlgorithm,
+  importPublicKey,
+  signData,
+  verifyDataSignature,
+  SigningAlgorithm,
+} from "@/lib/crypto-utils";
+
+const CERTIFICATE_VERSION = 1;
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Sub-keys are short-lived so that a lost device stops being useful on its own
+export const SUBKEY_VALIDITY_DAYS = 90;
+export const MAX_SUBKEY_VALIDITY_DAYS = 365;
+
+export interface SubkeyCertificate {
+  version: number;
+  subjectPublicKey: string;
+  subjectAlgorithm: SigningAlgorithm;
+  subjectFingerprint: string;
+  deviceLabel: string;
+  notBefore: string;
+  notAfter: string;
+  issuerFingerprint: string;
+}
+
+export interface CertificateLink {
+  certificate: SubkeyCertificate;
+  signature: string;
+}
+
+// Leaf first: chain[0] certifies the signing key, the last link is issued by the identity key
+export type CertificateChain = CertificateLink[];
+
+export type ChainVerificationResult =
+  | { valid: true; signingKey: CryptoKey; leaf: SubkeyCertificate }
+  | { valid: false; reason: string };
+
+// For images signed directly with the identity key, leaf is null
+export type SigningKeyResolution =
+  | { valid: true; signingKey: CryptoKey; leaf: SubkeyCertificate | null }
+  | { valid: false; reason: string };
+
+interface SignedImage {
+  signatureAlgorithm: SigningAlgorithm;
+  certificateChain: CertificateChain | null;
+  createdAt: string;
+}
+
+/**
+ * Serializes a certificate for signing with a fixed field order, so that the
+ * signed bytes do not depend on how the certificate object was built
+ * @param certificate - The certificate
+ * @returns The string the issuer signs
+ */
+export function serializeCertificate(certificate: SubkeyCertificate): string {
+  return JSON.stringify({
+    version: certificate.version,
+    subjectPublicKey: certificate.subjectPublicKey,
+    subjectAlgorithm: certificate.subjectAlgorithm,
+    subjectFingerprint: certificate.subjectFingerprint,
+    deviceLabel: certificate.deviceLabel,
+    notBefore: certificate.notBefore,
+    notAfter: certificate.notAfter,
+    issuerFingerprint: certificate.issuerFingerprint,
+  });
+}
+
+/**
+ * Issues a certificate for a sub-key, signed by the identity key
+ * @param issuerPrivateKey - The identity private key
+ * @param subjectPublicKey - The sub-key's public key
+ * @param deviceLabel - Label of the device the sub-key lives on
+ * @param validityDays - How long the sub-key may sign for
+ * @returns Promise with the certificate and its signature
+ */
+export async function issueSubkeyCertificate(
+  issuerPrivateKey: CryptoKey,
+  subjectPublicKey: CryptoKey,
+  deviceLabel: string,
+  validityDays: number = SUBKEY_VALIDITY_DAYS
+): Promise<CertificateLink> {
+  const subjectPublicKeyString = await exportPublicKey(subjectPublicKey);
+  const issuedAt = Date.now();
+  // Backdated slightly so that a server clock running behind does not see a future certificate
+  const notBefore = new Date(issuedAt - CLOCK_SKEW_MS);
+  const notAfter = new Date(issuedAt + validityDays * 24 * 60 * 60 * 1000);
+
+  const certificate: SubkeyCertificate = {
+    version: CERTIFICATE_VERSION,
+    subjectPublicKey: subjectPublicKeyString,
+    subjectAlgorithm: getKeyAlgorithm(subjectPublicKey),
+    subjectFingerprint: await calculateKeyFingerprint(subjectPublicKeyString),
+    deviceLabel,
+    notBefore: notBefore.toISOString(),
+    notAfter: notAfter.toISOString(),
+    issuerFingerprint: await calculateKeyFingerprint(await exportPublicKeyFromPrivateKey(issuerPrivateKey)),
+  };
+
+  return {
+    certificate,
+    signature: await signData(serializeCertificate(certificate), issuerPrivateKey),
+  };
+}
+
+/**
+ * Checks that a certificate chain leads from the identity key to a signing key
+ * that was valid at signing time
+ * @param chain - The chain, leaf first
+ * @param identityPublicKey - Base64 encoded SPKI identity public key
+ * @param identityAlgorithm - The identity key's algorithm
+ * @param signedAt - When the signature was made
+ * @returns Promise with the leaf certificate and its key, or why the chain is invalid
+ */
+export async function verifyCertificateChain(
+  chain: CertificateChain,
+  identityPublicKey: string,
+  identityAlgorithm: SigningAlgorithm,
+  signedAt: string
+): Promise<ChainVerificationResult> {
+  if (chain.length === 0) {
+    return { valid: false, reason: "The certificate chain is empty" };
+  }
+
+  const signedAtTime = new Date(signedAt).getTime();
+  let issuerKey = await importPublicKey(identityPublicKey, identityAlgorithm);
+  let issuerFingerprint = await calculateKeyFingerprint(identityPublicKey);
+
+  // Walk from the link issued by the identity key down to the leaf
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const { certificate, signature } = chain[i];
+
+    if (certificate.version !== CERTIFICATE_VERSION) {
+      return { valid: false, reason: `Unsupported certificate version ${certificate.version}` };
+    }
+
+    if (certificate.issuerFingerprint !== issuerFingerprint) {
+      return { valid: false, reason: "A certificate in the chain was not issued by the expected key" };
+    }
+
+    if (!await verifyDataSignature(serializeCertificate(certificate), signature, issuerKey)) {
+      return { valid: false, reason: "A certificate in the chain has an invalid signature" };
+    }
+
+    if (await calculateKeyFingerprint(certificate.subjectPublicKey) !== certificate.subjectFingerprint) {
+      return { valid: false, reason: "A certificate's key does not match its fingerprint" };
+    }
+
+    if (signedAtTime < new Date(certificate.notBefore).getTime() || signedAtTime > new Date(certificate.notAfter).getTime()) {
+      return {
+        valid: false,
+        reason: `The sub-key "${certificate.deviceLabel}" was not valid when the image was signed (valid ${new Date(certificate.notBefore).toLocaleString()} to ${new Date(certificate.notAfter).toLocaleString()})`,
+      };
+    }
+
+    issuerKey = await importPublicKey(certificate.subjectPublicKey, certificate.subjectAlgorithm);
+    issuerFingerprint = certificate.subjectFingerprint;
+  }
+
+  return { valid: true, signingKey: issuerKey, leaf: chain[0].certificate };
+}
+
+/**
+ * Gets the key an image's signature must be verified with
+ * Images signed with a sub-key are only trusted if their certificate chain
+ * leads back to the identity key the image is registered under
+ * @param image - The image's signature algorithm, certificate chain and signing time
+ * @param identityPublicKey - Base64 encoded SPKI identity public key
+ * @returns Promise with the key to verify with, or why the chain is invalid
+ */
+export async function resolveImageSigningKey(
+  image: SignedImage,
+  identityPublicKey: string
+): Promise<SigningKeyResolution> {
+  if (!image.certificateChain || image.certificateChain.length === 0) {
+    return {
+      valid: true,
+      signingKey: await importPublicKey(identityPublicKey, image.signatureAlgorithm),
+      leaf: null,
+    };
+  }
+
+  return verifyCertificateChain(
+    image.certificateChain,
+    identityPublicKey,
+    await detectPublicKeyAlgorithm(identityPublicKey),
+    image.createdAt
+  );
+}
@@ -0,0 +1,153 @@
+/**
+ * Client-side key enrollment
+ * Generates the signing key pair in the browser and registers only the
+ * public key with the server, proving possession of the private key.
+ * Keys generated elsewhere (OpenSSL, an HSM) are enrolled with a proof
+ * signed outside the browser. Device sub-keys are certified by the identity
+ * key instead of proving possession through a challenge
+ */
+
+import {
+  exportPublicKey,
+  signData,
+  parsePublicKeyText,
+  detectPublicKeyAlgorithm,
+  getKeyAlgorithm,
+  DEFAULT_SIGNING_ALGORITHM,
+  SigningAlgorithm,
+} from "@/lib/crypto-utils";
+import { generatePolicyKeyPair } from "@/lib/key-policy";
+import { issueSubkeyCertificate, SUBKEY_VALIDITY_DAYS } from "@/lib/key-certificates";
+import { describeDevice, storeDeviceSubkey, DeviceSubkey } from "@/lib/device-key-store";
+import { createEnrollmentChallengeAction, enrollPublicKeyAction } from "@/app/actions/enrollment";
+import { registerSubkeyAction } from "@/app/actions/keys";
+
+export interface EnrolledKey {
+  keyId: string;
+  fingerprint: string;
+  algorithm: SigningAlgorithm;
+  notAfter: string;
+}
+
+export interface EnrolledKeyPair extends EnrolledKey {
+  privateKey: CryptoKey;
+}
+
+interface ExternalKeyEnrollmentParams {
+  challengeId: string;
+  publicKeyText: string;
+  proof: string;
+}
+
+/**
+ * Generates a key pair in the browser and enrolls its public key
+ * @param algorithm - The signature algorithm to generate the key for
+ * @returns Promise with the enrolled key's ID, fingerprint and private key
+ */
+export async function generateAndEnrollKeyPair(
+  algorithm: SigningAlgorithm = DEFAULT_SIGNING_ALGORITHM
+): Promise<EnrolledKeyPair> {
+  const challengeResult = await createEnrollmentChallengeAction();
+
+  if (!challengeResult.success || !challengeResult.challengeId || !challengeResult.challenge) {
+    throw new Error(challengeResult.message || "Failed to get an enrollment challenge");
+  }
+
+  const keyPair = await generatePolicyKeyPair(algorithm);
+  const publicKey = await exportPublicKey(keyPair.publicKey);
+  const proof = await signData(challengeResult.challenge, keyPair.privateKey);
+
+  const enrollResult = await enrollPublicKeyAction({
+    challengeId: challengeResult.challengeId,
+    publicKey,
+    algorithm,
+    proof,
+  });
+
+  if (!enrollResult.success || !enrollResult.keyId || !enrollResult.fingerprint || !enrollResult.notAfter) {
+    throw new Error(enrollResult.message || "Failed to enroll public key");
+  }
+
+  return {
+    keyId: enrollResult.keyId,
+    fingerprint: enrollResult.fingerprint,
+    algorithm,
+    notAfter: enrollResult.notAfter,
+    privateKey: keyPair.privateKey,
+  };
+}
+
+/**
+ * Enrolls an externally generated public key
+ * @param params - The challenge ID, the public key as PEM, OpenSSH or base64
+ *   SPKI, and the base64 signature of the challenge made with the private key
+ * @returns Promise with the enrolled key's ID, fingerprint and algorithm
+ */
+export async function enrollExternalPublicKey(params: ExternalKeyEnrollmentParams): Promise<EnrolledKey> {
+  const publicKey = await parsePublicKeyText(params.publicKeyText);
+  const algorithm = await detectPublicKeyAlgorithm(publicKey);
+
+  const enrollResult = await enrollPublicKeyAction({
+    challengeId: params.challengeId,
+    publicKey,
+    algorithm,
+    proof: params.proof.replace(/\s+/g, ""),
+  });
+
+  if (!enrollResult.success || !enrollResult.keyId || !enrollResult.fingerprint || !enrollResult.notAfter) {
+    throw new Error(enrollResult.message || "Failed to enroll public key");
+  }
+
+  return {
+    keyId: enrollResult.keyId,
+    fingerprint: enrollResult.fingerprint,
+    algorithm,
+    notAfter: enrollResult.notAfter,
+  };
+}
+
+/**
+ * Generates a sub-key for this device, certifies it with the identity key and
+ * stores it on the device as a non-extractable key
+ * @param identityPrivateKey - The user's identity private key
+ * @param identityNotAfter - The identity key's not-after date, which the sub-key may not outlive
+ * @param userId - The user's ID
+ * @returns Promise with the stored device sub-key
+ */
+export async function createDeviceSubkey(
+  identityPrivateKey: CryptoKey,
+  identityNotAfter: string,
+  userId: string
+): Promise<DeviceSubkey> {
+  const algorithm = getKeyAlgorithm(identityPrivateKey);
+  const keyPair = await generatePolicyKeyPair(algorithm);
+  const identityDaysLeft = (new Date(identityNotAfter).getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+
+  if (identityDaysLeft <= 0) {
+    throw new Error("Your identity key has expired. Rotate it on the dashboard first.");
+  }
+
+  const certificate = await issueSubkeyCertificate(
+    identityPrivateKey,
+    keyPair.publicKey,
+    describeDevice(),
+    Math.min(SUBKEY_VALIDITY_DAYS, identityDaysLeft)
+  );
+
+  const registerResult = await registerSubkeyAction(certificate);
+
+  if (!registerResult.success || !registerResult.subkey) {
+    throw new Error(registerResult.message || "Failed to register the sub-key");
+  }
+
+  return storeDeviceSubkey({
+    subkeyId: registerResult.subkey.id,
+    userId,
+    identityKeyId: registerResult.subkey.identityKeyId,
+    fingerprint: registerResult.subkey.fingerprint,
+    algorithm,
+    deviceLabel: registerResult.subkey.deviceLabel,
+    notAfter: registerResult.subkey.notAfter,
+    privateKey: keyPair.privateKey,
+  });
+}
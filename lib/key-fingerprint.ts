@@ -0,0 +1,80 @@
+/**
+ * Human-readable public key fingerprints
+ * A fingerprint is the SHA-256 of the key's SPKI encoding (see calculateKeyFingerprint);
+ * these helpers render it for out-of-band comparison
+ */
+
+// 64 emoji with names, so each emoji encodes 6 bits of the fingerprint
+const FINGERPRINT_EMOJI: { emoji: string; name: string }[] = [
+  { emoji: "🐶", name: "Dog" }, { emoji: "🐱", name: "Cat" }, { emoji: "🦁", name: "Lion" }, { emoji: "🐎", name: "Horse" },
+  { emoji: "🦄", name: "Unicorn" }, { emoji: "🐷", name: "Pig" }, { emoji: "🐘", name: "Elephant" }, { emoji: "🐰", name: "Rabbit" },
+  { emoji: "🐼", name: "Panda" }, { emoji: "🐓", name: "Rooster" }, { emoji: "🐧", name: "Penguin" }, { emoji: "🐢", name: "Turtle" },
+  { emoji: "🐟", name: "Fish" }, { emoji: "🐙", name: "Octopus" }, { emoji: "🦋", name: "Butterfly" }, { emoji: "🌷", name: "Flower" },
+  { emoji: "🌳", name: "Tree" }, { emoji: "🌵", name: "Cactus" }, { emoji: "🍄", name: "Mushroom" }, { emoji: "🌏", name: "Globe" },
+  { emoji: "🌙", name: "Moon" }, { emoji: "☁️", name: "Cloud" }, { emoji: "🔥", name: "Fire" }, { emoji: "🍌", name: "Banana" },
+  { emoji: "🍎", name: "Apple" }, { emoji: "🍓", name: "Strawberry" }, { emoji: "🌽", name: "Corn" }, { emoji: "🍕", name: "Pizza" },
+  { emoji: "🎂", name: "Cake" }, { emoji: "❤️", name: "Heart" }, { emoji: "😀", name: "Smiley" }, { emoji: "🤖", name: "Robot" },
+  { emoji: "🎩", name: "Hat" }, { emoji: "👓", name: "Glasses" }, { emoji: "🔧", name: "Spanner" }, { emoji: "🎅", name: "Santa" },
+  { emoji: "👍", name: "Thumbs Up" }, { emoji: "☂️", name: "Umbrella" }, { emoji: "⌛", name: "Hourglass" }, { emoji: "⏰", name: "Clock" },
+  { emoji: "🎁", name: "Gift" }, { emoji: "💡", name: "Light Bulb" }, { emoji: "📕", name: "Book" }, { emoji: "✏️", name: "Pencil" },
+  { emoji: "📎", name: "Paperclip" }, { emoji: "✂️", name: "Scissors" }, { emoji: "🔒", name: "Lock" }, { emoji: "🔑", name: "Key" },
+  { emoji: "🔨", name: "Hammer" }, { emoji: "☎️", name: "Telephone" }, { emoji: "🏁", name: "Flag" }, { emoji: "🚂", name: "Train" },
+  { emoji: "🚲", name: "Bicycle" }, { emoji: "✈️", name: "Aeroplane" }, { emoji: "🚀", name: "Rocket" }, { emoji: "🏆", name: "Trophy" },
+  { emoji: "⚽", name: "Ball" }, { emoji: "🎸", name: "Guitar" }, { emoji: "🎺", name: "Trumpet" }, { emoji: "🔔", name: "Bell" },
+  { emoji: "⚓", name: "Anchor" }, { emoji: "🎧", name: "Headphones" }, { emoji: "📁", name: "Folder" }, { emoji: "📌", name: "Pin" },
+];
+
+// Seven emoji cover the first 42 bits of the fingerprint
+const SHORT_FORM_LENGTH = 7;
+
+export interface FingerprintDisplay {
+  hex: string;
+  formatted: string;
+  emoji: string;
+  words: string;
+}
+
+/**
+ * Formats a hex fingerprint as upper-case groups of four characters
+ * @param fingerprint - Hex SHA-256 fingerprint
+ * @returns The fingerprint as e.g. "3F2A 9C01 ..."
+ */
+export function formatFingerprint(fingerprint: string): string {
+  return (fingerprint.toUpperCase().match(/.{1,4}/g) ?? []).join(" ");
+}
+
+/**
+ * Maps the leading bits of a fingerprint to a short sequence of emoji
+ * @param fingerprint - Hex SHA-256 fingerprint
+ * @returns The emoji and their names, in fingerprint order
+ */
+export function fingerprintEmoji(fingerprint: string): { emoji: string; name: string }[] {
+  // Work through the fingerprint as a bit string, six bits per emoji
+  const bits = fingerprint
+    .slice(0, Math.ceil((SHORT_FORM_LENGTH * 6) / 4))
+    .split("")
+    .map(c => parseInt(c, 16).toString(2).padStart(4, "0"))
+    .join("");
+
+  const result: { emoji: string; name: string }[] = [];
+  for (let i = 0; i < SHORT_FORM_LENGTH; i++) {
+    result.push(FINGERPRINT_EMOJI[parseInt(bits.slice(i * 6, i * 6 + 6), 2)]);
+  }
+  return result;
+}
+
+/**
+ * Renders a fingerprint in every display form
+ * @param fingerprint - Hex SHA-256 fingerprint
+ * @returns The hex, grouped, emoji and word forms of the fingerprint
+ */
+export function describeFingerprint(fingerprint: string): FingerprintDisplay {
+  const emoji = fingerprintEmoji(fingerprint);
+
+  return {
+    hex: fingerprint.toLowerCase(),
+    formatted: formatFingerprint(fingerprint),
+    emoji: emoji.map(e => e.emoji).join(" "),
+    words: emoji.map(e => e.name).join(" "),
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Key policy for signing keys
+ * Keys are generated with fixed, standard parameters, and every public key
+ * submitted to the server is checked against the same policy before it is stored
+ */
+
+import {
+  detectPublicKeyAlgorithm,
+  importPublicKey,
+  DEFAULT_SIGNING_ALGORITHM,
+  getCrypto,
+  SigningAlgorithm,
+} from "@/lib/crypto-utils";
+
+export const KEY_POLICY = {
+  rsa: {
+    // Size of newly generated RSA-PSS keys
+    modulusLength: 3072,
+    // Smallest and largest RSA keys accepted for enrollment
+    minModulusLength: 2048,
+    maxModulusLength: 8192,
+    // F4 (65537) is the only accepted public exponent
+    publicExponent: 65537,
+  },
+  validity: {
+    // How long an enrolled key may sign for
+    days: 365,
+    // How long before expiry the dashboard asks the user to rotate
+    renewalNoticeDays: 30,
+  },
+} as const;
+
+export type KeyPolicyResult =
+  | { valid: true; algorithm: SigningAlgorithm }
+  | { valid: false; reason: string };
+
+/**
+ * Gets the Web Crypto generation parameters for the given algorithm
+ */
+function keyGenParams(algorithm: SigningAlgorithm): RsaHashedKeyGenParams | EcKeyGenParams | Algorithm {
+  switch (algorithm) {
+    case "RSA-PSS":
+      return {
+        name: "RSA-PSS",
+        modulusLength: KEY_POLICY.rsa.modulusLength,
+        publicExponent: exponentToBytes(KEY_POLICY.rsa.publicExponent),
+        hash: "SHA-256",
+      };
+    case "ECDSA-P256":
+      return { name: "ECDSA", namedCurve: "P-256" };
+    case "Ed25519":
+      return { name: "Ed25519" };
+  }
+}
+
+/**
+ * Encodes a public exponent as the big-endian bytes Web Crypto expects
+ */
+function exponentToBytes(exponent: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let value = exponent; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value % 256);
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decodes a big-endian public exponent
+ */
+function bytesToExponent(bytes: Uint8Array): number {
+  return bytes.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+/**
+ * Generates a signing key pair with the policy's parameters
+ * @param algorithm - The signature algorithm to generate a key for
+ * @returns Promise with the generated key pair
+ */
+export async function generatePolicyKeyPair(
+  algorithm: SigningAlgorithm = DEFAULT_SIGNING_ALGORITHM
+): Promise<CryptoKeyPair> {
+  return getCrypto().subtle.generateKey(
+    keyGenParams(algorithm),
+    true,
+    ["sign", "verify"]
+  ) as Promise<CryptoKeyPair>;
+}
+
+/**
+ * Gets the not-after date for a key enrolled at the given time
+ * @param enrolledAt - When the key is enrolled
+ * @returns ISO timestamp after which the key may no longer sign
+ */
+export function getKeyNotAfter(enrolledAt: Date): string {
+  return new Date(enrolledAt.getTime() + KEY_POLICY.validity.days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Validates a public key against the key policy
+ * @param publicKeyString - Base64 encoded SPKI public key
+ * @param algorithm - The algorithm the key is declared as; detected from the key when omitted
+ * @returns Promise with the key's algorithm, or the reason it was rejected
+ */
+export async function validatePublicKey(
+  publicKeyString: string,
+  algorithm?: SigningAlgorithm
+): Promise<KeyPolicyResult> {
+  let publicKey: CryptoKey;
+  let keyAlgorithm: SigningAlgorithm;
+
+  try {
+    keyAlgorithm = algorithm ?? await detectPublicKeyAlgorithm(publicKeyString);
+    publicKey = await importPublicKey(publicKeyString, keyAlgorithm);
+  } catch {
+    return { valid: false, reason: "Invalid public key: not a supported SPKI key" };
+  }
+
+  // P-256 and Ed25519 have fixed parameters that the import already enforces
+  if (keyAlgorithm !== "RSA-PSS") {
+    return { valid: true, algorithm: keyAlgorithm };
+  }
+
+  const { modulusLength, publicExponent } = publicKey.algorithm as RsaHashedKeyAlgorithm;
+
+  if (modulusLength < KEY_POLICY.rsa.minModulusLength) {
+    return {
+      valid: false,
+      reason: `RSA key is too small: ${modulusLength} bits (minimum ${KEY_POLICY.rsa.minModulusLength})`,
+    };
+  }
+
+  if (modulusLength > KEY_POLICY.rsa.maxModulusLength) {
+    return {
+      valid: false,
+      reason: `RSA key is too large: ${modulusLength} bits (maximum ${KEY_POLICY.rsa.maxModulusLength})`,
+    };
+  }
+
+  if (modulusLength % 8 !== 0) {
+    return {
+      valid: false,
+      reason: `RSA key has a non-standard size: ${modulusLength} bits`,
+    };
+  }
+
+  const exponent = bytesToExponent(publicExponent);
+  if (exponent !== KEY_POLICY.rsa.publicExponent) {
+    return {
+      valid: false,
+      reason: `RSA key has a disallowed public exponent: ${exponent} (required ${KEY_POLICY.rsa.publicExponent})`,
+    };
+  }
+
+  return { valid: true, algorithm: keyAlgorithm };
+}
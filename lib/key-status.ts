@@ -0,0 +1,101 @@
+/**
+ * Key revocation and expiry status
+ * A revoked key invalidates signatures made at or after the revocation's
+ * effective date, and an expired key invalidates signatures made after its
+ * not-after date; signatures made before either remain valid
+ */
+
+import { KEY_POLICY } from "@/lib/key-policy";
+
+export type RevocationReason =
+  | "unspecified"
+  | "key_compromise"
+  | "superseded"
+  | "cessation_of_operation";
+
+export const REVOCATION_REASONS: { value: RevocationReason; label: string }[] = [
+  { value: "key_compromise", label: "Key compromise" },
+  { value: "superseded", label: "Superseded by a new key" },
+  { value: "cessation_of_operation", label: "No longer used" },
+  { value: "unspecified", label: "Unspecified" },
+];
+
+export interface KeyRevocation {
+  reason: RevocationReason;
+  revokedAt: string;
+  effectiveAt: string;
+}
+
+export type SignatureKeyStatus =
+  | { status: "valid"; revocation: KeyRevocation | null }
+  | { status: "revoked"; revocation: KeyRevocation }
+  | { status: "expired"; revocation: KeyRevocation | null; notAfter: string };
+
+export type KeyExpiryStatus =
+  | { status: "valid"; daysLeft: number }
+  | { status: "renewal_due"; daysLeft: number }
+  | { status: "expired"; daysLeft: 0 };
+
+/**
+ * Checks whether a value names a supported revocation reason
+ * @param value - The value to check, e.g. from a form
+ * @returns True if the value is a RevocationReason
+ */
+export function isRevocationReason(value: unknown): value is RevocationReason {
+  return REVOCATION_REASONS.some(reason => reason.value === value);
+}
+
+/**
+ * Gets the display label of a revocation reason
+ */
+export function revocationReasonLabel(reason: RevocationReason): string {
+  return REVOCATION_REASONS.find(r => r.value === reason)?.label ?? reason;
+}
+
+/**
+ * Determines whether a signature is still covered by its key
+ * @param revocation - The signing key's revocation, if any
+ * @param signedAt - When the signature was made
+ * @param notAfter - The signing key's not-after date; keys enrolled before expiry existed have none
+ * @returns "revoked" if the signature was made at or after the effective date,
+ *   "expired" if it was made after the key's not-after date
+ */
+export function getSignatureKeyStatus(
+  revocation: KeyRevocation | null,
+  signedAt: string,
+  notAfter: string | null = null
+): SignatureKeyStatus {
+  const signedAtTime = new Date(signedAt).getTime();
+
+  if (revocation && signedAtTime >= new Date(revocation.effectiveAt).getTime()) {
+    return { status: "revoked", revocation };
+  }
+
+  if (notAfter && signedAtTime > new Date(notAfter).getTime()) {
+    return { status: "expired", revocation, notAfter };
+  }
+
+  return { status: "valid", revocation };
+}
+
+/**
+ * Determines whether a key can still sign and whether it is due for renewal
+ * @param notAfter - The key's not-after date
+ * @param now - The time to check at, defaults to now
+ * @returns "renewal_due" within the policy's renewal notice period, "expired" after the not-after date
+ */
+export function getKeyExpiryStatus(notAfter: string, now: number = Date.now()): KeyExpiryStatus {
+  const msLeft = new Date(notAfter).getTime() - now;
+
+  if (msLeft <= 0) {
+    return { status: "expired", daysLeft: 0 };
+  }
+
+  const daysLeft = Math.ceil(msLeft / (24 * 60 * 60 * 1000));
+
+  if (daysLeft <= KEY_POLICY.validity.renewalNoticeDays) {
+    return { status: "renewal_due", daysLeft };
+  }
+
+  return { status: "valid", daysLeft };
+}
@@ -0,0 +1,490 @@
+/**
+ * Server-side helpers for the versioned public key store
+ * Every key a user has ever signed with is kept in user_keys so that
+ * images signed before a rotation remain verifiable
+ */
+
+import { createServiceRoleClient } from "@/lib/supabase/server";
+import { calculateKeyFingerprint, detectPublicKeyAlgorithm, SigningAlgorithm } from "@/lib/crypto-utils";
+import { KeyRevocation, RevocationReason } from "@/lib/key-status";
+import { CertificateLink } from "@/lib/key-certificates";
+import { getKeyNotAfter } from "@/lib/key-policy";
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>;
+
+// Prefix of the placeholder key assigned to new profiles by the sign-up trigger
+const PLACEHOLDER_KEY_PREFIX = "MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEAu5sVBczU9q";
+
+export interface UserKeyRecord {
+  id: string;
+  userId: string;
+  publicKey: string;
+  fingerprint: string;
+  algorithm: SigningAlgorithm;
+  createdAt: string;
+  notAfter: string;
+  retiredAt: string | null;
+  revocation: KeyRevocation | null;
+}
+
+interface UserKeyRow {
+  id: string;
+  user_id: string;
+  public_key: string;
+  fingerprint: string;
+  algorithm: SigningAlgorithm;
+  created_at: string;
+  not_after: string;
+  retired_at: string | null;
+  revoked_at: string | null;
+  revocation_reason: RevocationReason | null;
+  revocation_effective_at: string | null;
+}
+
+export interface SubkeyRecord {
+  id: string;
+  userId: string;
+  identityKeyId: string;
+  publicKey: string;
+  fingerprint: string;
+  algorithm: SigningAlgorithm;
+  deviceLabel: string;
+  notBefore: string;
+  notAfter: string;
+  certificate: CertificateLink;
+  createdAt: string;
+  revocation: KeyRevocation | null;
+}
+
+interface SubkeyRow {
+  id: string;
+  user_id: string;
+  identity_key_id: string;
+  public_key: string;
+  fingerprint: string;
+  algorithm: SigningAlgorithm;
+  device_label: string;
+  not_before: string;
+  not_after: string;
+  certificate: CertificateLink["certificate"];
+  certificate_signature: string;
+  created_at: string;
+  revoked_at: string | null;
+  revocation_reason: RevocationReason | null;
+  revocation_effective_at: string | null;
+}
+
+function toRevocation(row: Pick<UserKeyRow, "revoked_at" | "revocation_reason" | "revocation_effective_at">): KeyRevocation | null {
+  return row.revoked_at && row.revocation_reason && row.revocation_effective_at
+    ? {
+        reason: row.revocation_reason,
+        revokedAt: row.revoked_at,
+        effectiveAt: row.revocation_effective_at,
+      }
+    : null;
+}
+
+function toSubkeyRecord(row: SubkeyRow): SubkeyRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    identityKeyId: row.identity_key_id,
+    publicKey: row.public_key,
+    fingerprint: row.fingerprint,
+    algorithm: row.algorithm,
+    deviceLabel: row.device_label,
+    notBefore: row.not_before,
+    notAfter: row.not_after,
+    certificate: {
+      certificate: row.certificate,
+      signature: row.certificate_signature,
+    },
+    createdAt: row.created_at,
+    revocation: toRevocation(row),
+  };
+}
+
+function toUserKeyRecord(row: UserKeyRow): UserKeyRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    publicKey: row.public_key,
+    fingerprint: row.fingerprint,
+    algorithm: row.algorithm,
+    createdAt: row.created_at,
+    notAfter: row.not_after,
+    retiredAt: row.retired_at,
+    revocation: toRevocation(row),
+  };
+}
+
+/**
+ * Checks whether a profile key is missing or still the sign-up placeholder
+ * @param publicKey - The key stored in user_profiles
+ * @returns True if the user still needs to enroll a real key
+ */
+export function isMissingPublicKey(publicKey: string | null | undefined): boolean {
+  return !publicKey || publicKey.startsWith(PLACEHOLDER_KEY_PREFIX);
+}
+
+/**
+ * Gets the key a user currently signs with
+ * @param serviceClient - Service role client
+ * @param userId - The user's ID
+ * @returns Promise with the active key or null if the user has none
+ */
+export async function getActiveUserKey(serviceClient: ServiceClient, userId: string): Promise<UserKeyRecord | null> {
+  const { data, error } = await serviceClient
+    .from("user_keys")
+    .select("*")
+    .eq("user_id", userId)
+    .is("retired_at", null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get active key: ${error.message}`);
+  }
+
+  return data ? toUserKeyRecord(data) : null;
+}
+
+/**
+ * Gets a specific key from a user's key history, whether active or retired
+ * @param serviceClient - Service role client
+ * @param userId - The user's ID
+ * @param keyId - The key's ID
+ * @returns Promise with the key or null if it does not belong to the user
+ */
+export async function getUserKeyById(serviceClient: ServiceClient, userId: string, keyId: string): Promise<UserKeyRecord | null> {
+  const { data, error } = await serviceClient
+    .from("user_keys")
+    .select("*")
+    .eq("id", keyId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get key ${keyId}: ${error.message}`);
+  }
+
+  return data ? toUserKeyRecord(data) : null;
+}
+
+/**
+ * Gets a key from a user's key history by its fingerprint, e.g. the key ID
+ * recorded in a signature envelope
+ * @param serviceClient - Service role client
+ * @param userId - The user's ID
+ * @param fingerprint - The key's fingerprint
+ * @returns Promise with the key or null if the user has no such key
+ */
+export async function getUserKeyByFingerprint(serviceClient: ServiceClient, userId: string, fingerprint: string): Promise<UserKeyRecord | null> {
+  const { data, error } = await serviceClient
+    .from("user_keys")
+    .select("*")
+    .eq("fingerprint", fingerprint)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get key ${fingerprint}: ${error.message}`);
+  }
+
+  return data ? toUserKeyRecord(data) : null;
+}
+
+/**
+ * Checks that a key is registered to some account and has not been revoked
+ * @param serviceClient - Service role client
+ * @param fingerprint - The key's fingerprint, see calculateKeyFingerprint
+ * @returns Promise with a boolean indicating if the key is registered and unrevoked
+ */
+export async function isRegisteredKeyFingerprint(serviceClient: ServiceClient, fingerprint: string): Promise<boolean> {
+  const { count, error } = await serviceClient
+    .from("user_keys")
+    .select("id", { count: "exact", head: true })
+    .eq("fingerprint", fingerprint)
+    .is("revoked_at", null);
+
+  if (error) {
+    throw new Error(`Failed to look up key ${fingerprint}: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Records a new public key for a user
+ * Retires the previously active key instead of overwriting it, and keeps
+ * user_profiles.public_key pointing at the current key
+ * @param serviceClient - Service role client
+ * @param userId - The user's ID
+ * @param publicKey - Base64 encoded SPKI public key
+ * @param algorithm - The key's signature algorithm; detected from the key when omitted
+ * @returns Promise with the stored key record
+ */
+export async function recordUserPublicKey(
+  serviceClient: ServiceClient,
+  userId: string,
+  publicKey: string,
+  algorithm?: SigningAlgorithm
+): Promise<UserKeyRecord> {
+  const fingerprint = await calculateKeyFingerprint(publicKey);
+  const keyAlgorithm = algorithm ?? await detectPublicKeyAlgorithm(publicKey);
+  const enrolledAt = new Date();
+  const now = enrolledAt.toISOString();
+
+  const activeKey = await getActiveUserKey(serviceClient, userId);
+
+  // Saving the same key twice must not create a new version
+  if (activeKey?.fingerprint === fingerprint && new Date(activeKey.notAfter).getTime() > enrolledAt.getTime()) {
+    return activeKey;
+  }
+
+  // A key that was ever enrolled must never become active again: a revoked or expired key
+  // would be trusted anew, and re-enrolling a retired one would restart its validity period
+  const { data: previousKeys, error: previousError } = await serviceClient
+    .from("user_keys")
+    .select("id, revoked_at, not_after")
+    .eq("user_id", userId)
+    .eq("fingerprint", fingerprint);
+
+  if (previousError) {
+    throw new Error(`Failed to check previous key versions: ${previousError.message}`);
+  }
+
+  for (const previousKey of previousKeys ?? []) {
+    if (previousKey.revoked_at) {
+      throw new Error("This key has been revoked and cannot be enrolled again");
+    }
+
+    if (new Date(previousKey.not_after).getTime() <= enrolledAt.getTime()) {
+      throw new Error("This key has expired and cannot be enrolled again. Generate a new key instead.");
+    }
+  }
+
+  if (previousKeys && previousKeys.length > 0) {
+    throw new Error("This key was used before and cannot be enrolled again. Generate a new key instead.");
+  }
+
+  // Retiring the active key and storing the new one happen in one transaction,
+  // so a failure can't leave the user without an active key
+  const { data: keyData, error: rotateError } = await serviceClient.rpc("rotate_user_key", {
+    p_user_id: userId,
+    p_public_key: publicKey,
+    p_fingerprint: fingerprint,
+    p_algorithm: keyAlgorithm,
+    p_enrolled_at: now,
+    p_not_after: getKeyNotAfter(enrolledAt),
+  });
+
+  if (rotateError) {
+    throw new Error(`Failed to store key: ${rotateError.message}`);
+  }
+
+  return toUserKeyRecord(keyData);
+}
+
+/**
+ * Revokes one of a user's keys
+ * A revoked active key is also retired and cleared from the profile, so the
+ * user has to enroll a new key before signing again
+ * @param serviceClient - Service role client
+ * @param userId - The user's ID
+ * @param keyId - The key to revoke
+ * @param reason - Why the key is revoked
+ * @param effectiveAt - From when signatures made with the key are no longer valid
+ * @returns Promise with the revoked key record
+ */
+export async function revokeUserKey(
+  serviceClient: ServiceClient,
+  userId: string,
+  keyId: string,
+  reason: RevocationReason,
+  effectiveAt: string
+): Promise<UserKeyRecord> {
+  const key = await getUserKeyById(serviceClient, userId, keyId);
+
+  if (!key) {
+    throw new Error("Key not found");
+  }
+
+  if (key.revocation) {
+    throw new Error("Key has already been revoked");
+  }
+
+  const now = new Date().toISOString();
+
+  const { data, error } = await serviceClient
+    .from("user_keys")
+    .update({
+      revoked_at: now,
+      revocation_reason: reason,
+      revocation_effective_at: effectiveAt,
+      retired_at: key.retiredAt ?? now,
+    })
+    .eq("id", keyId)
+    .eq("user_id", userId)
+    .is("revoked_at", null)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to revoke key: ${error.message}`);
+  }
+
+  // The profile key stands for the current key; once that is revoked there is none
+  if (!key.retiredAt) {
+    const { error: profileError } = await serviceClient
+      .from("user_profiles")
+      .update({ public_key: "", updated_at: now })
+      .eq("user_id", userId)
+      .eq("public_key", key.publicKey);
+
+    if (profileError) {
+      throw new Error(`Failed to clear the revoked profile key: ${profileError.message}`);
+    }
+  }
+
+  // Devices that remember the key drop their copy when they next check in
+  const { error: deviceError } = await serviceClient
+    .from("device_keys")
+    .delete()
+    .eq("key_id", keyId);
+
+  if (deviceError) {
+    console.error("Failed to forget devices for revoked key:", deviceError);
+  }
+
+  return toUserKeyRecord(data);
+}
+
+/**
+ * Gets one of a user's signing sub-keys
+ * @param serviceClient - Service role client
+ * @param userId - The user's ID
+ * @param subkeyId - The sub-key's ID
+ * @returns Promise with the sub-key or null if it does not belong to the user
+ */
+export async function getSubkeyById(serviceClient: ServiceClient, userId: string, subkeyId: string): Promise<SubkeyRecord | null> {
+  const { data, error } = await serviceClient
+    .from("signing_subkeys")
+    .select("*")
+    .eq("id", subkeyId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get sub-key ${subkeyId}: ${error.message}`);
+  }
+
+  return data ? toSubkeyRecord(data) : null;
+}
+
+/**
+ * Lists a user's signing sub-keys, newest first
+ * @param serviceClient - Service role client
+ * @param userId - The user's ID
+ * @returns Promise with the sub-keys, including expired and revoked ones
+ */
+export async function listSubkeys(serviceClient: ServiceClient, userId: string): Promise<SubkeyRecord[]> {
+  const { data, error } = await serviceClient
+    .from("signing_subkeys")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list sub-keys: ${error.message}`);
+  }
+
+  return (data ?? []).map(toSubkeyRecord);
+}
+
+/**
+ * Records a sub-key whose certificate has already been checked against the identity key
+ * @param serviceClient - Service role client
+ * @param userId - The user's ID
+ * @param identityKeyId - The identity key that issued the certificate
+ * @param link - The certificate and the identity key's signature over it
+ * @returns Promise with the stored sub-key record
+ */
+export async function recordSubkey(
+  serviceClient: ServiceClient,
+  userId: string,
+  identityKeyId: string,
+  link: CertificateLink
+): Promise<SubkeyRecord> {
+  const { certificate, signature } = link;
+
+  const { data, error } = await serviceClient
+    .from("signing_subkeys")
+    .insert({
+      user_id: userId,
+      identity_key_id: identityKeyId,
+      public_key: certificate.subjectPublicKey,
+      fingerprint: certificate.subjectFingerprint,
+      algorithm: certificate.subjectAlgorithm,
+      device_label: certificate.deviceLabel,
+      not_before: certificate.notBefore,
+      not_after: certificate.notAfter,
+      certificate,
+      certificate_signature: signature,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to store sub-key: ${error.message}`);
+  }
+
+  return toSubkeyRecord(data);
+}
+
+/**
+ * Revokes one of a user's sub-keys, e.g. when the device it lives on is lost
+ * @param serviceClient - Service role client
+ * @param userId - The user's ID
+ * @param subkeyId - The sub-key to revoke
+ * @param reason - Why the sub-key is revoked
+ * @param effectiveAt - From when signatures made with the sub-key are no longer valid
+ * @returns Promise with the revoked sub-key record
+ */
+export async function revokeSubkey(
+  serviceClient: ServiceClient,
+  userId: string,
+  subkeyId: string,
+  reason: RevocationReason,
+  effectiveAt: string
+): Promise<SubkeyRecord> {
+  const subkey = await getSubkeyById(serviceClient, userId, subkeyId);
+
+  if (!subkey) {
+    throw new Error("Sub-key not found");
+  }
+
+  if (subkey.revocation) {
+    throw new Error("Sub-key has already been revoked");
+  }
+
+  const { data, error } = await serviceClient
+    .from("signing_subkeys")
+    .update({
+      revoked_at: new Date().toISOString(),
+      revocation_reason: reason,
+      revocation_effective_at: effectiveAt,
+    })
+    .eq("id", subkeyId)
+    .eq("user_id", userId)
+    .is("revoked_at", null)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to revoke sub-key: ${error.message}`);
+  }
+
+  return toSubkeyRecord(data);
+}
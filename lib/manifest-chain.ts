@@ -0,0 +1,143 @@
+/**
+ * Auditing a user's chain of signed manifests
+ * Each manifest names the hash of the one its uploader signed before it, so a
+ * user's uploads form a chain. Walking it from the newest image back exposes
+ * images removed from the middle (gaps), two images claiming the same
+ * predecessor (forks), and images whose order disagrees with the chain
+ * (reordered entries). Images the user deleted keep their manifest in a
+ * deletion record, so they stay in the chain as deleted entries, not gaps
+ */
+
+import { hashManifest, ImageManifest } from "@/lib/image-manifest";
+
+export type ChainIssueKind = "gap" | "fork" | "reordered";
+
+// A stored image with its signed manifest
+export interface ChainRecord {
+  id: string;
+  fileName: string;
+  createdAt: string;
+  manifest: ImageManifest;
+  // When the image was deleted, for records kept from a deletion
+  deletedAt?: string | null;
+}
+
+export interface ChainIssue {
+  kind: ChainIssueKind;
+  imageId: string;
+  message: string;
+}
+
+export interface ChainEntry {
+  imageId: string;
+  fileName: string;
+  signedAt: string;
+  manifestHash: string;
+  previousManifestHash: string | null;
+  // Whether the image's manifest predates chaining, so it links to nothing
+  unchained: boolean;
+  // When the image was deleted, or null while it is stored
+  deletedAt: string | null;
+  // Whether the entry starts a new run of the walk, after a gap or on a fork's branch
+  segmentStart: boolean;
+  issues: ChainIssueKind[];
+}
+
+export interface ChainAudit {
+  // Newest first, in the order the chain was walked
+  entries: ChainEntry[];
+  issues: ChainIssue[];
+  intact: boolean;
+}
+
+function signedTime(record: ChainRecord): number {
+  return new Date(record.manifest.signedAt).getTime();
+}
+
+function isChained(record: ChainRecord): boolean {
+  return record.manifest.previousManifestHash !== undefined;
+}
+
+/**
+ * Walks a user's manifest chain and flags gaps, forks and reordered entries
+ * @param records - The user's images that have a signed manifest, and those kept from deletions, in any order
+ * @returns Promise with the walked entries and the problems found
+ */
+export async function auditManifestChain(records: ChainRecord[]): Promise<ChainAudit> {
+  const hashes = new Map<string, string>();
+  const byHash = new Map<string, ChainRecord>();
+
+  for (const record of records) {
+    const hash = await hashManifest(record.manifest);
+    hashes.set(record.id, hash);
+    byHash.set(hash, record);
+  }
+
+  const issues: ChainIssue[] = [];
+  const flags = new Map<string, Set<ChainIssueKind>>(records.map(record => [record.id, new Set()]));
+  const flag = (record: ChainRecord, kind: ChainIssueKind, message: string) => {
+    flags.get(record.id)!.add(kind);
+    issues.push({ kind, imageId: record.id, message });
+  };
+
+  // Group chained images by the manifest they link to; "" is the chain's start
+  const successors = new Map<string, ChainRecord[]>();
+  for (const record of records.filter(isChained)) {
+    const previous = record.manifest.previousManifestHash ?? "";
+    successors.set(previous, [...(successors.get(previous) ?? []), record]);
+  }
+
+  for (const [previous, linked] of successors) {
+    if (linked.length > 1) {
+      // Reported once, but marked on every branch
+      const names = linked.map(record => record.fileName).join(", ");
+      const what = previous ? `the same previous image (${byHash.get(previous)?.fileName ?? "missing"})` : "no previous image";
+      flag(linked[0], "fork", `${names} each link to ${what}`);
+      linked.slice(1).forEach(record => flags.get(record.id)!.add("fork"));
+    }
+
+    const predecessor = previous ? byHash.get(previous) : undefined;
+
+    for (const record of linked) {
+      if (previous && !predecessor) {
+        flag(record, "gap", `The image signed before ${record.fileName} is missing`);
+      } else if (predecessor && signedTime(predecessor) >= signedTime(record)) {
+        flag(record, "reordered", `${record.fileName} was signed before ${predecessor.fileName}, which it links back to`);
+      } else if (predecessor && new Date(predecessor.createdAt).getTime() > new Date(record.createdAt).getTime()) {
+        flag(record, "reordered", `${record.fileName} is stored as uploaded before ${predecessor.fileName}, which it links back to`);
+      }
+    }
+  }
+
+  // Walk back from the newest image not yet visited until the chain runs out,
+  // so each gap or fork branch starts another run
+  const newestFirst = [...records].sort((a, b) => signedTime(b) - signedTime(a));
+  const visited = new Set<string>();
+  const entries: ChainEntry[] = [];
+
+  for (const start of newestFirst) {
+    let record: ChainRecord | undefined = start;
+    let segmentStart = true;
+
+    while (record && !visited.has(record.id)) {
+      visited.add(record.id);
+      entries.push({
+        imageId: record.id,
+        fileName: record.fileName,
+        signedAt: record.manifest.signedAt,
+        manifestHash: hashes.get(record.id)!,
+        previousManifestHash: record.manifest.previousManifestHash ?? null,
+        unchained: !isChained(record),
+        deletedAt: record.deletedAt ?? null,
+        segmentStart,
+        issues: [...flags.get(record.id)!],
+      });
+
+      const previous: string | null | undefined = record.manifest.previousManifestHash;
+      record = previous ? byHash.get(previous) : undefined;
+      segmentStart = false;
+    }
+  }
+
+  return { entries, issues, intact: issues.length === 0 };
+}
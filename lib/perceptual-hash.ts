@@ -0,0 +1,176 @@
+/**
+ * Perceptual image hashes
+ * Unlike the SHA-256 of an image's bytes, a perceptual hash is computed from
+ * what the image looks like, so a resized, re-encoded or screenshotted copy
+ * hashes to nearly the same value. Hashes are compared by Hamming distance.
+ * Three 64-bit hashes are computed: aHash (brightness against the mean),
+ * dHash (brightness gradients) and pHash (low DCT frequencies, the most robust
+ * and the one copies are searched by)
+ */
+
+export interface PerceptualHashes {
+  // Each a 64-bit hash, as 16 hex digits
+  aHash: string;
+  dHash: string;
+  pHash: string;
+}
+
+// The largest pHash distance at which an image still counts as a copy of another.
+// It can be no more than PERCEPTUAL_HASH_BANDS - 1, or the band search would miss copies
+export const PERCEPTUAL_MATCH_DISTANCE = 7;
+
+// pHashes are split into this many 8-bit bands for indexed search. Hashes that
+// differ in at most 7 bits leave at least one band untouched, so they always share a band
+export const PERCEPTUAL_HASH_BANDS = 8;
+
+const DCT_SIZE = 32;
+const HASH_SIZE = 8;
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = "";
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0)).toString(16);
+  }
+  return hex;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Computes the aHash of an 8x8 grayscale image
+ * @param pixels - Brightness values, row by row
+ * @returns The hash as 16 hex digits
+ */
+export function averageHash(pixels: ArrayLike<number>): string {
+  const values = Array.from(pixels);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return bitsToHex(values.map(value => value > mean));
+}
+
+/**
+ * Computes the dHash of a 9x8 grayscale image
+ * @param pixels - Brightness values, row by row
+ * @returns The hash as 16 hex digits
+ */
+export function differenceHash(pixels: ArrayLike<number>): string {
+  const bits: boolean[] = [];
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x++) {
+      bits.push(pixels[y * (HASH_SIZE + 1) + x] > pixels[y * (HASH_SIZE + 1) + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+/**
+ * Computes the pHash of a 32x32 grayscale image from the lowest 8x8
+ * frequencies of its discrete cosine transform
+ * @param pixels - Brightness values, row by row
+ * @returns The hash as 16 hex digits
+ */
+export function perceptualHash(pixels: ArrayLike<number>): string {
+  const cosines = Array.from({ length: HASH_SIZE }, (_, u) =>
+    Array.from({ length: DCT_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE)))
+  );
+
+  // Transform the rows, then the columns, keeping only the frequencies that make up the hash
+  const rows = Array.from({ length: DCT_SIZE }, (_, y) =>
+    cosines.map(cosine => cosine.reduce((sum, c, x) => sum + c * pixels[y * DCT_SIZE + x], 0))
+  );
+  const coefficients: number[] = [];
+  for (let v = 0; v < HASH_SIZE; v++) {
+    for (let u = 0; u < HASH_SIZE; u++) {
+      coefficients.push(cosines[v].reduce((sum, c, y) => sum + c * rows[y][u], 0));
+    }
+  }
+
+  // The DC term is the overall brightness, which says nothing about the image's structure
+  const threshold = median(coefficients.slice(1));
+  return bitsToHex(coefficients.map(coefficient => coefficient > threshold));
+}
+
+/**
+ * Counts the bits two hashes differ in
+ * @param a - A hash as hex digits
+ * @param b - A hash of the same length as hex digits
+ * @returns The Hamming distance between the hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error("Perceptual hashes must be the same length to compare");
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    for (; bits; bits &= bits - 1) {
+      distance++;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Checks that a value is a 64-bit hash as 16 hex digits
+ */
+export function isPerceptualHash(value: unknown): value is string {
+  return typeof value === "string" && /^[0-9a-f]{16}$/.test(value);
+}
+
+/**
+ * Splits a pHash into the bands it is indexed by, each prefixed with its
+ * position so equal bits in different places don't match
+ * @param pHash - The pHash as 16 hex digits
+ * @returns The band keys
+ */
+export function perceptualHashBands(pHash: string): string[] {
+  const bandLength = pHash.length / PERCEPTUAL_HASH_BANDS;
+  return Array.from({ length: PERCEPTUAL_HASH_BANDS }, (_, i) => `${i}${pHash.slice(i * bandLength, (i + 1) * bandLength)}`);
+}
+
+/**
+ * Scales an image down to the given size and reads its brightness
+ */
+function readGrayscale(image: ImageBitmap, width: number, height: number): Float64Array {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas is not available");
+  }
+
+  context.imageSmoothingQuality = "high";
+  context.drawImage(image, 0, 0, width, height);
+
+  const { data } = context.getImageData(0, 0, width, height);
+  const pixels = new Float64Array(width * height);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return pixels;
+}
+
+/**
+ * Computes an image's perceptual hashes in the browser
+ * @param file - The image; it must be in a format the browser can decode
+ * @returns Promise with the image's aHash, dHash and pHash
+ */
+export async function computePerceptualHashes(file: Blob): Promise<PerceptualHashes> {
+  const image = await createImageBitmap(file);
+
+  try {
+    return {
+      aHash: averageHash(readGrayscale(image, HASH_SIZE, HASH_SIZE)),
+      dHash: differenceHash(readGrayscale(image, HASH_SIZE + 1, HASH_SIZE)),
+      pHash: perceptualHash(readGrayscale(image, DCT_SIZE, DCT_SIZE)),
+    };
+  } finally {
+    image.close();
+  }
+}
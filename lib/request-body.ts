@@ -0,0 +1,43 @@
+/**
+ * Bounded reading of HTTP request bodies
+ * A Content-Length header is only a claim, and chunked requests have none, so
+ * routes that limit their input count the bytes as they arrive
+ */
+
+/**
+ * Reads a request's body, stopping as soon as it grows past the limit
+ * @param request - The request to read
+ * @param maxBytes - The largest body accepted
+ * @returns Promise with the body, or null when it is too large
+ */
+export async function readLimitedBody(request: Request, maxBytes: number): Promise<Uint8Array | null> {
+  // Honest oversized requests are turned away before anything is read
+  if (Number(request.headers.get("content-length") ?? 0) > maxBytes) {
+    return null;
+  }
+
+  if (!request.body) {
+    return new Uint8Array(0);
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(chunk.value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
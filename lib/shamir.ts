@@ -0,0 +1,131 @@
+/**
+ * Shamir secret sharing over GF(256)
+ * Each byte of the secret is the constant term of its own random polynomial
+ * of degree threshold - 1; a share holds the polynomials' values at one x
+ */
+
+import { getCrypto } from "@/lib/crypto-utils";
+
+export interface SecretShare {
+  x: number;
+  y: Uint8Array;
+}
+
+export const MAX_SHARES = 255;
+
+// Log and exp tables for GF(256) with the AES polynomial x^8 + x^4 + x^3 + x + 1
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+for (let i = 0, value = 1; i < 255; i++) {
+  EXP[i] = value;
+  LOG[value] = i;
+  // Multiply by the generator 3: value * 2 XOR value, reduced modulo the polynomial
+  value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+}
+for (let i = 255; i < 510; i++) {
+  EXP[i] = EXP[i - 255];
+}
+
+function multiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function divide(a: number, b: number): number {
+  if (b === 0) {
+    throw new Error("Division by zero in GF(256)");
+  }
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Splits a secret into shares, any threshold of which reconstruct it
+ * @param secret - The secret bytes
+ * @param shareCount - Number of shares to create (2 to 255)
+ * @param threshold - Number of shares needed to reconstruct the secret (2 to shareCount)
+ * @returns The shares, with x coordinates 1 to shareCount
+ */
+export function splitSecret(secret: Uint8Array, shareCount: number, threshold: number): SecretShare[] {
+  if (!Number.isInteger(shareCount) || shareCount < 2 || shareCount > MAX_SHARES) {
+    throw new Error(`The number of shares must be between 2 and ${MAX_SHARES}`);
+  }
+
+  if (!Number.isInteger(threshold) || threshold < 2 || threshold > shareCount) {
+    throw new Error("The threshold must be between 2 and the number of shares");
+  }
+
+  const shares: SecretShare[] = Array.from({ length: shareCount }, (_, i) => ({
+    x: i + 1,
+    y: new Uint8Array(secret.length),
+  }));
+
+  const coefficients = new Uint8Array(threshold);
+
+  for (let byteIndex = 0; byteIndex < secret.length; byteIndex++) {
+    coefficients[0] = secret[byteIndex];
+    getCrypto().getRandomValues(coefficients.subarray(1));
+
+    for (const share of shares) {
+      // Horner's method, highest coefficient first
+      let y = 0;
+      for (let c = threshold - 1; c >= 0; c--) {
+        y = multiply(y, share.x) ^ coefficients[c];
+      }
+      share.y[byteIndex] = y;
+    }
+  }
+
+  coefficients.fill(0);
+
+  return shares;
+}
+
+/**
+ * Reconstructs a secret from shares by Lagrange interpolation at x = 0
+ * Fewer shares than the threshold yield unrelated bytes, not an error, so
+ * callers must check the result (e.g. by decrypting it)
+ * @param shares - At least threshold distinct shares of the same secret
+ * @returns The secret bytes
+ */
+export function combineShares(shares: SecretShare[]): Uint8Array {
+  if (shares.length < 2) {
+    throw new Error("At least two shares are needed");
+  }
+
+  const length = shares[0].y.length;
+  const xs = new Set<number>();
+
+  for (const share of shares) {
+    if (share.y.length !== length) {
+      throw new Error("The shares belong to different secrets");
+    }
+    if (share.x < 1 || share.x > MAX_SHARES || xs.has(share.x)) {
+      throw new Error("Duplicate or invalid share");
+    }
+    xs.add(share.x);
+  }
+
+  // The Lagrange basis polynomials at x = 0 are the same for every byte
+  const weights = shares.map((share, i) => {
+    let weight = 1;
+    shares.forEach((other, j) => {
+      if (i !== j) {
+        // In GF(256) subtraction is XOR: 0 - x_j = x_j and x_i - x_j = x_i ^ x_j
+        weight = multiply(weight, divide(other.x, share.x ^ other.x));
+      }
+    });
+    return weight;
+  });
+
+  const secret = new Uint8Array(length);
+
+  for (let byteIndex = 0; byteIndex < length; byteIndex++) {
+    let value = 0;
+    shares.forEach((share, i) => {
+      value ^= multiply(share.y[byteIndex], weights[i]);
+    });
+    secret[byteIndex] = value;
+  }
+
+  return secret;
+}
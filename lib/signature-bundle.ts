@@ -0,0 +1,192 @@
+/**
+ * Detached signature bundles
+ * A bundle is a self-contained proof of an image's authenticity: the signed
+ * manifest, the signature, the signer's public key and certificate chain. It
+ * can be verified against the image alone, without looking anything up in
+ * the database. Whether the signer's key belongs to who it claims to is
+ * established by comparing its fingerprint out of band
+ */
+
+import {
+  calculateKeyFingerprint,
+  isSigningAlgorithm,
+  parseSignatureEnvelope,
+  verifyFileHashSignature,
+  verifyStoredSignature,
+  SignatureEnvelope,
+  SigningAlgorithm,
+} from "@/lib/crypto-utils";
+import { canonicalizeJson, ImageManifest } from "@/lib/image-manifest";
+import { CertificateChain, resolveImageSigningKey, SubkeyCertificate } from "@/lib/key-certificates";
+import { resolveSigningTime, SigningTime } from "@/lib/timestamp";
+
+export const BUNDLE_FORMAT = "isv-sigbundle";
+export const BUNDLE_VERSION = 1;
+
+export interface SignatureBundleSigner {
+  // Base64 encoded SPKI identity public key
+  publicKey: string;
+  fingerprint: string;
+  algorithm: SigningAlgorithm;
+  notAfter: string | null;
+}
+
+export interface SignatureBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  sha256: string;
+  signedAt: string;
+  // Null for images signed before manifests, whose signature covers only the file hash
+  manifest: ImageManifest | null;
+  signature: string;
+  signatureAlgorithm: SigningAlgorithm;
+  signer: SignatureBundleSigner;
+  certificateChain: CertificateChain | null;
+  // Base64 RFC 3161 timestamp token over the signature, when the image has one
+  timestamp?: string;
+}
+
+export type BundleVerificationResult =
+  | {
+      valid: true;
+      fingerprint: string;
+      algorithm: SigningAlgorithm;
+      signedAt: string;
+      // The signing time established by the bundle's timestamp, if it has one
+      signingTime: SigningTime;
+      manifest: ImageManifest | null;
+      leaf: SubkeyCertificate | null;
+      signedAfterExpiry: boolean;
+    }
+  // imageModified is set when the signature may be fine but the image is not the one signed
+  | { valid: false; reason: string; fingerprint?: string; imageModified?: boolean };
+
+/**
+ * Gets the file name a bundle is downloaded as, e.g. "photo.jpg.sigbundle.json"
+ */
+export function signatureBundleFileName(imageFileName: string): string {
+  return `${imageFileName}.sigbundle.json`;
+}
+
+/**
+ * Parses a bundle file and checks that it has the expected shape
+ * @param text - The contents of a .sigbundle.json file
+ * @returns The parsed bundle
+ */
+export function parseSignatureBundle(text: string): SignatureBundle {
+  let bundle: SignatureBundle;
+
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error("The proof file is not valid JSON");
+  }
+
+  if (bundle?.format !== BUNDLE_FORMAT) {
+    throw new Error("Not a signature bundle");
+  }
+
+  if (bundle.version !== BUNDLE_VERSION) {
+    throw new Error(`Unsupported signature bundle version ${bundle.version}`);
+  }
+
+  if (
+    typeof bundle.sha256 !== "string" ||
+    typeof bundle.signedAt !== "string" ||
+    typeof bundle.signature !== "string" ||
+    typeof bundle.signer?.publicKey !== "string" ||
+    typeof bundle.signer.fingerprint !== "string" ||
+    !isSigningAlgorithm(bundle.signatureAlgorithm) ||
+    !isSigningAlgorithm(bundle.signer.algorithm) ||
+    (bundle.timestamp !== undefined && typeof bundle.timestamp !== "string")
+  ) {
+    throw new Error("The signature bundle is incomplete");
+  }
+
+  return bundle;
+}
+
+/**
+ * Verifies an image against a signature bundle, offline
+ * Only the image's hash is needed, so a verifier holding just the hash can check it too
+ * @param fileHash - SHA-256 of the image content
+ * @param bundle - The parsed bundle
+ * @param trustedAuthorities - Key fingerprints of the timestamp authorities whose timestamps to trust
+ * @returns Promise with the signer's fingerprint and what was signed, or why verification failed
+ */
+export async function verifySignatureBundle(
+  fileHash: string,
+  bundle: SignatureBundle,
+  trustedAuthorities: string[] = []
+): Promise<BundleVerificationResult> {
+  const fingerprint = await calculateKeyFingerprint(bundle.signer.publicKey);
+
+  if (fingerprint !== bundle.signer.fingerprint) {
+    return { valid: false, reason: "The bundle's public key does not match its fingerprint" };
+  }
+
+  if (bundle.manifest && bundle.manifest.sha256 !== bundle.sha256) {
+    return { valid: false, reason: "The bundle's manifest is for a different image than the bundle", fingerprint };
+  }
+
+  if (fileHash !== bundle.sha256) {
+    return {
+      valid: false,
+      reason: "The image does not match the bundle: it was modified, or the bundle belongs to a different image",
+      fingerprint,
+      imageModified: true,
+    };
+  }
+
+  // The manifest's signing time is covered by the signature; images signed before manifests only have the upload time
+  const signedAt = bundle.manifest?.signedAt ?? bundle.signedAt;
+
+  let envelope: SignatureEnvelope | null;
+  try {
+    envelope = parseSignatureEnvelope(bundle.signature);
+  } catch (error) {
+    return { valid: false, reason: error instanceof Error ? error.message : String(error), fingerprint };
+  }
+
+  // Images signed with a device sub-key must chain back to the identity key in the bundle.
+  // An envelope's header is what the signature itself says it was made with
+  const signingKey = await resolveImageSigningKey(
+    {
+      signatureAlgorithm: envelope?.header.alg ?? bundle.signatureAlgorithm,
+      certificateChain: bundle.certificateChain,
+      createdAt: signedAt,
+    },
+    bundle.signer.publicKey
+  );
+
+  if (!signingKey.valid) {
+    return { valid: false, reason: signingKey.reason, fingerprint };
+  }
+
+  if (envelope && envelope.header.kid !== (signingKey.leaf?.subjectFingerprint ?? fingerprint)) {
+    return { valid: false, reason: "The signature was made with a different key than the bundle names", fingerprint };
+  }
+
+  const isValid = bundle.manifest
+    ? await verifyStoredSignature(canonicalizeJson(bundle.manifest), bundle.signature, signingKey.signingKey)
+    : await verifyFileHashSignature(fileHash, bundle.signature, signingKey.signingKey);
+
+  if (!isValid) {
+    return { valid: false, reason: "The signature in the bundle is invalid", fingerprint };
+  }
+
+  // A trusted timestamp takes the place of the claimed signing time for the expiry check
+  const signingTime = await resolveSigningTime(bundle.signature, bundle.timestamp, signedAt, trustedAuthorities);
+
+  return {
+    valid: true,
+    fingerprint,
+    algorithm: bundle.signer.algorithm,
+    signedAt,
+    signingTime,
+    manifest: bundle.manifest,
+    leaf: signingKey.leaf,
+    signedAfterExpiry: !!bundle.signer.notAfter
+      && new Date(signingTime.signedAt).getTime() > new Date(bundle.signer.notAfter).getTime(),
+  };
+}
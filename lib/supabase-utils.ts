@@ -1,5 +1,6 @@
 import { supabase } from "./supabase";
 import { User } from "@supabase/supabase-js";
+import { DEFAULT_SIGNING_ALGORITHM, SigningAlgorithm } from "./crypto-utils";
 
 interface ImageUploadParams {
   userId: string;
@@ -18,6 +19,10 @@ interface ImageMetadata {
   hash: string;
   createdAt: string;
   userId: string;
+  keyId?: string | null;
+  signatureAlgorithm?: SigningAlgorithm;
+  // Whether anyone may verify the image, without signing in
+  isPublic?: boolean;
   ownerEmail?: string;
   filePath?: string;
 }
@@ -283,6 +288,9 @@ export async function getUserImages(userId: string): Promise<ImageMetadata[]> {
       hash: image.hash,
       createdAt: image.created_at,
       userId: image.user_id,
+      keyId: image.key_id ?? null,
+      signatureAlgorithm: image.signature_algorithm ?? DEFAULT_SIGNING_ALGORITHM,
+      isPublic: image.is_public ?? false,
       filePath: correctFilePath
     };
   });
@@ -393,6 +401,8 @@ export async function getCurrentUser(): Promise<User | null> {
 
 /**
  * Deletes an image from storage and database
+ * The database keeps a record of the deletion with the image's manifest, so
+ * the image stays accounted for in its owner's manifest chain
  * @param imageId - The ID of the image to delete
  * @param userId - The ID of the user who owns the image
  * @returns Promise with the result of the operation
@@ -0,0 +1,133 @@
+/**
+ * Server-side access to the timestamp authority
+ * Signatures are timestamped by the TSA at TSA_URL when it is set, and by the
+ * built-in local TSA otherwise. The local TSA signs with TSA_PRIVATE_KEY (a
+ * PKCS#8 PEM key), which is required outside development: a key generated
+ * for each server process would leave earlier tokens untrusted after a
+ * restart. Further TSAs are trusted by listing their key fingerprints,
+ * comma separated, in TSA_TRUSTED_FINGERPRINTS
+ */
+
+import {
+  base64ToBytes,
+  calculateKeyFingerprint,
+  exportPublicKeyFromPrivateKey,
+  getCrypto,
+  importPrivateKeyPem,
+} from "@/lib/crypto-utils";
+import {
+  createTimestampRequest,
+  issueTimestampResponse,
+  readTimestampResponse,
+  TimestampAuthority,
+} from "@/lib/timestamp";
+import { issueCertificate } from "@/lib/x509";
+
+// The local TSA's policy, an OID derived from a UUID (ITU-T X.667)
+export const LOCAL_TSA_POLICY = "2.25.167576547468161403813308993878439803268";
+
+const LOCAL_TSA_NAME = { commonName: "Local TSA", organization: "Image Security Verification" };
+const LOCAL_TSA_VALIDITY_MS = 10 * 365 * 24 * 60 * 60 * 1000;
+const TSA_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+let localAuthority: Promise<TimestampAuthority> | null = null;
+
+/**
+ * Whether the local TSA can issue tokens: always in development, and
+ * elsewhere only with a configured key
+ */
+function hasLocalTimestampAuthority(): boolean {
+  return Boolean(process.env.TSA_PRIVATE_KEY) || process.env.NODE_ENV === "development";
+}
+
+async function createLocalAuthority(): Promise<TimestampAuthority> {
+  if (!hasLocalTimestampAuthority()) {
+    throw new Error("TSA_PRIVATE_KEY must be set, or TSA_URL pointed at an external timestamp authority");
+  }
+
+  const privateKey = process.env.TSA_PRIVATE_KEY
+    ? await importPrivateKeyPem(process.env.TSA_PRIVATE_KEY.replace(/\\n/g, "\n"))
+    : (await getCrypto().subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, ["sign", "verify"])).privateKey;
+
+  const publicKeyInfo = base64ToBytes(await exportPublicKeyFromPrivateKey(privateKey));
+  const now = Date.now();
+
+  const certificate = await issueCertificate({
+    subjectPublicKeyInfo: publicKeyInfo,
+    subject: LOCAL_TSA_NAME,
+    issuer: LOCAL_TSA_NAME,
+    issuerPublicKeyInfo: publicKeyInfo,
+    issuerPrivateKey: privateKey,
+    notBefore: new Date(now - 60 * 1000),
+    notAfter: new Date(now + LOCAL_TSA_VALIDITY_MS),
+    isCa: false,
+    timestamping: true,
+  });
+
+  return { privateKey, certificate, policy: LOCAL_TSA_POLICY };
+}
+
+/**
+ * Gets the built-in timestamp authority, creating it on first use
+ * @returns Promise with the local TSA's key, certificate and policy
+ */
+export function getLocalTimestampAuthority(): Promise<TimestampAuthority> {
+  if (!localAuthority) {
+    localAuthority = createLocalAuthority().catch(error => {
+      localAuthority = null;
+      throw error;
+    });
+  }
+  return localAuthority;
+}
+
+/**
+ * Sends a TimeStampReq to the TSA at url
+ */
+async function postTimestampRequest(url: string, request: Uint8Array): Promise<Uint8Array> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/timestamp-query" },
+    body: request,
+    signal: AbortSignal.timeout(TSA_REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`The timestamp authority responded with HTTP ${response.status}`);
+  }
+
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Has data timestamped by the configured TSA
+ * @param data - The data to timestamp, normally a signature value
+ * @returns Promise with the DER encoded timestamp token
+ */
+export async function requestTimestamp(data: Uint8Array): Promise<Uint8Array> {
+  const request = await createTimestampRequest(data);
+
+  const response = process.env.TSA_URL
+    ? await postTimestampRequest(process.env.TSA_URL, request.der)
+    : await issueTimestampResponse(request.der, await getLocalTimestampAuthority());
+
+  return readTimestampResponse(response, request);
+}
+
+/**
+ * Gets the key fingerprints of the timestamp authorities whose tokens are trusted
+ * @returns Promise with the local TSA's fingerprint, when it has a key, and those configured in TSA_TRUSTED_FINGERPRINTS
+ */
+export async function getTrustedTimestampAuthorities(): Promise<string[]> {
+  const configured = (process.env.TSA_TRUSTED_FINGERPRINTS ?? "")
+    .split(",")
+    .map(fingerprint => fingerprint.trim().replace(/:/g, "").toLowerCase())
+    .filter(Boolean);
+
+  if (!hasLocalTimestampAuthority()) {
+    return configured;
+  }
+
+  const { privateKey } = await getLocalTimestampAuthority();
+  return [await calculateKeyFingerprint(await exportPublicKeyFromPrivateKey(privateKey)), ...configured];
+}
@@ -0,0 +1,600 @@
+/**
+ * RFC 3161 trusted timestamps
+ * A timestamp authority (TSA) countersigns the hash of an image's signature
+ * with the time it saw it, so the signing time no longer rests on a database
+ * column anyone with access could edit. This module builds TimeStampReq
+ * messages, reads TimeStampResp messages, validates timestamp tokens (CMS
+ * SignedData over a TSTInfo) and issues tokens for a local TSA. Whether a
+ * TSA is trusted is decided by the caller, from its key fingerprint
+ */
+
+import {
+  ASN1_TAG,
+  Asn1Node,
+  decodeInteger,
+  decodeOid,
+  encodeDer,
+  encodeInteger,
+  encodeNode,
+  encodeOctetString,
+  encodeOid,
+  encodeSequence,
+  parseDer,
+} from "@/lib/asn1";
+import {
+  base64ToBytes,
+  bytesToBase64,
+  calculateKeyFingerprint,
+  getCrypto,
+  getKeyAlgorithm,
+  parseSignatureEnvelope,
+} from "@/lib/crypto-utils";
+import { Certificate, createX509Signature, parseCertificate, verifyX509Signature } from "@/lib/x509";
+
+const OID = {
+  SHA1: "1.3.14.3.2.26",
+  SHA256: "2.16.840.1.101.3.4.2.1",
+  SHA384: "2.16.840.1.101.3.4.2.2",
+  SHA512: "2.16.840.1.101.3.4.2.3",
+  SIGNED_DATA: "1.2.840.113549.1.7.2",
+  TST_INFO: "1.2.840.113549.1.9.16.1.4",
+  CONTENT_TYPE: "1.2.840.113549.1.9.3",
+  MESSAGE_DIGEST: "1.2.840.113549.1.9.4",
+  SIGNING_CERTIFICATE: "1.2.840.113549.1.9.16.2.12",
+  SIGNING_CERTIFICATE_V2: "1.2.840.113549.1.9.16.2.47",
+  TIME_STAMPING: "1.3.6.1.5.5.7.3.8",
+} as const;
+
+const HASH_ALGORITHMS: Record<string, { name: string; length: number }> = {
+  [OID.SHA1]: { name: "SHA-1", length: 20 },
+  [OID.SHA256]: { name: "SHA-256", length: 32 },
+  [OID.SHA384]: { name: "SHA-384", length: 48 },
+  [OID.SHA512]: { name: "SHA-512", length: 64 },
+};
+
+// PKIStatus values and PKIFailureInfo bits
+const STATUS = { GRANTED: 0, GRANTED_WITH_MODS: 1, REJECTION: 2 } as const;
+const FAILURE = { BAD_ALG: 0, BAD_REQUEST: 2, BAD_DATA_FORMAT: 5, UNACCEPTED_POLICY: 15, UNACCEPTED_EXTENSION: 16 } as const;
+
+export interface TimestampRequest {
+  // DER encoded TimeStampReq
+  der: Uint8Array;
+  hashedMessage: Uint8Array;
+  nonce: Uint8Array;
+}
+
+export interface TimestampAuthority {
+  privateKey: CryptoKey;
+  // DER encoded certificate for privateKey, with the timeStamping key purpose
+  certificate: Uint8Array;
+  // The OID of the policy tokens are issued under
+  policy: string;
+}
+
+export interface TimestampInfo {
+  // The trusted signing time
+  genTime: string;
+  serialNumber: string;
+  policy: string;
+  tsaName: string | null;
+  // Fingerprint of the TSA's public key, see calculateKeyFingerprint
+  tsaFingerprint: string;
+}
+
+export type TimestampVerificationResult =
+  | { valid: true; timestamp: TimestampInfo }
+  | { valid: false; reason: string };
+
+interface ParsedToken {
+  tstInfo: Uint8Array;
+  hashAlgorithm: string;
+  hashedMessage: Uint8Array;
+  serialNumber: string;
+  policy: string;
+  genTime: string;
+  nonce: Uint8Array | null;
+  certificates: Certificate[];
+  signerId: Asn1Node;
+  digestAlgorithm: string;
+  signedAttributes: Asn1Node | null;
+  signatureAlgorithm: Asn1Node;
+  signature: Uint8Array;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+async function digest(algorithm: string, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await getCrypto().subtle.digest(algorithm, data));
+}
+
+function hashAlgorithmName(node: Asn1Node): string {
+  const hash = HASH_ALGORITHMS[decodeOid(node.children[0])];
+  if (!hash) {
+    throw new Error("Unsupported hash algorithm");
+  }
+  return hash.name;
+}
+
+/**
+ * Concatenates the elements of a SET OF in the order DER requires
+ */
+function sortSetElements(elements: Uint8Array[]): Uint8Array {
+  const sorted = [...elements].sort((a, b) => {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return a.length - b.length;
+  });
+
+  const content = new Uint8Array(sorted.reduce((total, element) => total + element.length, 0));
+  let offset = 0;
+  for (const element of sorted) {
+    content.set(element, offset);
+    offset += element.length;
+  }
+  return content;
+}
+
+function encodeAttribute(oid: string, value: Uint8Array): Uint8Array {
+  return encodeSequence(encodeOid(oid), encodeDer(ASN1_TAG.SET, value));
+}
+
+/**
+ * Encodes a GeneralizedTime with millisecond precision, as DER requires it:
+ * UTC, and no trailing zeros in the fraction
+ */
+function encodeGeneralizedTime(date: Date): Uint8Array {
+  const iso = date.toISOString();
+  const fraction = iso.slice(20, 23).replace(/0+$/, "");
+  const text = `${iso.slice(0, 19).replace(/[-:T]/g, "")}${fraction ? `.${fraction}` : ""}Z`;
+  return encodeDer(ASN1_TAG.GENERALIZED_TIME, new TextEncoder().encode(text));
+}
+
+function decodeGeneralizedTime(node: Asn1Node): string {
+  const text = new TextDecoder().decode(node.value);
+  const match = text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(?:\.(\d+))?Z$/);
+
+  if (node.tag !== ASN1_TAG.GENERALIZED_TIME || !match) {
+    throw new Error("Invalid timestamp token: unreadable time");
+  }
+
+  const [, year, month, day, hour, minute, second, fraction = "0"] = match;
+  const milliseconds = Math.round(Number(`0.${fraction}`) * 1000);
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second, milliseconds)).toISOString();
+}
+
+/**
+ * Gets the bytes a signature's timestamp covers: the signature value itself,
+ * without the envelope around it
+ * @param signature - The stored signature, an envelope or a bare base64 signature
+ * @returns The signature value
+ */
+export function getTimestampedData(signature: string): Uint8Array {
+  return parseSignatureEnvelope(signature)?.signature ?? base64ToBytes(signature);
+}
+
+/**
+ * Builds a TimeStampReq for data, asking for the TSA's certificate to be included
+ * @param data - The data to timestamp; only its SHA-256 hash is sent
+ * @returns Promise with the request and the values the response must echo
+ */
+export async function createTimestampRequest(data: Uint8Array): Promise<TimestampRequest> {
+  const hashedMessage = await digest("SHA-256", data);
+
+  // A positive 64-bit nonce ties the response to this request
+  const nonce = getCrypto().getRandomValues(new Uint8Array(8));
+  nonce[0] = (nonce[0] & 0x7f) | 0x01;
+
+  const der = encodeSequence(
+    encodeInteger(1),
+    encodeSequence(encodeSequence(encodeOid(OID.SHA256)), encodeOctetString(hashedMessage)),
+    encodeInteger(nonce),
+    encodeDer(ASN1_TAG.BOOLEAN, new Uint8Array([0xff]))
+  );
+
+  return { der, hashedMessage, nonce };
+}
+
+function rejectionResponse(failure: number, text: string): Uint8Array {
+  // PKIFailureInfo is a named BIT STRING: bit 0 is the high bit of the first byte
+  const bits = new Uint8Array(Math.floor(failure / 8) + 1);
+  bits[Math.floor(failure / 8)] = 0x80 >> (failure % 8);
+  const unusedBits = 7 - (failure % 8);
+
+  return encodeSequence(encodeSequence(
+    encodeInteger(STATUS.REJECTION),
+    encodeSequence(encodeDer(ASN1_TAG.UTF8_STRING, new TextEncoder().encode(text))),
+    encodeDer(ASN1_TAG.BIT_STRING, new Uint8Array([unusedBits, ...bits]))
+  ));
+}
+
+/**
+ * Answers a TimeStampReq as a timestamp authority
+ * Requests the TSA can't serve get a rejection response rather than an error,
+ * as RFC 3161 requires
+ * @param request - The DER encoded TimeStampReq
+ * @param tsa - The TSA's key, certificate and policy
+ * @param genTime - The time to certify
+ * @returns Promise with the DER encoded TimeStampResp
+ */
+export async function issueTimestampResponse(
+  request: Uint8Array,
+  tsa: TimestampAuthority,
+  genTime: Date = new Date()
+): Promise<Uint8Array> {
+  let fields: Asn1Node[];
+  try {
+    fields = parseDer(request).children;
+  } catch {
+    return rejectionResponse(FAILURE.BAD_DATA_FORMAT, "The request is not valid DER");
+  }
+
+  const [version, messageImprint, ...optional] = fields;
+
+  if (!version || decodeInteger(version) !== 1 || messageImprint?.tag !== ASN1_TAG.SEQUENCE) {
+    return rejectionResponse(FAILURE.BAD_REQUEST, "Unsupported TimeStampReq");
+  }
+
+  const hash = HASH_ALGORITHMS[decodeOid(messageImprint.children[0].children[0])];
+  if (!hash || hash.name === "SHA-1" || messageImprint.children[1]?.value.length !== hash.length) {
+    return rejectionResponse(FAILURE.BAD_ALG, "Only SHA-256, SHA-384 and SHA-512 message imprints are accepted");
+  }
+
+  const policy = optional.find(field => field.tag === ASN1_TAG.OBJECT_IDENTIFIER);
+  if (policy && decodeOid(policy) !== tsa.policy) {
+    return rejectionResponse(FAILURE.UNACCEPTED_POLICY, `Only policy ${tsa.policy} is supported`);
+  }
+
+  if (optional.some(field => field.tag === 0xa0)) {
+    return rejectionResponse(FAILURE.UNACCEPTED_EXTENSION, "Request extensions are not supported");
+  }
+
+  const nonce = optional.find(field => field.tag === ASN1_TAG.INTEGER);
+  const certReq = optional.find(field => field.tag === ASN1_TAG.BOOLEAN);
+
+  const serialNumber = getCrypto().getRandomValues(new Uint8Array(16));
+  serialNumber[0] = (serialNumber[0] & 0x7f) | 0x01;
+
+  const tstInfo = encodeSequence(
+    encodeInteger(1),
+    encodeOid(tsa.policy),
+    encodeNode(messageImprint),
+    encodeInteger(serialNumber),
+    encodeGeneralizedTime(genTime),
+    ...(nonce ? [encodeNode(nonce)] : [])
+  );
+
+  const certificate = parseCertificate(tsa.certificate);
+  // Ed25519 signatures in CMS go with SHA-512 digests (RFC 8419)
+  const digestOid = getKeyAlgorithm(tsa.privateKey) === "Ed25519" ? OID.SHA512 : OID.SHA256;
+  const digestAlgorithm = encodeSequence(encodeOid(digestOid));
+
+  const signedAttributes = sortSetElements([
+    encodeAttribute(OID.CONTENT_TYPE, encodeOid(OID.TST_INFO)),
+    encodeAttribute(OID.MESSAGE_DIGEST, encodeOctetString(await digest(HASH_ALGORITHMS[digestOid].name, tstInfo))),
+    // ESSCertIDv2 with the default SHA-256 hash algorithm left out
+    encodeAttribute(OID.SIGNING_CERTIFICATE_V2, encodeSequence(encodeSequence(encodeSequence(
+      encodeOctetString(await digest("SHA-256", tsa.certificate))
+    )))),
+  ]);
+  // Signed over with the SET tag, stored with the implicit [0] tag
+  const { algorithm, signature } = await createX509Signature(tsa.privateKey, encodeDer(ASN1_TAG.SET, signedAttributes));
+
+  const signerInfo = encodeSequence(
+    encodeInteger(1),
+    encodeSequence(certificate.issuerName, encodeDer(ASN1_TAG.INTEGER, serialNumberBytes(certificate))),
+    digestAlgorithm,
+    encodeDer(0xa0, signedAttributes),
+    algorithm,
+    encodeOctetString(signature)
+  );
+
+  const includeCertificate = certReq && certReq.value[0] !== 0;
+  const signedData = encodeSequence(
+    encodeInteger(3),
+    encodeDer(ASN1_TAG.SET, digestAlgorithm),
+    encodeSequence(encodeOid(OID.TST_INFO), encodeDer(0xa0, encodeOctetString(tstInfo))),
+    ...(includeCertificate ? [encodeDer(0xa0, tsa.certificate)] : []),
+    encodeDer(ASN1_TAG.SET, signerInfo)
+  );
+
+  return encodeSequence(
+    encodeSequence(encodeInteger(STATUS.GRANTED)),
+    encodeSequence(encodeOid(OID.SIGNED_DATA), encodeDer(0xa0, signedData))
+  );
+}
+
+function serialNumberBytes(certificate: Certificate): Uint8Array {
+  return new Uint8Array((certificate.serialNumber.match(/../g) ?? []).map(byte => parseInt(byte, 16)));
+}
+
+function parseTimestampToken(token: Uint8Array): ParsedToken {
+  const contentInfo = parseDer(token);
+  const [contentType, content] = contentInfo.children;
+
+  if (!contentType || decodeOid(contentType) !== OID.SIGNED_DATA || content?.tag !== 0xa0) {
+    throw new Error("Invalid timestamp token: not CMS signed data");
+  }
+
+  const signedData = content.children[0];
+  const [, , encapContentInfo] = signedData.children;
+  const signerInfos = signedData.children[signedData.children.length - 1];
+
+  if (!encapContentInfo || decodeOid(encapContentInfo.children[0]) !== OID.TST_INFO) {
+    throw new Error("Invalid timestamp token: it does not hold a TSTInfo");
+  }
+
+  const tstInfoNode = encapContentInfo.children[1]?.children[0];
+  if (tstInfoNode?.tag !== ASN1_TAG.OCTET_STRING) {
+    throw new Error("Invalid timestamp token: unreadable TSTInfo");
+  }
+
+  const tstInfo = tstInfoNode.value;
+  const [version, policy, messageImprint, serialNumber, genTime, ...optional] = parseDer(tstInfo).children;
+
+  if (!version || decodeInteger(version) !== 1 || !policy || !messageImprint || !serialNumber || !genTime) {
+    throw new Error("Invalid timestamp token: incomplete TSTInfo");
+  }
+
+  const hashAlgorithm = HASH_ALGORITHMS[decodeOid(messageImprint.children[0].children[0])]?.name;
+  if (!hashAlgorithm) {
+    throw new Error("Invalid timestamp token: unsupported message imprint hash");
+  }
+
+  const certificateSet = signedData.children.slice(3, -1).find(child => child.tag === 0xa0);
+  const signerInfo = signerInfos?.tag === ASN1_TAG.SET ? signerInfos.children[0] : undefined;
+
+  if (!signerInfo) {
+    throw new Error("Invalid timestamp token: no signer");
+  }
+
+  // SignerInfo: version, sid, digestAlgorithm, [0] signedAttrs, signatureAlgorithm, signature, [1] unsignedAttrs
+  const [, signerId, digestAlgorithm, ...rest] = signerInfo.children;
+  const signedAttributes = rest[0]?.tag === 0xa0 ? rest.shift()! : null;
+  const [signatureAlgorithm, signature] = rest;
+
+  if (!signerId || !digestAlgorithm || !signatureAlgorithm || signature?.tag !== ASN1_TAG.OCTET_STRING) {
+    throw new Error("Invalid timestamp token: incomplete signer information");
+  }
+
+  return {
+    tstInfo,
+    hashAlgorithm,
+    hashedMessage: messageImprint.children[1].value,
+    serialNumber: bytesToHex(serialNumber.value),
+    policy: decodeOid(policy),
+    genTime: decodeGeneralizedTime(genTime),
+    nonce: optional.find(field => field.tag === ASN1_TAG.INTEGER)?.value ?? null,
+    certificates: (certificateSet?.children ?? [])
+      .filter(child => child.tag === ASN1_TAG.SEQUENCE)
+      .map(child => parseCertificate(encodeNode(child))),
+    signerId,
+    digestAlgorithm: hashAlgorithmName(digestAlgorithm),
+    signedAttributes,
+    signatureAlgorithm,
+    signature: signature.value,
+  };
+}
+
+/**
+ * Finds the certificate a token's signer identifier points at
+ */
+function findSignerCertificate(token: ParsedToken): Certificate | undefined {
+  // IssuerAndSerialNumber; a subject key identifier is resolved by the signature check alone
+  if (token.signerId.tag === ASN1_TAG.SEQUENCE) {
+    const [issuer, serialNumber] = token.signerId.children;
+    return token.certificates.find(certificate =>
+      certificate.serialNumber === bytesToHex(serialNumber.value) && bytesEqual(certificate.issuerName, encodeNode(issuer))
+    );
+  }
+
+  return token.certificates.length === 1 ? token.certificates[0] : undefined;
+}
+
+/**
+ * Checks the ESS signing certificate attribute, which binds the signature to
+ * the TSA's certificate
+ */
+async function signingCertificateMatches(attributes: Asn1Node[], certificate: Certificate): Promise<boolean> {
+  for (const attribute of attributes) {
+    const oid = decodeOid(attribute.children[0]);
+    const essCertId = attribute.children[1]?.children[0]?.children[0]?.children[0];
+
+    if (!essCertId) continue;
+
+    if (oid === OID.SIGNING_CERTIFICATE_V2) {
+      const hasAlgorithm = essCertId.children[0]?.tag === ASN1_TAG.SEQUENCE;
+      const hash = hasAlgorithm ? hashAlgorithmName(essCertId.children[0]) : "SHA-256";
+      const certHash = essCertId.children[hasAlgorithm ? 1 : 0];
+      return bytesEqual(certHash.value, await digest(hash, certificate.der));
+    }
+
+    if (oid === OID.SIGNING_CERTIFICATE) {
+      return bytesEqual(essCertId.children[0].value, await digest("SHA-1", certificate.der));
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Reads the token out of a TimeStampResp and checks that it answers the request
+ * @param response - The DER encoded TimeStampResp
+ * @param request - The request it answers
+ * @returns The DER encoded timestamp token
+ */
+export function readTimestampResponse(response: Uint8Array, request: TimestampRequest): Uint8Array {
+  const [statusInfo, token] = parseDer(response).children;
+  const status = statusInfo ? decodeInteger(statusInfo.children[0]) : STATUS.REJECTION;
+
+  if (status !== STATUS.GRANTED && status !== STATUS.GRANTED_WITH_MODS) {
+    const text = statusInfo?.children[1]?.children.map(node => new TextDecoder().decode(node.value)).join("; ");
+    throw new Error(`The timestamp authority rejected the request${text ? `: ${text}` : ""}`);
+  }
+
+  if (!token) {
+    throw new Error("The timestamp authority granted the request but sent no token");
+  }
+
+  const tokenDer = encodeNode(token);
+  const parsed = parseTimestampToken(tokenDer);
+
+  if (!bytesEqual(parsed.hashedMessage, request.hashedMessage)) {
+    throw new Error("The timestamp token is for different data");
+  }
+
+  // The nonce is positive with a non-zero first byte, so it is its own INTEGER encoding
+  if (!parsed.nonce || !bytesEqual(parsed.nonce, request.nonce)) {
+    throw new Error("The timestamp token does not echo the request's nonce");
+  }
+
+  return tokenDer;
+}
+
+/**
+ * Validates a timestamp token over data: the message imprint, the CMS
+ * signature and signed attributes, and the TSA certificate's purpose and
+ * validity at the certified time
+ * @param token - The DER encoded timestamp token
+ * @param data - The data the token should cover
+ * @returns Promise with the certified time and the TSA, or why the token is invalid
+ */
+export async function verifyTimestampToken(token: Uint8Array, data: Uint8Array): Promise<TimestampVerificationResult> {
+  let parsed: ParsedToken;
+  try {
+    parsed = parseTimestampToken(token);
+  } catch (error) {
+    return { valid: false, reason: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (!bytesEqual(parsed.hashedMessage, await digest(parsed.hashAlgorithm, data))) {
+    return { valid: false, reason: "The timestamp is for a different signature" };
+  }
+
+  const certificate = findSignerCertificate(parsed);
+  if (!certificate) {
+    return { valid: false, reason: "The timestamp token does not include the TSA's certificate" };
+  }
+
+  if (!parsed.signedAttributes) {
+    return { valid: false, reason: "The timestamp token has no signed attributes" };
+  }
+
+  const attributes = parsed.signedAttributes.children;
+  const attributeValue = (oid: string) =>
+    attributes.find(attribute => decodeOid(attribute.children[0]) === oid)?.children[1]?.children[0];
+
+  const contentType = attributeValue(OID.CONTENT_TYPE);
+  const messageDigest = attributeValue(OID.MESSAGE_DIGEST);
+
+  if (!contentType || decodeOid(contentType) !== OID.TST_INFO) {
+    return { valid: false, reason: "The timestamp token's content type is not signed" };
+  }
+
+  if (!messageDigest || !bytesEqual(messageDigest.value, await digest(parsed.digestAlgorithm, parsed.tstInfo))) {
+    return { valid: false, reason: "The timestamp token's contents do not match its signature" };
+  }
+
+  if (!await signingCertificateMatches(attributes, certificate)) {
+    return { valid: false, reason: "The timestamp token was not signed with the certificate it names" };
+  }
+
+  let signatureValid: boolean;
+  try {
+    // The signature covers the attributes with the SET tag instead of their implicit [0] tag
+    const signedBytes = encodeDer(ASN1_TAG.SET, parsed.signedAttributes.value);
+    signatureValid = await verifyX509Signature(certificate, parsed.signatureAlgorithm, parsed.signature, signedBytes, parsed.digestAlgorithm);
+  } catch (error) {
+    return { valid: false, reason: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (!signatureValid) {
+    return { valid: false, reason: "The timestamp token's signature is invalid" };
+  }
+
+  if (!certificate.extendedKeyUsage.includes(OID.TIME_STAMPING)) {
+    return { valid: false, reason: "The token was signed by a certificate that is not for timestamping" };
+  }
+
+  const genTime = new Date(parsed.genTime).getTime();
+  if (genTime < new Date(certificate.notBefore).getTime() || genTime > new Date(certificate.notAfter).getTime()) {
+    return { valid: false, reason: "The TSA's certificate was not valid at the certified time" };
+  }
+
+  return {
+    valid: true,
+    timestamp: {
+      genTime: parsed.genTime,
+      serialNumber: parsed.serialNumber,
+      policy: parsed.policy,
+      tsaName: [certificate.subject.commonName, certificate.subject.organization].filter(Boolean).join(", ") || null,
+      tsaFingerprint: await calculateKeyFingerprint(bytesToBase64(certificate.subjectPublicKeyInfo)),
+    },
+  };
+}
+
+/**
+ * Validates the timestamp stored with a signature
+ * @param signature - The stored signature
+ * @param token - The base64 timestamp token
+ * @returns Promise with the certified time and the TSA, or why the token is invalid
+ */
+export async function verifySignatureTimestamp(signature: string, token: string): Promise<TimestampVerificationResult> {
+  return verifyTimestampToken(base64ToBytes(token), getTimestampedData(signature));
+}
+
+export interface SigningTime {
+  // The time to judge the signing key's validity at: the timestamp's when it
+  // is valid and from a trusted TSA, the claimed time otherwise
+  signedAt: string;
+  timestamp: TimestampInfo | null;
+  trusted: boolean;
+  // Why a timestamp the signature has could not be used
+  problem: string | null;
+}
+
+/**
+ * Works out when a signature was made, preferring a trusted timestamp over
+ * the time the signer or the database claims
+ * @param signature - The stored signature
+ * @param token - The base64 timestamp token, or null when the signature has none
+ * @param claimedAt - The signing time recorded with the signature
+ * @param trustedAuthorities - Key fingerprints of the TSAs to trust
+ * @returns Promise with the signing time and the timestamp it came from
+ */
+export async function resolveSigningTime(
+  signature: string,
+  token: string | null | undefined,
+  claimedAt: string,
+  trustedAuthorities: string[]
+): Promise<SigningTime> {
+  if (!token) {
+    return { signedAt: claimedAt, timestamp: null, trusted: false, problem: null };
+  }
+
+  let result: TimestampVerificationResult;
+  try {
+    result = await verifySignatureTimestamp(signature, token);
+  } catch (error) {
+    result = { valid: false, reason: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (!result.valid) {
+    return { signedAt: claimedAt, timestamp: null, trusted: false, problem: result.reason };
+  }
+
+  const trusted = trustedAuthorities.includes(result.timestamp.tsaFingerprint);
+
+  return {
+    signedAt: trusted ? result.timestamp.genTime : claimedAt,
+    timestamp: result.timestamp,
+    trusted,
+    problem: trusted ? null : "The timestamp was issued by a TSA that is not trusted",
+  };
+}
@@ -0,0 +1,449 @@
+/**
+ * Server-side storage for the signature transparency log
+ * Leaves live in transparency_log, numbered densely from 0, with the entry
+ * and salt each commits to; only the leaf hashes are served publicly. The hashes of
+ * complete subtrees in transparency_log_nodes, so proofs read a node per
+ * level instead of every leaf, and signed tree heads in
+ * transparency_tree_heads. All three tables reject updates and deletes.
+ * Tree heads are signed with TRANSPARENCY_LOG_PRIVATE_KEY (a PKCS#8 PEM key),
+ * which must be set: the key's fingerprint is the log's identity, and
+ * verifiers pin it through NEXT_PUBLIC_TRANSPARENCY_LOG_ID
+ */
+
+import { createServiceRoleClient } from "@/lib/supabase/server";
+import {
+  calculateKeyFingerprint,
+  exportPublicKeyFromPrivateKey,
+  importPrivateKeyPem,
+} from "@/lib/crypto-utils";
+import {
+  computeRootHash,
+  createConsistencyProof,
+  createInclusionProof,
+  createLogEntrySalt,
+  hashChildNodes,
+  hashLogEntry,
+  LogEntry,
+  signTreeHead,
+  SignedTreeHead,
+  SubtreeHashSource,
+  TransparencyProof,
+} from "@/lib/transparency-log";
+
+type ServiceClient = ReturnType<typeof createServiceRoleClient>;
+
+// Postgres unique violation, raised when another append took the same leaf index
+const UNIQUE_VIOLATION = "23505";
+const MAX_APPEND_ATTEMPTS = 5;
+// Rows fetched per request; PostgREST caps responses at 1000 rows by default
+const PAGE_SIZE = 1000;
+// Subtrees of up to 2^NODE_BATCH_LEVEL leaves are hashed from their leaves in one pass
+const NODE_BATCH_LEVEL = 10;
+
+export interface LogKey {
+  privateKey: CryptoKey;
+  // Base64 SPKI
+  publicKey: string;
+  logId: string;
+}
+
+export interface LogLeaf {
+  leafIndex: number;
+  entry: LogEntry;
+  // Null for entries logged before salts
+  salt: string | null;
+  leafHash: string;
+}
+
+interface LogLeafRow {
+  leaf_index: number;
+  entry: LogEntry;
+  salt: string | null;
+  leaf_hash: string;
+}
+
+interface LogNodeRow {
+  level: number;
+  node_index: number;
+  hash: string;
+}
+
+interface TreeHeadRow {
+  tree_size: number;
+  root_hash: string;
+  published_at: string;
+  log_id: string;
+  signature: string;
+}
+
+let logKey: Promise<LogKey> | null = null;
+
+async function loadLogKey(): Promise<LogKey> {
+  if (!process.env.TRANSPARENCY_LOG_PRIVATE_KEY) {
+    throw new Error("TRANSPARENCY_LOG_PRIVATE_KEY must be set");
+  }
+
+  const privateKey = await importPrivateKeyPem(process.env.TRANSPARENCY_LOG_PRIVATE_KEY.replace(/\\n/g, "\n"));
+  const publicKey = await exportPublicKeyFromPrivateKey(privateKey);
+  return { privateKey, publicKey, logId: await calculateKeyFingerprint(publicKey) };
+}
+
+/**
+ * Gets the key the log signs tree heads with, loading it on first use
+ * @returns Promise with the private key, its public key and the log ID
+ */
+export function getLogKey(): Promise<LogKey> {
+  if (!logKey) {
+    logKey = loadLogKey().catch(error => {
+      logKey = null;
+      throw error;
+    });
+  }
+  return logKey;
+}
+
+function toTreeHead(row: TreeHeadRow): SignedTreeHead {
+  return {
+    treeSize: row.tree_size,
+    rootHash: row.root_hash,
+    timestamp: row.published_at,
+    logId: row.log_id,
+    signature: row.signature,
+  };
+}
+
+function toLogLeaf(row: LogLeafRow): LogLeaf {
+  return { leafIndex: row.leaf_index, entry: row.entry, salt: row.salt, leafHash: row.leaf_hash };
+}
+
+/**
+ * Gets the number of leaves in the log
+ */
+async function getTreeSize(serviceClient: ServiceClient): Promise<number> {
+  const { data, error } = await serviceClient
+    .from("transparency_log")
+    .select("leaf_index")
+    .order("leaf_index", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get the log size: ${error.message}`);
+  }
+
+  return data ? data.leaf_index + 1 : 0;
+}
+
+/**
+ * Appends an entry to the log
+ * Leaf indexes must have no gaps, so the next index is claimed by inserting
+ * it and retried if another append got there first
+ * @param serviceClient - Service role client
+ * @param entry - The entry to append
+ * @returns Promise with the appended leaf
+ */
+export async function appendLogEntry(serviceClient: ServiceClient, entry: LogEntry): Promise<LogLeaf> {
+  const salt = createLogEntrySalt();
+  const leafHash = await hashLogEntry(entry, salt);
+
+  for (let attempt = 0; attempt < MAX_APPEND_ATTEMPTS; attempt++) {
+    const leafIndex = await getTreeSize(serviceClient);
+
+    const { error } = await serviceClient
+      .from("transparency_log")
+      .insert({ leaf_index: leafIndex, image_id: entry.imageId, entry, salt, leaf_hash: leafHash });
+
+    if (!error) {
+      return { leafIndex, entry, salt, leafHash };
+    }
+
+    if (error.code !== UNIQUE_VIOLATION) {
+      throw new Error(`Failed to append to the transparency log: ${error.message}`);
+    }
+  }
+
+  throw new Error("Failed to append to the transparency log: too many concurrent appends");
+}
+
+/**
+ * Gets a range of log leaves
+ * @param serviceClient - Service role client
+ * @param start - The first leaf index
+ * @param end - The leaf index to stop before
+ * @returns Promise with the leaves, in log order
+ */
+export async function getLogLeaves(serviceClient: ServiceClient, start: number, end: number): Promise<LogLeaf[]> {
+  const leaves: LogLeaf[] = [];
+
+  for (let from = start; from < end; from += PAGE_SIZE) {
+    const { data, error } = await serviceClient
+      .from("transparency_log")
+      .select("leaf_index, entry, salt, leaf_hash")
+      .gte("leaf_index", from)
+      .lt("leaf_index", Math.min(from + PAGE_SIZE, end))
+      .order("leaf_index", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to read the transparency log: ${error.message}`);
+    }
+
+    leaves.push(...(data as LogLeafRow[]).map(toLogLeaf));
+  }
+
+  // A gap means rows were removed behind the log's back
+  leaves.forEach((leaf, i) => {
+    if (leaf.leafIndex !== start + i) {
+      throw new Error(`The transparency log is missing leaf ${start + i}`);
+    }
+  });
+
+  return leaves;
+}
+
+async function storeLogNodes(serviceClient: ServiceClient, rows: LogNodeRow[]): Promise<void> {
+  // Nodes depend only on the leaves below them, so one stored by a concurrent request is the same
+  const { error } = await serviceClient
+    .from("transparency_log_nodes")
+    .upsert(rows, { onConflict: "level,node_index", ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to store transparency log nodes: ${error.message}`);
+  }
+}
+
+async function findLogNode(serviceClient: ServiceClient, level: number, index: number): Promise<string | null> {
+  const { data, error } = level === 0
+    ? await serviceClient.from("transparency_log").select("hash:leaf_hash").eq("leaf_index", index).maybeSingle()
+    : await serviceClient.from("transparency_log_nodes").select("hash").eq("level", level).eq("node_index", index).maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to read the transparency log: ${error.message}`);
+  }
+
+  return data?.hash ?? null;
+}
+
+/**
+ * Hashes a complete subtree from its leaves, storing every node above them
+ */
+async function hashSubtreeFromLeaves(serviceClient: ServiceClient, level: number, index: number): Promise<string> {
+  const size = 2 ** level;
+  const leaves = await getLogLeaves(serviceClient, index * size, (index + 1) * size);
+
+  if (leaves.length !== size) {
+    throw new Error(`The transparency log has fewer than ${(index + 1) * size} leaves`);
+  }
+
+  let hashes = leaves.map(leaf => leaf.leafHash);
+  const rows: LogNodeRow[] = [];
+
+  for (let nodeLevel = 1; nodeLevel <= level; nodeLevel++) {
+    const parents: string[] = [];
+    for (let i = 0; i < hashes.length; i += 2) {
+      parents.push(await hashChildNodes(hashes[i], hashes[i + 1]));
+    }
+    hashes = parents;
+    rows.push(...hashes.map((hash, i) => ({ level: nodeLevel, node_index: index * 2 ** (level - nodeLevel) + i, hash })));
+  }
+
+  if (rows.length > 0) {
+    await storeLogNodes(serviceClient, rows);
+  }
+
+  return hashes[0];
+}
+
+/**
+ * Serves subtree hashes from the stored nodes, hashing and storing those not
+ * stored yet. Leaves never change, so neither do the nodes above them
+ * @param serviceClient - Service role client
+ * @returns The subtree hash source, caching what it reads
+ */
+function storedSubtreeHashes(serviceClient: ServiceClient): SubtreeHashSource {
+  const cache = new Map<string, string>();
+
+  const subtreeHash: SubtreeHashSource = async (level, index) => {
+    const key = `${level}:${index}`;
+    let hash = cache.get(key) ?? await findLogNode(serviceClient, level, index);
+
+    if (!hash && level <= NODE_BATCH_LEVEL) {
+      hash = await hashSubtreeFromLeaves(serviceClient, level, index);
+    } else if (!hash) {
+      hash = await hashChildNodes(await subtreeHash(level - 1, index * 2), await subtreeHash(level - 1, index * 2 + 1));
+      await storeLogNodes(serviceClient, [{ level, node_index: index, hash }]);
+    }
+
+    cache.set(key, hash);
+    return hash;
+  };
+
+  return subtreeHash;
+}
+
+/**
+ * Gets the most recently published tree head
+ * @param serviceClient - Service role client
+ * @returns Promise with the tree head, or null if none was published yet
+ */
+export async function getLatestTreeHead(serviceClient: ServiceClient): Promise<SignedTreeHead | null> {
+  const { data, error } = await serviceClient
+    .from("transparency_tree_heads")
+    .select("*")
+    .order("tree_size", { ascending: false })
+    .order("published_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get the latest tree head: ${error.message}`);
+  }
+
+  return data ? toTreeHead(data) : null;
+}
+
+/**
+ * Lists published tree heads, newest first
+ * @param serviceClient - Service role client
+ * @param limit - How many to return
+ * @returns Promise with the tree heads
+ */
+export async function listTreeHeads(serviceClient: ServiceClient, limit: number): Promise<SignedTreeHead[]> {
+  const { data, error } = await serviceClient
+    .from("transparency_tree_heads")
+    .select("*")
+    .order("tree_size", { ascending: false })
+    .order("published_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list tree heads: ${error.message}`);
+  }
+
+  return (data as TreeHeadRow[]).map(toTreeHead);
+}
+
+/**
+ * Signs and publishes a tree head for the log as it is now
+ * @param serviceClient - Service role client
+ * @returns Promise with the published tree head
+ */
+export async function publishTreeHead(serviceClient: ServiceClient): Promise<SignedTreeHead> {
+  const treeSize = await getTreeSize(serviceClient);
+  const { privateKey, logId } = await getLogKey();
+
+  const treeHead = await signTreeHead(
+    { treeSize, rootHash: await computeRootHash(treeSize, storedSubtreeHashes(serviceClient)), timestamp: new Date().toISOString() },
+    privateKey,
+    logId
+  );
+
+  const { error } = await serviceClient
+    .from("transparency_tree_heads")
+    .insert({
+      tree_size: treeHead.treeSize,
+      root_hash: treeHead.rootHash,
+      published_at: treeHead.timestamp,
+      log_id: treeHead.logId,
+      signature: treeHead.signature,
+    });
+
+  if (error) {
+    throw new Error(`Failed to publish the tree head: ${error.message}`);
+  }
+
+  return treeHead;
+}
+
+/**
+ * Gets the log leaf recorded for an image
+ * @param serviceClient - Service role client
+ * @param imageId - The image's ID
+ * @returns Promise with the leaf, or null for images uploaded before the log
+ */
+export async function findLogLeafByImageId(serviceClient: ServiceClient, imageId: string): Promise<LogLeaf | null> {
+  const { data, error } = await serviceClient
+    .from("transparency_log")
+    .select("leaf_index, entry, salt, leaf_hash")
+    .eq("image_id", imageId)
+    .order("leaf_index", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to find the image's log entry: ${error.message}`);
+  }
+
+  return data ? toLogLeaf(data) : null;
+}
+
+/**
+ * Builds the consistency proof between two tree sizes
+ * @param serviceClient - Service role client
+ * @param fromTreeSize - The earlier tree size
+ * @param toTreeSize - The later tree size
+ * @returns Promise with the hex encoded proof
+ */
+export async function getConsistencyProof(serviceClient: ServiceClient, fromTreeSize: number, toTreeSize: number): Promise<string[]> {
+  return createConsistencyProof(toTreeSize, fromTreeSize, storedSubtreeHashes(serviceClient));
+}
+
+/**
+ * Builds the inclusion proof for a leaf
+ * @param serviceClient - Service role client
+ * @param leafIndex - The leaf's index
+ * @param treeSize - The size of the tree to prove inclusion in
+ * @returns Promise with the hex encoded audit path
+ */
+export async function getInclusionProof(serviceClient: ServiceClient, leafIndex: number, treeSize: number): Promise<string[]> {
+  return createInclusionProof(treeSize, leafIndex, storedSubtreeHashes(serviceClient));
+}
+
+/**
+ * Builds everything needed to check that an image's signature is in the log,
+ * against the latest published tree head
+ * @param serviceClient - Service role client
+ * @param imageId - The image's ID
+ * @param seenTreeSize - The size of the tree head the verifier saw before, to prove consistency from
+ * @returns Promise with the proof, without a tree head while none covers the entry yet, or null for images uploaded before the log
+ */
+export async function getTransparencyProof(
+  serviceClient: ServiceClient,
+  imageId: string,
+  seenTreeSize?: number
+): Promise<TransparencyProof | null> {
+  const leaf = await findLogLeafByImageId(serviceClient, imageId);
+
+  if (!leaf) {
+    return null;
+  }
+
+  const [treeHead, { publicKey }] = await Promise.all([getLatestTreeHead(serviceClient), getLogKey()]);
+
+  // Tree heads are only published by the scheduled publisher, never on a read
+  if (!treeHead || treeHead.treeSize <= leaf.leafIndex) {
+    return {
+      entry: leaf.entry,
+      salt: leaf.salt,
+      leafIndex: leaf.leafIndex,
+      treeHead: null,
+      logPublicKey: publicKey,
+      inclusionProof: [],
+      consistencyProof: null,
+    };
+  }
+
+  const subtreeHash = storedSubtreeHashes(serviceClient);
+  const canProveConsistency = !!seenTreeSize && seenTreeSize >= 1 && seenTreeSize <= treeHead.treeSize;
+
+  return {
+    entry: leaf.entry,
+    salt: leaf.salt,
+    leafIndex: leaf.leafIndex,
+    treeHead,
+    logPublicKey: publicKey,
+    inclusionProof: await createInclusionProof(treeHead.treeSize, leaf.leafIndex, subtreeHash),
+    consistencyProof: canProveConsistency
+      ? { fromTreeSize: seenTreeSize, proof: await createConsistencyProof(treeHead.treeSize, seenTreeSize, subtreeHash) }
+      : null,
+  };
+}
@@ -0,0 +1,506 @@
+/**
+ * Signature transparency log
+ * Every signature is appended to an append-only Merkle tree, hashed as in
+ * Certificate Transparency (RFC 9162): leaves are salted commitments to
+ * entries, so the public tree reveals nothing about the images in it, and
+ * the log periodically signs a tree head committing to its size and root
+ * hash. An inclusion proof shows an entry is in a tree head; a consistency
+ * proof shows a later tree head extends an earlier one, so anyone who kept
+ * an old tree head can tell if entries were removed or rewritten since
+ */
+
+import {
+  calculateKeyFingerprint,
+  createSignatureEnvelope,
+  getCrypto,
+  importPublicKey,
+  parseSignatureEnvelope,
+  verifySignatureEnvelope,
+} from "@/lib/crypto-utils";
+import { canonicalizeJson } from "@/lib/image-manifest";
+
+// Where the browser keeps the last tree head it verified
+const SEEN_TREE_HEAD_STORAGE_KEY = "transparency-log-tree-head";
+
+export interface LogEntry {
+  imageId: string;
+  // SHA-256 of the image, hex encoded
+  sha256: string;
+  signature: string;
+  // Fingerprint of the key the signature was made with
+  keyFingerprint: string;
+  timestamp: string;
+}
+
+export interface TreeHead {
+  treeSize: number;
+  // Hex encoded Merkle tree hash
+  rootHash: string;
+  timestamp: string;
+}
+
+export interface SignedTreeHead extends TreeHead {
+  // Fingerprint of the log's signing key
+  logId: string;
+  // JWS over the canonical JSON of the tree head
+  signature: string;
+}
+
+export interface TransparencyProof {
+  entry: LogEntry;
+  // The salt the entry is committed to with; null for entries logged before salts,
+  // and left out for callers who may not open the commitment
+  salt?: string | null;
+  leafIndex: number;
+  // Null until a tree head covering the entry is published
+  treeHead: SignedTreeHead | null;
+  // Base64 SPKI public key the log signs tree heads with
+  logPublicKey: string;
+  // Hex encoded audit path from the leaf to the tree head's root
+  inclusionProof: string[];
+  // Proof that treeHead extends the tree of the size the verifier saw before, when it named one
+  consistencyProof: { fromTreeSize: number; proof: string[] } | null;
+}
+
+export type TransparencyVerificationResult =
+  | {
+      valid: true;
+      leafIndex: number;
+      treeHead: SignedTreeHead;
+      // Whether the log still extends the tree head the verifier saw before; null when there is none to compare
+      consistentWithSeen: boolean | null;
+    }
+  // Pending when the entry is logged but no tree head covering it was published yet
+  | { valid: false; reason: string; pending?: boolean };
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  return new Uint8Array((hex.match(/../g) ?? []).map(byte => parseInt(byte, 16)));
+}
+
+async function sha256(...parts: Uint8Array[]): Promise<Uint8Array> {
+  const data = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return new Uint8Array(await getCrypto().subtle.digest("SHA-256", data));
+}
+
+// Domain separation between leaves and interior nodes, so one can't pass for the other
+const LEAF_PREFIX = new Uint8Array([0x00]);
+const NODE_PREFIX = new Uint8Array([0x01]);
+
+function hashChildren(left: Uint8Array, right: Uint8Array): Promise<Uint8Array> {
+  return sha256(NODE_PREFIX, left, right);
+}
+
+/**
+ * Gets the largest power of two smaller than n, where the tree splits
+ */
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+function isOdd(n: number): boolean {
+  return n % 2 === 1;
+}
+
+/**
+ * Serializes a log entry as the bytes its leaf hashes: the SHA-256 of the
+ * entry with its salt, or for entries logged before salts, the entry itself
+ * @param entry - The entry
+ * @param salt - The hex encoded salt the entry was logged with, or null
+ * @returns Promise with the commitment, or the entry's canonical JSON, UTF-8 encoded
+ */
+export async function encodeLogEntry(entry: LogEntry, salt: string | null): Promise<Uint8Array> {
+  return salt
+    ? sha256(new TextEncoder().encode(canonicalizeJson({ entry, salt })))
+    : new TextEncoder().encode(canonicalizeJson(entry));
+}
+
+/**
+ * Hashes a log entry into its leaf hash
+ * @param entry - The entry
+ * @param salt - The hex encoded salt the entry was logged with, or null
+ * @returns Promise with the hex encoded leaf hash
+ */
+export async function hashLogEntry(entry: LogEntry, salt: string | null): Promise<string> {
+  return bytesToHex(await sha256(LEAF_PREFIX, await encodeLogEntry(entry, salt)));
+}
+
+/**
+ * Creates the salt an entry is committed to with, so its leaf can't be
+ * matched against guessed entries
+ * @returns The hex encoded salt
+ */
+export function createLogEntrySalt(): string {
+  return bytesToHex(getCrypto().getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Gets the hash of a complete subtree of the log: the one holding the
+ * 2^level leaves from leaf index * 2^level on, hex encoded. Level 0 is a leaf
+ */
+export type SubtreeHashSource = (level: number, index: number) => Promise<string>;
+
+/**
+ * Hashes two sibling nodes into their parent
+ * @param left - The hex encoded left node
+ * @param right - The hex encoded right node
+ * @returns Promise with the hex encoded parent node
+ */
+export async function hashChildNodes(left: string, right: string): Promise<string> {
+  return bytesToHex(await hashChildren(hexToBytes(left), hexToBytes(right)));
+}
+
+async function merkleTreeHash(leaves: Uint8Array[]): Promise<Uint8Array> {
+  if (leaves.length === 0) return sha256();
+  if (leaves.length === 1) return leaves[0];
+
+  const k = splitPoint(leaves.length);
+  return hashChildren(await merkleTreeHash(leaves.slice(0, k)), await merkleTreeHash(leaves.slice(k)));
+}
+
+/**
+ * Serves subtree hashes from a list of every leaf hash, hashing each subtree as it is asked for
+ * @param leafHashes - The hex encoded leaf hashes, in log order
+ * @returns The subtree hash source
+ */
+export function leafHashSource(leafHashes: string[]): SubtreeHashSource {
+  return async (level, index) => {
+    const size = 2 ** level;
+    if ((index + 1) * size > leafHashes.length) {
+      throw new Error(`The tree has fewer than ${(index + 1) * size} leaves`);
+    }
+    return bytesToHex(await merkleTreeHash(leafHashes.slice(index * size, (index + 1) * size).map(hexToBytes)));
+  };
+}
+
+/**
+ * Hashes the leaves from start to start + size
+ * Every range the tree splits into starts at a multiple of its size rounded
+ * up to a power of two, so a range of a power of two size is a complete subtree
+ */
+async function rangeHash(start: number, size: number, subtreeHash: SubtreeHashSource): Promise<Uint8Array> {
+  if (size === 0) return sha256();
+
+  const k = splitPoint(size);
+  if (k * 2 === size || size === 1) {
+    return hexToBytes(await subtreeHash(Math.log2(size), start / size));
+  }
+
+  return hashChildren(await rangeHash(start, k, subtreeHash), await rangeHash(start + k, size - k, subtreeHash));
+}
+
+async function auditPath(index: number, start: number, size: number, subtreeHash: SubtreeHashSource): Promise<Uint8Array[]> {
+  if (size <= 1) return [];
+
+  const k = splitPoint(size);
+  return index < k
+    ? [...await auditPath(index, start, k, subtreeHash), await rangeHash(start + k, size - k, subtreeHash)]
+    : [...await auditPath(index - k, start + k, size - k, subtreeHash), await rangeHash(start, k, subtreeHash)];
+}
+
+async function subproof(
+  m: number,
+  start: number,
+  size: number,
+  complete: boolean,
+  subtreeHash: SubtreeHashSource
+): Promise<Uint8Array[]> {
+  if (m === size) {
+    return complete ? [] : [await rangeHash(start, size, subtreeHash)];
+  }
+
+  const k = splitPoint(size);
+  return m <= k
+    ? [...await subproof(m, start, k, complete, subtreeHash), await rangeHash(start + k, size - k, subtreeHash)]
+    : [...await subproof(m - k, start + k, size - k, false, subtreeHash), await rangeHash(start, k, subtreeHash)];
+}
+
+/**
+ * Computes the root hash of a tree
+ * @param treeSize - The number of leaves in the tree
+ * @param subtreeHash - Where the tree's complete subtrees are hashed
+ * @returns Promise with the hex encoded root hash
+ */
+export async function computeRootHash(treeSize: number, subtreeHash: SubtreeHashSource): Promise<string> {
+  return bytesToHex(await rangeHash(0, treeSize, subtreeHash));
+}
+
+/**
+ * Builds the inclusion proof for a leaf
+ * @param treeSize - The size of the tree to prove inclusion in
+ * @param leafIndex - The leaf's position in the log
+ * @param subtreeHash - Where the tree's complete subtrees are hashed
+ * @returns Promise with the hex encoded audit path
+ */
+export async function createInclusionProof(treeSize: number, leafIndex: number, subtreeHash: SubtreeHashSource): Promise<string[]> {
+  if (leafIndex < 0 || leafIndex >= treeSize) {
+    throw new Error(`Leaf ${leafIndex} is not in a tree of size ${treeSize}`);
+  }
+  return (await auditPath(leafIndex, 0, treeSize, subtreeHash)).map(bytesToHex);
+}
+
+/**
+ * Builds the proof that a tree extends its first fromTreeSize leaves
+ * @param treeSize - The size of the larger tree
+ * @param fromTreeSize - The size of the earlier tree
+ * @param subtreeHash - Where the tree's complete subtrees are hashed
+ * @returns Promise with the hex encoded consistency proof
+ */
+export async function createConsistencyProof(treeSize: number, fromTreeSize: number, subtreeHash: SubtreeHashSource): Promise<string[]> {
+  if (fromTreeSize < 1 || fromTreeSize > treeSize) {
+    throw new Error(`No consistency proof from size ${fromTreeSize} to size ${treeSize}`);
+  }
+  return (await subproof(fromTreeSize, 0, treeSize, true, subtreeHash)).map(bytesToHex);
+}
+
+/**
+ * Checks an inclusion proof (RFC 9162 section 2.1.3.2)
+ * @param leafHash - The hex encoded leaf hash
+ * @param leafIndex - The leaf's position in the log
+ * @param treeHead - The tree size and root hash the proof is for
+ * @param proof - The hex encoded audit path
+ * @returns Promise with a boolean indicating if the leaf is in the tree
+ */
+export async function verifyInclusionProof(
+  leafHash: string,
+  leafIndex: number,
+  treeHead: Pick<TreeHead, "treeSize" | "rootHash">,
+  proof: string[]
+): Promise<boolean> {
+  if (leafIndex < 0 || leafIndex >= treeHead.treeSize) return false;
+
+  let fn = leafIndex;
+  let sn = treeHead.treeSize - 1;
+  let r = hexToBytes(leafHash);
+
+  for (const node of proof.map(hexToBytes)) {
+    if (sn === 0) return false;
+
+    if (isOdd(fn) || fn === sn) {
+      r = await hashChildren(node, r);
+      while (!isOdd(fn) && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      r = await hashChildren(r, node);
+    }
+
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return sn === 0 && bytesToHex(r) === treeHead.rootHash;
+}
+
+/**
+ * Checks a consistency proof between two tree heads (RFC 9162 section 2.1.4.2)
+ * @param first - The earlier tree head
+ * @param second - The later tree head
+ * @param proof - The hex encoded consistency proof
+ * @returns Promise with a boolean indicating if the later tree extends the earlier one
+ */
+export async function verifyConsistencyProof(
+  first: Pick<TreeHead, "treeSize" | "rootHash">,
+  second: Pick<TreeHead, "treeSize" | "rootHash">,
+  proof: string[]
+): Promise<boolean> {
+  if (first.treeSize > second.treeSize || first.treeSize < 1) return false;
+
+  if (first.treeSize === second.treeSize) {
+    return proof.length === 0 && first.rootHash === second.rootHash;
+  }
+
+  // When the earlier tree is a complete subtree, its root is the proof's implicit first node
+  const nodes = splitPoint(first.treeSize + 1) === first.treeSize
+    ? [first.rootHash, ...proof].map(hexToBytes)
+    : proof.map(hexToBytes);
+
+  if (nodes.length === 0) return false;
+
+  let fn = first.treeSize - 1;
+  let sn = second.treeSize - 1;
+
+  while (isOdd(fn)) {
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  let fr = nodes[0];
+  let sr = nodes[0];
+
+  for (const node of nodes.slice(1)) {
+    if (sn === 0) return false;
+
+    if (isOdd(fn) || fn === sn) {
+      fr = await hashChildren(node, fr);
+      sr = await hashChildren(node, sr);
+      while (!isOdd(fn) && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      sr = await hashChildren(sr, node);
+    }
+
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return sn === 0 && bytesToHex(fr) === first.rootHash && bytesToHex(sr) === second.rootHash;
+}
+
+function treeHeadPayload(treeHead: TreeHead): string {
+  return canonicalizeJson({ treeSize: treeHead.treeSize, rootHash: treeHead.rootHash, timestamp: treeHead.timestamp });
+}
+
+/**
+ * Signs a tree head with the log's key
+ * @param treeHead - The tree size, root hash and publication time
+ * @param privateKey - The log's signing key
+ * @param logId - Fingerprint of the log's public key
+ * @returns Promise with the signed tree head
+ */
+export async function signTreeHead(treeHead: TreeHead, privateKey: CryptoKey, logId: string): Promise<SignedTreeHead> {
+  const signature = await createSignatureEnvelope(treeHeadPayload(treeHead), privateKey, {
+    kid: logId,
+    issuedAt: new Date(treeHead.timestamp),
+  });
+
+  return { ...treeHead, logId, signature };
+}
+
+/**
+ * Checks a signed tree head's signature
+ * @param treeHead - The signed tree head
+ * @param logPublicKey - The log's base64 SPKI public key
+ * @returns Promise with a boolean indicating if the log signed the tree head
+ */
+export async function verifyTreeHead(treeHead: SignedTreeHead, logPublicKey: string): Promise<boolean> {
+  const envelope = parseSignatureEnvelope(treeHead.signature);
+
+  if (!envelope || envelope.header.kid !== treeHead.logId) {
+    return false;
+  }
+
+  const publicKey = await importPublicKey(logPublicKey, envelope.header.alg);
+  return verifySignatureEnvelope(treeHeadPayload(treeHead), envelope, publicKey);
+}
+
+/**
+ * Gets the ID of the log proofs must come from, as configured in NEXT_PUBLIC_TRANSPARENCY_LOG_ID
+ * @returns The fingerprint of the log's key, or null when none is configured
+ */
+export function getPinnedLogId(): string | null {
+  const logId = process.env.NEXT_PUBLIC_TRANSPARENCY_LOG_ID?.trim().replace(/:/g, "").toLowerCase();
+  return logId || null;
+}
+
+/**
+ * Checks that an image's signature is in the log: the entry matches the
+ * image, the tree head is signed by the pinned log key, the entry is included
+ * in it, and the log still extends the tree head the verifier saw before
+ * @param proof - The proof served by the log
+ * @param image - The image's hash and stored signature
+ * @param seenTreeHead - The last tree head the verifier accepted from this log, if any
+ * @param logId - Fingerprint of the log's key; the served key is only used when it matches
+ * @returns Promise with where the entry is in the log, or why the proof fails
+ */
+export async function verifyTransparencyProof(
+  proof: TransparencyProof,
+  image: { hash: string; signature: string },
+  seenTreeHead: SignedTreeHead | null = null,
+  logId: string | null = getPinnedLogId()
+): Promise<TransparencyVerificationResult> {
+  if (!logId) {
+    return { valid: false, reason: "No transparency log key is configured to check against" };
+  }
+
+  if (proof.entry.sha256 !== image.hash || proof.entry.signature !== image.signature) {
+    return { valid: false, reason: "The log entry records a different hash or signature than the image has" };
+  }
+
+  if (proof.salt === undefined) {
+    return { valid: false, reason: "The log withheld the entry's salt, so the entry can't be matched to its leaf" };
+  }
+
+  if (!proof.treeHead) {
+    return { valid: false, pending: true, reason: "The entry is logged, but no tree head covering it has been published yet" };
+  }
+
+  // The log serves its public key, so it is only trusted when it is the pinned one
+  if (proof.treeHead.logId !== logId || await calculateKeyFingerprint(proof.logPublicKey) !== logId) {
+    return { valid: false, reason: "The tree head is signed by a key other than the log's" };
+  }
+
+  if (!await verifyTreeHead(proof.treeHead, proof.logPublicKey)) {
+    return { valid: false, reason: "The tree head is not signed by the log's key" };
+  }
+
+  if (!await verifyInclusionProof(await hashLogEntry(proof.entry, proof.salt), proof.leafIndex, proof.treeHead, proof.inclusionProof)) {
+    return { valid: false, reason: "The inclusion proof does not lead to the signed tree head" };
+  }
+
+  if (!seenTreeHead) {
+    return { valid: true, leafIndex: proof.leafIndex, treeHead: proof.treeHead, consistentWithSeen: null };
+  }
+
+  // A log that switched keys can't prove it extends what was seen before, so the switch itself is a failure
+  if (seenTreeHead.logId !== proof.treeHead.logId) {
+    return { valid: false, reason: "The log's key changed since the tree head seen before" };
+  }
+
+  if (seenTreeHead.treeSize > proof.treeHead.treeSize) {
+    return {
+      valid: false,
+      reason: `The log served a tree of size ${proof.treeHead.treeSize}, smaller than the size ${seenTreeHead.treeSize} seen before`,
+    };
+  }
+
+  const consistent = proof.consistencyProof?.fromTreeSize === seenTreeHead.treeSize
+    && await verifyConsistencyProof(seenTreeHead, proof.treeHead, proof.consistencyProof.proof);
+
+  if (!consistent) {
+    return {
+      valid: false,
+      reason: `The log's history was rewritten: it no longer extends the tree of size ${seenTreeHead.treeSize} seen before`,
+    };
+  }
+
+  return { valid: true, leafIndex: proof.leafIndex, treeHead: proof.treeHead, consistentWithSeen: true };
+}
+
+/**
+ * Gets the last tree head this browser verified
+ * @returns The tree head, or null if none was kept
+ */
+export function loadSeenTreeHead(): SignedTreeHead | null {
+  try {
+    const stored = localStorage.getItem(SEEN_TREE_HEAD_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keeps a verified tree head, so later proofs must be consistent with it
+ * @param treeHead - The tree head
+ */
+export function rememberTreeHead(treeHead: SignedTreeHead): void {
+  try {
+    localStorage.setItem(SEEN_TREE_HEAD_STORAGE_KEY, JSON.stringify(treeHead));
+  } catch (error) {
+    console.warn("Could not keep the tree head:", error);
+  }
+}
@@ -0,0 +1,356 @@
+/**
+ * Content-addressed image verification
+ * An image is resolved only by what it contains: the SHA-256 of its content
+ * finds every registration of it, and a proof embedded in the file or
+ * supplied alongside it is checked too. The file's name plays no part, so a
+ * renamed copy verifies and two different images sharing a name cannot be
+ * mistaken for each other. Each registration and proof is verified on its
+ * own, and the result lists every signer with the status of their signature
+ */
+
+import {
+  calculateFileHash,
+  calculateKeyFingerprint,
+  SignatureEnvelopeHeader,
+  SigningAlgorithm,
+} from "@/lib/crypto-utils";
+import { extractEmbeddedSignature } from "@/lib/embedded-signature";
+import { SignedImageRecord, verifyImageSignature } from "@/lib/image-manifest";
+import { CertificateChain, resolveImageSigningKey, SubkeyCertificate } from "@/lib/key-certificates";
+import { getSignatureKeyStatus, KeyRevocation } from "@/lib/key-status";
+import { SignatureBundle, verifySignatureBundle } from "@/lib/signature-bundle";
+import { resolveSigningTime, SigningTime } from "@/lib/timestamp";
+
+// A registered image with everything needed to verify its signature
+export interface RegisteredImage extends SignedImageRecord {
+  id: string;
+  publicUrl: string;
+  signatureAlgorithm: SigningAlgorithm;
+  // The signature envelope's protected header; null for bare signatures made before envelopes
+  signatureHeader: SignatureEnvelopeHeader | null;
+  certificateChain: CertificateChain | null;
+  // Base64 RFC 3161 token over the signature; null for images signed before timestamps
+  timestampToken: string | null;
+  keyRevocation: KeyRevocation | null;
+  keyNotAfter: string | null;
+  ownerEmail?: string;
+}
+
+// Where a signature came from: a registration, a proof embedded in the file, or a proof file
+export type SignatureSource = "registry" | "embedded" | "detached";
+
+export type SignatureStatus =
+  | "valid"
+  // The image is not the one the signature was made over
+  | "modified"
+  // The signature is valid, but the stored record no longer matches what was signed
+  | "altered"
+  | "revoked"
+  | "expired"
+  | "invalid-chain"
+  | "invalid"
+  // A valid proof, but signed with a key that is not a registered, unrevoked key of any account
+  | "untrusted"
+  // The signature could not be checked, e.g. because the signing key was not found
+  | "error";
+
+export const SIGNATURE_STATUS_LABELS: Record<SignatureStatus, string> = {
+  valid: "Valid",
+  modified: "Image modified",
+  altered: "Record altered",
+  revoked: "Key revoked",
+  expired: "Signed after key expiry",
+  "invalid-chain": "Invalid certificate chain",
+  invalid: "Invalid signature",
+  untrusted: "Unregistered signer",
+  error: "Could not be checked",
+};
+
+export interface SignerResult {
+  source: SignatureSource;
+  status: SignatureStatus;
+  // Why the signature is not valid; null when it is
+  reason: string | null;
+  // The registration the signature belongs to; null for proofs
+  image: RegisteredImage | null;
+  // Fingerprint of the signer's identity key, when it is known
+  keyFingerprint: string | null;
+  signatureAlgorithm: SigningAlgorithm | null;
+  // When the image was uploaded, or for proofs, when it claims to have been signed
+  signedAt: string | null;
+  signingTime: SigningTime | null;
+  // The revocation in effect for the signature, if any
+  keyRevocation: KeyRevocation | null;
+  keyNotAfter: string | null;
+  subkey: SubkeyCertificate | null;
+  // False for images signed before manifests, whose signature covers only the file contents
+  coversMetadata: boolean;
+  // Fields of the stored record that no longer match the signed manifest
+  alteredFields: string[];
+}
+
+// What public verification reveals about the signer of a published image
+export interface PublicSignerResult {
+  status: SignatureStatus;
+  reason: string | null;
+  displayName: string;
+  keyFingerprint: string | null;
+  // The trusted signing time when the signature has a trusted timestamp, otherwise the upload time
+  signedAt: string | null;
+  timestampTrusted: boolean;
+}
+
+export interface ContentVerificationResult {
+  // SHA-256 of the image content, without any embedded proof
+  sha256: string;
+  hasEmbeddedProof: boolean;
+  // Registrations first, oldest first, then proofs
+  signers: SignerResult[];
+  // The first valid registration, or the first registration if none is valid;
+  // without registrations, the same among the proofs
+  primary: SignerResult | null;
+  verified: boolean;
+}
+
+export interface VerificationSources {
+  // Looks up the registrations of an image by content hash; omitted to check proofs only
+  registry?: {
+    findImagesByHash: (hash: string) => Promise<RegisteredImage[]>;
+    // Gets the identity public key an image was signed under
+    getPublicKey: (userId: string, keyId: string | null) => Promise<string | null>;
+  };
+  // Checks that a key, by fingerprint, is a registered and unrevoked key of
+  // some account; omitted, no proof is trusted, however valid its signature
+  isRegisteredKey?: (fingerprint: string) => Promise<boolean>;
+  // A proof file selected by the verifier
+  detachedBundle?: SignatureBundle | null;
+  // Key fingerprints of the timestamp authorities whose timestamps to trust
+  trustedAuthorities: string[];
+}
+
+function emptySigner(source: SignatureSource, image: RegisteredImage | null): SignerResult {
+  return {
+    source,
+    status: "error",
+    reason: null,
+    image,
+    keyFingerprint: null,
+    signatureAlgorithm: image?.signatureAlgorithm ?? null,
+    signedAt: image?.createdAt ?? null,
+    signingTime: null,
+    keyRevocation: null,
+    keyNotAfter: image?.keyNotAfter ?? null,
+    subkey: null,
+    coversMetadata: false,
+    alteredFields: [],
+  };
+}
+
+/**
+ * Verifies one registration of an image
+ */
+async function verifyRegistration(
+  fileHash: string,
+  image: RegisteredImage,
+  getPublicKey: (userId: string, keyId: string | null) => Promise<string | null>,
+  trustedAuthorities: string[]
+): Promise<SignerResult> {
+  const signer = emptySigner("registry", image);
+
+  const publicKey = await getPublicKey(image.userId, image.keyId);
+  if (!publicKey) {
+    return { ...signer, reason: "The key this image was signed with could not be found" };
+  }
+  signer.keyFingerprint = await calculateKeyFingerprint(publicKey);
+
+  // Images signed with a device sub-key must chain back to the identity key
+  const signingKey = await resolveImageSigningKey(image, publicKey);
+  if (!signingKey.valid) {
+    return { ...signer, status: "invalid-chain", reason: signingKey.reason };
+  }
+
+  const signatureResult = await verifyImageSignature(fileHash, image, signingKey.signingKey);
+
+  // A trusted timestamp fixes when the image was signed; otherwise the upload time is taken at its word
+  const signingTime = await resolveSigningTime(image.signature, image.timestampToken, image.createdAt, trustedAuthorities);
+  const keyStatus = getSignatureKeyStatus(image.keyRevocation, signingTime.signedAt, image.keyNotAfter);
+
+  const result: SignerResult = {
+    ...signer,
+    status: "valid",
+    signingTime,
+    keyRevocation: keyStatus.revocation,
+    subkey: signingKey.leaf,
+    coversMetadata: signatureResult.coversMetadata,
+    alteredFields: signatureResult.alteredFields,
+  };
+
+  if (signatureResult.alteredFields.length > 0) {
+    return { ...result, status: "altered", reason: `The stored ${signatureResult.alteredFields.join(", ")} no longer ${signatureResult.alteredFields.length === 1 ? "matches" : "match"} what was signed` };
+  }
+  if (!signatureResult.valid) {
+    return { ...result, status: "invalid", reason: "The signature is invalid" };
+  }
+  if (keyStatus.status === "revoked") {
+    return { ...result, status: "revoked", reason: `Signed with a key revoked effective ${new Date(keyStatus.revocation.effectiveAt).toLocaleString()}` };
+  }
+  if (keyStatus.status === "expired") {
+    return { ...result, status: "expired", reason: `Signed after the key expired on ${new Date(keyStatus.notAfter).toLocaleString()}` };
+  }
+  return result;
+}
+
+/**
+ * Verifies every registration of an image's content
+ * Only the content hash is needed, so this runs wherever the registrations are
+ * @param sha256 - SHA-256 of the image content
+ * @param images - The registrations whose hash matches
+ * @param getPublicKey - Gets the identity public key an image was signed under
+ * @param trustedAuthorities - Key fingerprints of the timestamp authorities whose timestamps to trust
+ * @returns Promise with each registration's result, oldest first
+ */
+export async function verifyRegistrations(
+  sha256: string,
+  images: RegisteredImage[],
+  getPublicKey: (userId: string, keyId: string | null) => Promise<string | null>,
+  trustedAuthorities: string[]
+): Promise<SignerResult[]> {
+  const signers: SignerResult[] = [];
+  const oldestFirst = [...images].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  for (const image of oldestFirst) {
+    try {
+      signers.push(await verifyRegistration(sha256, image, getPublicKey, trustedAuthorities));
+    } catch (error) {
+      signers.push({ ...emptySigner("registry", image), reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return signers;
+}
+
+/**
+ * Reduces a signer's result to what may be shown to anyone
+ * @param signer - The result of verifying a published registration
+ * @param displayName - The name the signer publishes under
+ * @returns The status, display name, key fingerprint and signing time
+ */
+export function toPublicSignerResult(signer: SignerResult, displayName: string): PublicSignerResult {
+  return {
+    status: signer.status,
+    reason: signer.reason,
+    displayName,
+    keyFingerprint: signer.keyFingerprint,
+    signedAt: signer.signingTime?.signedAt ?? signer.signedAt,
+    timestampTrusted: signer.signingTime?.trusted ?? false,
+  };
+}
+
+/**
+ * Verifies a proof embedded in the image or supplied with it
+ * A proof carries its own key, so a valid signature only shows the image is
+ * unchanged since someone signed it; it is trusted only when that key is registered
+ */
+async function verifyProof(
+  fileHash: string,
+  source: SignatureSource,
+  bundle: SignatureBundle,
+  sources: VerificationSources
+): Promise<SignerResult> {
+  const signer: SignerResult = {
+    ...emptySigner(source, null),
+    signatureAlgorithm: bundle.signer.algorithm,
+    signedAt: bundle.signedAt,
+    keyNotAfter: bundle.signer.notAfter,
+  };
+
+  const result = await verifySignatureBundle(fileHash, bundle, sources.trustedAuthorities);
+
+  if (!result.valid) {
+    return { ...signer, status: result.imageModified ? "modified" : "invalid", reason: result.reason, keyFingerprint: result.fingerprint ?? null };
+  }
+
+  const registered = !result.signedAfterExpiry && !!sources.isRegisteredKey && await sources.isRegisteredKey(result.fingerprint);
+
+  return {
+    ...signer,
+    status: result.signedAfterExpiry ? "expired" : registered ? "valid" : "untrusted",
+    reason: result.signedAfterExpiry
+      ? "Signed after the signer's key expired"
+      : registered ? null : "The proof is signed with a key that is not registered to any account, or has been revoked",
+    keyFingerprint: result.fingerprint,
+    signatureAlgorithm: result.algorithm,
+    signedAt: result.signedAt,
+    signingTime: result.signingTime,
+    subkey: result.leaf,
+    coversMetadata: result.manifest !== null,
+  };
+}
+
+/**
+ * Verifies an image by its content against every registration of it and
+ * every proof that comes with it
+ * @param file - The image
+ * @param sources - Where to look for signatures, and which timestamp authorities to trust
+ * @returns Promise with the content hash and each signer's result
+ */
+export async function verifyImageContent(file: File, sources: VerificationSources): Promise<ContentVerificationResult> {
+  // Images carrying an embedded proof are hashed without it
+  const { content, bundle: embeddedBundle } = await extractEmbeddedSignature(file);
+  return verifyImageHash(await calculateFileHash(content), sources, embeddedBundle);
+}
+
+/**
+ * Verifies an image known only by its content hash against every registration
+ * of it and the proofs supplied with it
+ * @param sha256 - SHA-256 of the image content, without any embedded proof
+ * @param sources - Where to look for signatures, and which timestamp authorities to trust
+ * @param embeddedBundle - The proof that was embedded in the image, if any
+ * @returns Promise with each signer's result
+ */
+export async function verifyImageHash(
+  sha256: string,
+  sources: VerificationSources,
+  embeddedBundle: SignatureBundle | null = null
+): Promise<ContentVerificationResult> {
+  const signers: SignerResult[] = [];
+
+  if (sources.registry) {
+    const { findImagesByHash, getPublicKey } = sources.registry;
+    signers.push(...await verifyRegistrations(sha256, await findImagesByHash(sha256), getPublicKey, sources.trustedAuthorities));
+  }
+
+  const proofs: [SignatureSource, SignatureBundle | null | undefined][] = [
+    ["detached", sources.detachedBundle],
+    ["embedded", embeddedBundle],
+  ];
+
+  // A proof carrying the same signature as a registration, or as the other proof, adds nothing to check
+  const checked = new Set(signers.map(signer => signer.image?.signature));
+
+  for (const [source, bundle] of proofs) {
+    if (!bundle || checked.has(bundle.signature)) {
+      continue;
+    }
+    checked.add(bundle.signature);
+
+    try {
+      signers.push(await verifyProof(sha256, source, bundle, sources));
+    } catch (error) {
+      signers.push({ ...emptySigner(source, null), reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Registrations decide when there are any, so no proof can outweigh one that failed
+  const registrations = signers.filter(signer => signer.source === "registry");
+  const candidates = registrations.length > 0 ? registrations : signers;
+  const primary = candidates.find(signer => signer.status === "valid") ?? candidates[0] ?? null;
+
+  return {
+    sha256,
+    hasEmbeddedProof: embeddedBundle !== null,
+    signers,
+    primary,
+    verified: primary?.status === "valid",
+  };
+}
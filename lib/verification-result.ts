@@ -0,0 +1,213 @@
+/**
+ * What the verify pages show for a verification
+ * Turns the verification engine's signer results into the headline, the
+ * explanation and the key and timestamp details of the result panel
+ */
+
+import { findSimilarImagesAction } from "@/app/actions/verify";
+import { SigningAlgorithm } from "@/lib/crypto-utils";
+import { formatFingerprint } from "@/lib/key-fingerprint";
+import { revocationReasonLabel } from "@/lib/key-status";
+import { computePerceptualHashes } from "@/lib/perceptual-hash";
+import { SigningTime } from "@/lib/timestamp";
+import { PublicSignerResult, SIGNATURE_STATUS_LABELS, SignerResult } from "@/lib/verification-engine";
+
+export interface VerificationResult {
+  isVerified: boolean;
+  message: string;
+  details?: string;
+  ownerEmail?: string;
+  signerName?: string;
+  uploadDate?: string;
+  keyFingerprint?: string;
+  signatureAlgorithm?: SigningAlgorithm;
+  keyRevokedAt?: string;
+  keyRevocationReason?: string;
+  keyValidUntil?: string;
+  keyExpired?: boolean;
+  signedMetadata?: boolean;
+  subkeyLabel?: string;
+  subkeyValidUntil?: string;
+  timestampTime?: string;
+  timestampAuthority?: string;
+  timestampTrusted?: boolean;
+  timestampProblem?: string;
+}
+
+// Where a signature that matches no registration came from: a proof the user
+// supplied, or a signature embedded in an image that isn't in their account
+export type UnregisteredSignatureKind = "proof" | "embedded";
+
+const UNREGISTERED_SIGNATURE_MESSAGES: Record<UnregisteredSignatureKind, { valid: [string, string]; expired: string; invalid: string }> = {
+  proof: {
+    valid: [
+      "Image Matches Its Proof",
+      "The image has not been modified since it was signed by the key below. Compare its fingerprint with the one the signer publishes; revocations can't be checked offline.",
+    ],
+    expired: "The signature is valid, but it was made after the signer's key expired.",
+    invalid: "Proof Verification Failed",
+  },
+  embedded: {
+    valid: [
+      "Image Matches Its Embedded Signature",
+      "The image is not registered in your account, but it has not been modified since it was signed by the key below.",
+    ],
+    expired: "The embedded signature is valid, but it was made after the signer's key expired.",
+    invalid: "Embedded Signature Invalid",
+  },
+};
+
+// When a timestamp says the image was signed, or why the image's timestamp couldn't be used
+function timestampDetails(signingTime: SigningTime) {
+  return {
+    ...(signingTime.timestamp ? {
+      timestampTime: new Date(signingTime.timestamp.genTime).toLocaleString(),
+      timestampAuthority: signingTime.timestamp.tsaName ?? formatFingerprint(signingTime.timestamp.tsaFingerprint).slice(0, 19),
+      timestampTrusted: signingTime.trusted,
+    } : {}),
+    ...(signingTime.problem ? { timestampProblem: signingTime.problem } : {}),
+  };
+}
+
+/**
+ * What to show for the signature an image is verified by
+ * @param signer - The signer result the verification was decided by
+ * @param fileName - The name of the file being verified
+ * @param unregisteredKind - Where a signature without a registration came from
+ */
+export function signerVerificationResult(
+  signer: SignerResult,
+  fileName: string,
+  unregisteredKind: UnregisteredSignatureKind = "proof"
+): VerificationResult {
+  const details = {
+    ...(signer.image?.ownerEmail ? { ownerEmail: signer.image.ownerEmail } : {}),
+    ...(signer.signedAt ? { uploadDate: new Date(signer.signedAt).toLocaleString() } : {}),
+    ...(signer.keyFingerprint ? { keyFingerprint: signer.keyFingerprint } : {}),
+    ...(signer.signatureAlgorithm ? { signatureAlgorithm: signer.signatureAlgorithm } : {}),
+    ...(signer.keyRevocation ? {
+      keyRevokedAt: new Date(signer.keyRevocation.effectiveAt).toLocaleString(),
+      keyRevocationReason: revocationReasonLabel(signer.keyRevocation.reason),
+    } : {}),
+    ...(signer.keyNotAfter ? {
+      keyValidUntil: new Date(signer.keyNotAfter).toLocaleString(),
+      keyExpired: new Date(signer.keyNotAfter).getTime() < Date.now(),
+    } : {}),
+    ...(signer.subkey ? {
+      subkeyLabel: signer.subkey.deviceLabel,
+      subkeyValidUntil: new Date(signer.subkey.notAfter).toLocaleString(),
+    } : {}),
+    ...(signer.signingTime ? timestampDetails(signer.signingTime) : {}),
+    signedMetadata: signer.coversMetadata,
+  };
+
+  // Signatures without a registration are checked on their own, without any database lookup
+  if (!signer.image) {
+    const messages = UNREGISTERED_SIGNATURE_MESSAGES[unregisteredKind];
+    return signer.status === "valid"
+      ? { ...details, isVerified: true, message: messages.valid[0], details: messages.valid[1] }
+      : signer.status === "expired"
+        ? { ...details, isVerified: false, message: "Signed After Key Expiry", details: messages.expired }
+        : { ...details, isVerified: false, message: messages.invalid, details: signer.reason ?? undefined };
+  }
+
+  const alteredFields = signer.alteredFields;
+
+  switch (signer.status) {
+    case "valid":
+      return {
+        ...details,
+        isVerified: true,
+        message: "Image Verified Successfully",
+        details: signer.image.fileName === fileName
+          ? "This image is authentic and has not been modified since it was signed."
+          : `This image is authentic and has not been modified since it was signed. It was registered as ${signer.image.fileName}.`,
+      };
+    case "altered":
+      return {
+        ...details,
+        isVerified: false,
+        message: "Image Record Altered",
+        details: `The image is signed, but its stored ${alteredFields.join(", ")} no longer ${alteredFields.length === 1 ? "matches" : "match"} what was signed. The record was changed after upload.`,
+      };
+    case "revoked":
+      return {
+        ...details,
+        isVerified: false,
+        message: "Signed With a Revoked Key",
+        details: `This image was signed with a key that was revoked effective ${details.keyRevokedAt}. Signatures made on or after that date are no longer trusted.`,
+      };
+    case "expired":
+      return {
+        ...details,
+        isVerified: false,
+        message: "Signed After Key Expiry",
+        details: `This image was signed after its key expired on ${details.keyValidUntil}. Signatures made after that date are not trusted.`,
+      };
+    case "invalid-chain":
+      return { ...details, isVerified: false, message: "Invalid Certificate Chain", details: signer.reason ?? undefined };
+    case "invalid":
+      return {
+        ...details,
+        isVerified: false,
+        message: "Signature Verification Failed",
+        details: "The image hash matches a registered image, but the cryptographic signature is invalid.",
+      };
+    case "modified":
+      return { ...details, isVerified: false, message: "Image Modified", details: signer.reason ?? undefined };
+    case "untrusted":
+      return {
+        ...details,
+        isVerified: false,
+        message: "Signer Not Registered",
+        details: "The proof's signature is valid, but its key is not registered to any account or has been revoked, so anyone could have made it.",
+      };
+    case "error":
+      return { ...details, isVerified: false, message: "Verification Error", details: signer.reason ?? undefined };
+  }
+}
+
+/**
+ * What to show for a published image's signer, who is known only by their display name and key
+ */
+export function publishedSignerVerificationResult(signer: PublicSignerResult): VerificationResult {
+  const details = {
+    signerName: signer.displayName,
+    ...(signer.keyFingerprint ? { keyFingerprint: signer.keyFingerprint } : {}),
+    ...(signer.signedAt && signer.timestampTrusted ? {
+      timestampTime: new Date(signer.signedAt).toLocaleString(),
+      timestampAuthority: "a trusted timestamp authority",
+      timestampTrusted: true,
+    } : {}),
+    ...(signer.signedAt && !signer.timestampTrusted ? { uploadDate: new Date(signer.signedAt).toLocaleString() } : {}),
+  };
+
+  return signer.status === "valid"
+    ? { ...details, isVerified: true, message: "Published Image Verified", details: `This image was published by ${signer.displayName} and has not been modified since it was signed.` }
+    : { ...details, isVerified: false, message: SIGNATURE_STATUS_LABELS[signer.status], details: signer.reason ?? undefined };
+}
+
+/**
+ * What to show when no registration has the image's bytes but one looks like
+ * it, e.g. after a resize or re-save
+ * @param file - The image being verified
+ * @returns Promise with the result for the closest match, or null when nothing looks like the image
+ */
+export async function visualMatchVerificationResult(file: File): Promise<VerificationResult | null> {
+  try {
+    const [closest, ...others] = await findSimilarImagesAction((await computePerceptualHashes(file)).pHash);
+    if (!closest) {
+      return null;
+    }
+
+    return {
+      isVerified: false,
+      message: "Visually Matches a Registered Image",
+      details: `This image visually matches your registered image ${closest.fileName} (distance ${closest.distance}), but its bytes differ, so it is not the signed original. It may have been resized, re-encoded or edited.${others.length > 0 ? ` ${others.length} more of your images look similar.` : ""}`,
+      uploadDate: new Date(closest.createdAt).toLocaleString(),
+    };
+  } catch (error) {
+    console.warn("Could not search for visually similar images:", error);
+    return null;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Machine-readable verification verdicts
+ * What the verification API returns: a status from a fixed set that an
+ * ingestion pipeline can act on, the signer it was decided by and the reasons
+ * behind it, instead of the sentences the verify pages show
+ */
+
+import { SigningAlgorithm } from "@/lib/crypto-utils";
+import { ContentVerificationResult, SignatureSource, SignatureStatus, SignerResult } from "@/lib/verification-engine";
+
+export type VerdictStatus =
+  | "VERIFIED"
+  // The image, or its stored record, is not what was signed
+  | "MODIFIED"
+  // No registration or proof of the image was found
+  | "UNKNOWN"
+  | "BAD_SIGNATURE"
+  | "KEY_REVOKED"
+  | "KEY_EXPIRED"
+  | "INVALID_CHAIN"
+  // A valid proof signed with a key no account has registered, or one that was revoked
+  | "UNTRUSTED_SIGNER"
+  // The signature could not be checked
+  | "ERROR";
+
+const VERDICT_STATUSES: Record<SignatureStatus, VerdictStatus> = {
+  valid: "VERIFIED",
+  modified: "MODIFIED",
+  altered: "MODIFIED",
+  revoked: "KEY_REVOKED",
+  expired: "KEY_EXPIRED",
+  "invalid-chain": "INVALID_CHAIN",
+  invalid: "BAD_SIGNATURE",
+  untrusted: "UNTRUSTED_SIGNER",
+  error: "ERROR",
+};
+
+export interface VerdictTimestamp {
+  time: string;
+  // The TSA's name, or its key fingerprint when the token does not name it
+  authority: string;
+  trusted: boolean;
+}
+
+export interface VerdictSigner {
+  source: SignatureSource;
+  status: VerdictStatus;
+  // The signer's display name; null for proofs, whose signer is known only by key
+  name: string | null;
+  // SHA-256 fingerprint of the signer's identity key, as in an envelope's kid header
+  keyId: string | null;
+  algorithm: SigningAlgorithm | null;
+  // The trusted signing time when there is one, otherwise the claimed signing time
+  signedAt: string | null;
+  timestamp: VerdictTimestamp | null;
+  keyRevokedAt: string | null;
+  keyNotAfter: string | null;
+  reasons: string[];
+}
+
+export interface VerificationVerdict {
+  status: VerdictStatus;
+  sha256: string;
+  // The signer the status is decided by: a registration when there is one, otherwise a proof
+  signer: VerdictSigner | null;
+  signers: VerdictSigner[];
+  reasons: string[];
+  checkedAt: string;
+}
+
+/**
+ * Converts a signer's result to its verdict
+ * @param signer - The signer's result
+ * @param name - The signer's display name, if they have one
+ * @returns The signer's verdict
+ */
+export function toVerdictSigner(signer: SignerResult, name: string | null): VerdictSigner {
+  const timestamp = signer.signingTime?.timestamp;
+  const reasons = [
+    ...(signer.reason ? [signer.reason] : []),
+    ...(signer.signingTime?.problem ? [`Timestamp not used: ${signer.signingTime.problem}`] : []),
+  ];
+
+  return {
+    source: signer.source,
+    status: VERDICT_STATUSES[signer.status],
+    name,
+    keyId: signer.keyFingerprint,
+    algorithm: signer.signatureAlgorithm,
+    signedAt: signer.signingTime?.signedAt ?? signer.signedAt,
+    timestamp: timestamp
+      ? { time: timestamp.genTime, authority: timestamp.tsaName ?? timestamp.tsaFingerprint, trusted: signer.signingTime!.trusted }
+      : null,
+    keyRevokedAt: signer.keyRevocation?.effectiveAt ?? null,
+    keyNotAfter: signer.keyNotAfter,
+    reasons,
+  };
+}
+
+/**
+ * Converts the result of verifying an image to its verdict
+ * @param result - The result of verifying the image
+ * @param getName - Gets a signer's display name, if they have one
+ * @returns The verdict
+ */
+export function toVerificationVerdict(
+  result: ContentVerificationResult,
+  getName: (signer: SignerResult) => string | null
+): VerificationVerdict {
+  const signers = result.signers.map(signer => toVerdictSigner(signer, getName(signer)));
+  const signer = result.primary ? signers[result.signers.indexOf(result.primary)] : null;
+
+  return {
+    status: signer?.status ?? "UNKNOWN",
+    sha256: result.sha256,
+    signer,
+    signers,
+    reasons: signer ? signer.reasons : ["No published image or proof matches this image"],
+    checkedAt: new Date().toISOString(),
+  };
+}
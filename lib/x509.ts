@@ -0,0 +1,495 @@
+/**
+ * X.509 certificates
+ * Content Credentials and timestamp tokens identify their signer with an
+ * X.509 certificate chain. This module issues the small certificates the app
+ * needs (a self-signed certificate for the user's key, end-entity
+ * certificates it issues, and the local timestamp authority's certificate)
+ * and reads certificates from chains produced by other tools
+ */
+
+import {
+  ASN1_TAG,
+  Asn1Node,
+  decodeIntegerBytes,
+  decodeOid,
+  encodeBitString,
+  encodeDer,
+  encodeInteger,
+  encodeNode,
+  encodeNull,
+  encodeOctetString,
+  encodeOid,
+  encodeSequence,
+  parseDer,
+} from "@/lib/asn1";
+import { getCrypto, getKeyAlgorithm, SigningAlgorithm } from "@/lib/crypto-utils";
+
+const OID = {
+  COMMON_NAME: "2.5.4.3",
+  ORGANIZATION: "2.5.4.10",
+  RSA_ENCRYPTION: "1.2.840.113549.1.1.1",
+  RSASSA_PSS: "1.2.840.113549.1.1.10",
+  MGF1: "1.2.840.113549.1.1.8",
+  SHA256_WITH_RSA: "1.2.840.113549.1.1.11",
+  SHA384_WITH_RSA: "1.2.840.113549.1.1.12",
+  SHA512_WITH_RSA: "1.2.840.113549.1.1.13",
+  SHA256: "2.16.840.1.101.3.4.2.1",
+  SHA384: "2.16.840.1.101.3.4.2.2",
+  SHA512: "2.16.840.1.101.3.4.2.3",
+  EC_PUBLIC_KEY: "1.2.840.10045.2.1",
+  ECDSA_WITH_SHA256: "1.2.840.10045.4.3.2",
+  ECDSA_WITH_SHA384: "1.2.840.10045.4.3.3",
+  ECDSA_WITH_SHA512: "1.2.840.10045.4.3.4",
+  P256: "1.2.840.10045.3.1.7",
+  P384: "1.3.132.0.34",
+  P521: "1.3.132.0.35",
+  ED25519: "1.3.101.112",
+  BASIC_CONSTRAINTS: "2.5.29.19",
+  KEY_USAGE: "2.5.29.15",
+  EXTENDED_KEY_USAGE: "2.5.29.37",
+  SUBJECT_KEY_IDENTIFIER: "2.5.29.14",
+  AUTHORITY_KEY_IDENTIFIER: "2.5.29.35",
+  EMAIL_PROTECTION: "1.3.6.1.5.5.7.3.4",
+  DOCUMENT_SIGNING: "1.3.6.1.5.5.7.3.36",
+  TIME_STAMPING: "1.3.6.1.5.5.7.3.8",
+} as const;
+
+const HASH_OIDS: Record<string, string> = {
+  [OID.SHA256]: "SHA-256",
+  [OID.SHA384]: "SHA-384",
+  [OID.SHA512]: "SHA-512",
+};
+
+const CURVES: Record<string, { namedCurve: string; size: number }> = {
+  [OID.P256]: { namedCurve: "P-256", size: 32 },
+  [OID.P384]: { namedCurve: "P-384", size: 48 },
+  [OID.P521]: { namedCurve: "P-521", size: 66 },
+};
+
+export interface DistinguishedName {
+  commonName?: string;
+  organization?: string;
+}
+
+export interface Certificate {
+  // DER encoding of the whole certificate
+  der: Uint8Array;
+  // DER encoding of the TBSCertificate, which the issuer's signature covers
+  tbs: Uint8Array;
+  serialNumber: string;
+  subject: DistinguishedName;
+  issuer: DistinguishedName;
+  // DER encoding of the issuer's Name, as CMS signer identifiers use
+  issuerName: Uint8Array;
+  notBefore: string;
+  notAfter: string;
+  // DER encoding of the SubjectPublicKeyInfo
+  subjectPublicKeyInfo: Uint8Array;
+  publicKeyAlgorithm: string;
+  // OID of the curve, for EC keys
+  namedCurve: string | null;
+  signatureAlgorithm: Asn1Node;
+  signature: Uint8Array;
+  isCa: boolean;
+  // Extended key usage OIDs; empty when the certificate has no such extension
+  extendedKeyUsage: string[];
+}
+
+interface CertificateParams {
+  // DER encoding of the subject's SubjectPublicKeyInfo
+  subjectPublicKeyInfo: Uint8Array;
+  subject: DistinguishedName;
+  issuer: DistinguishedName;
+  // For self-signed certificates, the issuer's key is the subject's
+  issuerPublicKeyInfo: Uint8Array;
+  issuerPrivateKey: CryptoKey;
+  notBefore: Date;
+  notAfter: Date;
+  isCa: boolean;
+  // End-entity certificates for a timestamp authority are limited to timestamping instead
+  timestamping?: boolean;
+}
+
+function encodeName(name: DistinguishedName): Uint8Array {
+  const attributes: Uint8Array[] = [];
+
+  if (name.organization) {
+    attributes.push(encodeDer(ASN1_TAG.SET, encodeSequence(
+      encodeOid(OID.ORGANIZATION),
+      encodeDer(ASN1_TAG.UTF8_STRING, new TextEncoder().encode(name.organization))
+    )));
+  }
+
+  if (name.commonName) {
+    attributes.push(encodeDer(ASN1_TAG.SET, encodeSequence(
+      encodeOid(OID.COMMON_NAME),
+      encodeDer(ASN1_TAG.UTF8_STRING, new TextEncoder().encode(name.commonName))
+    )));
+  }
+
+  return encodeSequence(...attributes);
+}
+
+function decodeName(node: Asn1Node): DistinguishedName {
+  const name: DistinguishedName = {};
+
+  for (const set of node.children) {
+    for (const attribute of set.children) {
+      const [type, value] = attribute.children;
+      if (!type || !value) continue;
+
+      const oid = decodeOid(type);
+      const text = new TextDecoder().decode(value.value);
+      if (oid === OID.COMMON_NAME) name.commonName = text;
+      if (oid === OID.ORGANIZATION) name.organization = text;
+    }
+  }
+
+  return name;
+}
+
+function encodeTime(date: Date): Uint8Array {
+  const iso = date.toISOString();
+  const digits = iso.slice(0, 19).replace(/[-:T]/g, "");
+
+  // UTCTime covers 1950 to 2049; later dates must use GeneralizedTime
+  return date.getUTCFullYear() < 2050
+    ? encodeDer(ASN1_TAG.UTC_TIME, new TextEncoder().encode(`${digits.slice(2)}Z`))
+    : encodeDer(ASN1_TAG.GENERALIZED_TIME, new TextEncoder().encode(`${digits}Z`));
+}
+
+function decodeTime(node: Asn1Node): string {
+  const text = new TextDecoder().decode(node.value);
+  const digits = node.tag === ASN1_TAG.UTC_TIME
+    ? `${Number(text.slice(0, 2)) < 50 ? "20" : "19"}${text}`
+    : text;
+  const [, year, month, day, hour, minute, second] = digits.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})/) ?? [];
+
+  if (!year) {
+    throw new Error("Invalid certificate: unreadable validity time");
+  }
+
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)).toISOString();
+}
+
+function encodeExtension(oid: string, critical: boolean, value: Uint8Array): Uint8Array {
+  return critical
+    ? encodeSequence(encodeOid(oid), encodeDer(ASN1_TAG.BOOLEAN, new Uint8Array([0xff])), encodeOctetString(value))
+    : encodeSequence(encodeOid(oid), encodeOctetString(value));
+}
+
+/**
+ * Gets the AlgorithmIdentifier for signatures made with a key
+ */
+function signatureAlgorithmIdentifier(algorithm: SigningAlgorithm): Uint8Array {
+  switch (algorithm) {
+    case "RSA-PSS": {
+      const sha256 = encodeSequence(encodeOid(OID.SHA256), encodeNull());
+      return encodeSequence(
+        encodeOid(OID.RSASSA_PSS),
+        encodeSequence(
+          encodeDer(0xa0, sha256),
+          encodeDer(0xa1, encodeSequence(encodeOid(OID.MGF1), sha256)),
+          encodeDer(0xa2, encodeInteger(32))
+        )
+      );
+    }
+    case "ECDSA-P256":
+      return encodeSequence(encodeOid(OID.ECDSA_WITH_SHA256));
+    case "Ed25519":
+      return encodeSequence(encodeOid(OID.ED25519));
+  }
+}
+
+/**
+ * Converts a raw r || s ECDSA signature, as Web Crypto produces, to the DER form X.509 uses
+ */
+function ecdsaRawToDer(raw: Uint8Array): Uint8Array {
+  const half = raw.length / 2;
+  return encodeSequence(encodeInteger(raw.slice(0, half)), encodeInteger(raw.slice(half)));
+}
+
+/**
+ * Converts a DER ECDSA signature to raw r || s for a curve
+ */
+function ecdsaDerToRaw(der: Uint8Array, size: number): Uint8Array {
+  const [r, s] = parseDer(der).children;
+  const rBytes = decodeIntegerBytes(r);
+  const sBytes = decodeIntegerBytes(s);
+
+  if (rBytes.length > size || sBytes.length > size) {
+    throw new Error("Invalid ECDSA signature");
+  }
+
+  const raw = new Uint8Array(size * 2);
+  raw.set(rBytes, size - rBytes.length);
+  raw.set(sBytes, size * 2 - sBytes.length);
+  return raw;
+}
+
+/**
+ * Derives a key identifier from a SubjectPublicKeyInfo
+ */
+async function keyIdentifier(subjectPublicKeyInfo: Uint8Array): Promise<Uint8Array> {
+  const digest = await getCrypto().subtle.digest("SHA-256", subjectPublicKeyInfo);
+  return new Uint8Array(digest).slice(0, 20);
+}
+
+/**
+ * Issues an X.509 v3 certificate
+ * End-entity certificates are limited to signing documents, or timestamps;
+ * CA certificates to issuing certificates
+ * @param params - The subject, issuer and validity
+ * @returns Promise with the DER encoded certificate
+ */
+export async function issueCertificate(params: CertificateParams): Promise<Uint8Array> {
+  const signatureAlgorithm = signatureAlgorithmIdentifier(getKeyAlgorithm(params.issuerPrivateKey));
+
+  // Positive 128-bit serial number
+  const serial = getCrypto().getRandomValues(new Uint8Array(16));
+  serial[0] = (serial[0] & 0x7f) | 0x01;
+
+  const extensions = [
+    encodeExtension(
+      OID.BASIC_CONSTRAINTS,
+      true,
+      params.isCa ? encodeSequence(encodeDer(ASN1_TAG.BOOLEAN, new Uint8Array([0xff]))) : encodeSequence()
+    ),
+    // digitalSignature for end entities; keyCertSign and cRLSign for CAs
+    encodeExtension(
+      OID.KEY_USAGE,
+      true,
+      params.isCa ? encodeDer(ASN1_TAG.BIT_STRING, new Uint8Array([1, 0x06])) : encodeDer(ASN1_TAG.BIT_STRING, new Uint8Array([7, 0x80]))
+    ),
+    encodeExtension(OID.SUBJECT_KEY_IDENTIFIER, false, encodeOctetString(await keyIdentifier(params.subjectPublicKeyInfo))),
+    encodeExtension(
+      OID.AUTHORITY_KEY_IDENTIFIER,
+      false,
+      encodeSequence(encodeDer(0x80, await keyIdentifier(params.issuerPublicKeyInfo)))
+    ),
+  ];
+
+  // RFC 3161 requires timeStamping to be a timestamp authority's only purpose, in a critical extension
+  if (!params.isCa) {
+    extensions.push(params.timestamping
+      ? encodeExtension(OID.EXTENDED_KEY_USAGE, true, encodeSequence(encodeOid(OID.TIME_STAMPING)))
+      : encodeExtension(
+        OID.EXTENDED_KEY_USAGE,
+        false,
+        encodeSequence(encodeOid(OID.EMAIL_PROTECTION), encodeOid(OID.DOCUMENT_SIGNING))
+      ));
+  }
+
+  const tbs = encodeSequence(
+    encodeDer(0xa0, encodeInteger(2)),
+    encodeInteger(serial),
+    signatureAlgorithm,
+    encodeName(params.issuer),
+    encodeSequence(encodeTime(params.notBefore), encodeTime(params.notAfter)),
+    encodeName(params.subject),
+    params.subjectPublicKeyInfo,
+    encodeDer(0xa3, encodeSequence(...extensions))
+  );
+
+  const { signature } = await createX509Signature(params.issuerPrivateKey, tbs);
+  return encodeSequence(tbs, signatureAlgorithm, encodeBitString(signature));
+}
+
+/**
+ * Signs data in the form X.509 and CMS structures carry signatures
+ * @param privateKey - The signing key
+ * @param data - The data to sign
+ * @returns Promise with the DER AlgorithmIdentifier and the signature, DER encoded for ECDSA
+ */
+export async function createX509Signature(
+  privateKey: CryptoKey,
+  data: Uint8Array
+): Promise<{ algorithm: Uint8Array; signature: Uint8Array }> {
+  const algorithm = getKeyAlgorithm(privateKey);
+  const signatureParams = algorithm === "RSA-PSS"
+    ? { name: "RSA-PSS", saltLength: 32 }
+    : algorithm === "ECDSA-P256"
+      ? { name: "ECDSA", hash: "SHA-256" }
+      : { name: "Ed25519" };
+  const signature = new Uint8Array(await getCrypto().subtle.sign(signatureParams, privateKey, data));
+
+  return {
+    algorithm: signatureAlgorithmIdentifier(algorithm),
+    signature: algorithm === "ECDSA-P256" ? ecdsaRawToDer(signature) : signature,
+  };
+}
+
+/**
+ * Parses a DER encoded X.509 certificate
+ * @param der - The certificate
+ * @returns The fields the app uses
+ */
+export function parseCertificate(der: Uint8Array): Certificate {
+  const root = parseDer(der);
+  const [tbsNode, signatureAlgorithm, signatureValue] = root.children;
+
+  if (!tbsNode || !signatureAlgorithm || signatureValue?.tag !== ASN1_TAG.BIT_STRING) {
+    throw new Error("Invalid certificate");
+  }
+
+  // The version field is optional and explicitly tagged
+  const fields = tbsNode.children[0]?.tag === 0xa0 ? tbsNode.children.slice(1) : tbsNode.children;
+  const [serialNumber, , issuer, validity, subject, subjectPublicKeyInfo] = fields;
+
+  if (!serialNumber || !issuer || !validity || !subject || !subjectPublicKeyInfo) {
+    throw new Error("Invalid certificate: incomplete TBSCertificate");
+  }
+
+  const [keyAlgorithm] = subjectPublicKeyInfo.children;
+  const keyAlgorithmParams = keyAlgorithm.children[1];
+
+  let isCa = false;
+  let extendedKeyUsage: string[] = [];
+  const extensions = tbsNode.children.find(child => child.tag === 0xa3)?.children[0]?.children ?? [];
+  for (const extension of extensions) {
+    const oid = decodeOid(extension.children[0]);
+    const value = parseDer(extension.children[extension.children.length - 1].value);
+    if (oid === OID.BASIC_CONSTRAINTS) {
+      isCa = value.children[0]?.tag === ASN1_TAG.BOOLEAN && value.children[0].value[0] !== 0;
+    } else if (oid === OID.EXTENDED_KEY_USAGE) {
+      extendedKeyUsage = value.children.map(decodeOid);
+    }
+  }
+
+  return {
+    der,
+    tbs: encodeNode(tbsNode),
+    serialNumber: Array.from(serialNumber.value, byte => byte.toString(16).padStart(2, "0")).join(""),
+    subject: decodeName(subject),
+    issuer: decodeName(issuer),
+    issuerName: encodeNode(issuer),
+    notBefore: decodeTime(validity.children[0]),
+    notAfter: decodeTime(validity.children[1]),
+    subjectPublicKeyInfo: encodeNode(subjectPublicKeyInfo),
+    publicKeyAlgorithm: decodeOid(keyAlgorithm.children[0]),
+    namedCurve: keyAlgorithmParams?.tag === ASN1_TAG.OBJECT_IDENTIFIER ? decodeOid(keyAlgorithmParams) : null,
+    signatureAlgorithm,
+    // The first byte counts unused bits, which signatures don't have
+    signature: signatureValue.value.slice(1),
+    isCa,
+    extendedKeyUsage,
+  };
+}
+
+/**
+ * Imports a certificate's public key for verifying signatures
+ * @param certificate - The certificate
+ * @param hash - The hash the signatures use, for RSA and ECDSA keys
+ * @param rsaPadding - Which RSA signature scheme the signatures use
+ * @returns Promise with the key
+ */
+export async function importCertificateKey(
+  certificate: Certificate,
+  hash: string,
+  rsaPadding: "RSA-PSS" | "RSASSA-PKCS1-v1_5" = "RSA-PSS"
+): Promise<CryptoKey> {
+  let params: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+
+  switch (certificate.publicKeyAlgorithm) {
+    case OID.RSA_ENCRYPTION:
+    case OID.RSASSA_PSS:
+      params = { name: rsaPadding, hash };
+      break;
+    case OID.EC_PUBLIC_KEY: {
+      const curve = certificate.namedCurve ? CURVES[certificate.namedCurve] : undefined;
+      if (!curve) {
+        throw new Error("Unsupported certificate key: unknown elliptic curve");
+      }
+      params = { name: "ECDSA", namedCurve: curve.namedCurve };
+      break;
+    }
+    case OID.ED25519:
+      params = { name: "Ed25519" };
+      break;
+    default:
+      throw new Error(`Unsupported certificate key algorithm ${certificate.publicKeyAlgorithm}`);
+  }
+
+  return getCrypto().subtle.importKey("spki", certificate.subjectPublicKeyInfo, params, false, ["verify"]);
+}
+
+/**
+ * Gets the size in bytes of each half of a raw ECDSA signature made with a certificate's key
+ */
+export function ecdsaComponentSize(certificate: Certificate): number {
+  const curve = certificate.namedCurve ? CURVES[certificate.namedCurve] : undefined;
+  if (!curve) {
+    throw new Error("Unsupported certificate key: unknown elliptic curve");
+  }
+  return curve.size;
+}
+
+/**
+ * Checks that a certificate was signed by an issuer's key
+ * @param certificate - The certificate
+ * @param issuer - The issuer's certificate
+ * @returns Promise with whether the signature is valid
+ */
+export async function verifyCertificateSignature(certificate: Certificate, issuer: Certificate): Promise<boolean> {
+  return verifyX509Signature(issuer, certificate.signatureAlgorithm, certificate.signature, certificate.tbs);
+}
+
+/**
+ * Verifies a signature in the form X.509 and CMS structures carry them
+ * @param signer - The certificate of the key that made the signature
+ * @param signatureAlgorithm - The signature's AlgorithmIdentifier
+ * @param signature - The signature, DER encoded for ECDSA
+ * @param data - The signed data
+ * @param digestAlgorithm - The hash to use when the algorithm doesn't name one, as CMS allows for RSA
+ * @returns Promise with whether the signature is valid
+ */
+export async function verifyX509Signature(
+  signer: Certificate,
+  signatureAlgorithm: Asn1Node,
+  signature: Uint8Array,
+  data: Uint8Array,
+  digestAlgorithm = "SHA-256"
+): Promise<boolean> {
+  const algorithmOid = decodeOid(signatureAlgorithm.children[0]);
+  const crypto = getCrypto();
+
+  switch (algorithmOid) {
+    case OID.ECDSA_WITH_SHA256:
+    case OID.ECDSA_WITH_SHA384:
+    case OID.ECDSA_WITH_SHA512: {
+      const hash = algorithmOid === OID.ECDSA_WITH_SHA256 ? "SHA-256" : algorithmOid === OID.ECDSA_WITH_SHA384 ? "SHA-384" : "SHA-512";
+      const key = await importCertificateKey(signer, hash);
+      return crypto.subtle.verify({ name: "ECDSA", hash }, key, ecdsaDerToRaw(signature, ecdsaComponentSize(signer)), data);
+    }
+    case OID.RSA_ENCRYPTION:
+    case OID.SHA256_WITH_RSA:
+    case OID.SHA384_WITH_RSA:
+    case OID.SHA512_WITH_RSA: {
+      const hash = algorithmOid === OID.SHA256_WITH_RSA ? "SHA-256"
+        : algorithmOid === OID.SHA384_WITH_RSA ? "SHA-384"
+          : algorithmOid === OID.SHA512_WITH_RSA ? "SHA-512"
+            : digestAlgorithm;
+      const key = await importCertificateKey(signer, hash, "RSASSA-PKCS1-v1_5");
+      return crypto.subtle.verify({ name: "RSASSA-PKCS1-v1_5" }, key, signature, data);
+    }
+    case OID.RSASSA_PSS: {
+      // Parameters: [0] hash algorithm, [1] mask generation, [2] salt length
+      const params = signatureAlgorithm.children[1]?.children ?? [];
+      const hashNode = params.find(param => param.tag === 0xa0);
+      const saltNode = params.find(param => param.tag === 0xa2);
+      const hash = hashNode ? HASH_OIDS[decodeOid(hashNode.children[0].children[0])] : "SHA-1";
+      if (!hash) {
+        throw new Error("Unsupported RSA-PSS hash algorithm");
+      }
+      const saltLength = saltNode ? decodeIntegerBytes(saltNode.children[0]).reduce((value, byte) => value * 256 + byte, 0) : 20;
+      const key = await importCertificateKey(signer, hash);
+      return crypto.subtle.verify({ name: "RSA-PSS", saltLength }, key, signature, data);
+    }
+    case OID.ED25519: {
+      const key = await importCertificateKey(signer, "SHA-512");
+      return crypto.subtle.verify({ name: "Ed25519" }, key, signature, data);
+    }
+    default:
+      throw new Error(`Unsupported signature algorithm ${algorithmOid}`);
+  }
+}
@@ -0,0 +1,58 @@
+-- Versioned public key store
+-- Keys are never overwritten: rotating a key retires the previous row so that
+-- images signed with it stay verifiable
+CREATE TABLE IF NOT EXISTS public.user_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  public_key TEXT NOT NULL,
+  fingerprint TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  retired_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Enable RLS on user_keys
+ALTER TABLE public.user_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own keys" ON public.user_keys;
+
+CREATE POLICY "Users can view their own keys"
+  ON public.user_keys
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- A user has at most one active (non-retired) key
+CREATE UNIQUE INDEX IF NOT EXISTS user_keys_active_user_idx
+  ON public.user_keys (user_id)
+  WHERE retired_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS user_keys_user_id_idx ON public.user_keys (user_id);
+
+-- Pin each image to the key that signed it
+ALTER TABLE public.images
+  ADD COLUMN IF NOT EXISTS key_id UUID REFERENCES public.user_keys(id);
+
+CREATE INDEX IF NOT EXISTS images_key_id_idx ON public.images (key_id);
+
+-- Seed the history with the keys currently stored in user_profiles,
+-- skipping empty keys and the placeholder assigned at sign-up
+INSERT INTO public.user_keys (user_id, public_key, fingerprint, created_at)
+SELECT
+  p.user_id,
+  p.public_key,
+  encode(sha256(decode(p.public_key, 'base64')), 'hex'),
+  p.updated_at
+FROM public.user_profiles p
+WHERE p.public_key <> ''
+  AND p.public_key NOT LIKE 'MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEAu5sVBczU9q%'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.user_keys k WHERE k.user_id = p.user_id
+  );
+
+-- Attribute existing images to the key that is current at migration time;
+-- keys overwritten before this migration are not recoverable
+UPDATE public.images i
+SET key_id = k.id
+FROM public.user_keys k
+WHERE k.user_id = i.user_id
+  AND k.retired_at IS NULL
+  AND i.key_id IS NULL;
@@ -0,0 +1,17 @@
+-- One-time challenges for enrolling browser-generated keys
+-- The client signs the challenge with its new private key to prove possession
+-- before the server stores the matching public key
+CREATE TABLE IF NOT EXISTS public.key_enrollment_challenges (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  challenge TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Only the service role reads or writes challenges
+ALTER TABLE public.key_enrollment_challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS key_enrollment_challenges_user_id_idx
+  ON public.key_enrollment_challenges (user_id);
@@ -0,0 +1,9 @@
+-- Record the signature algorithm of every enrolled key and every image signature
+-- Keys and signatures created before this migration are all RSA-PSS
+ALTER TABLE public.user_keys
+  ADD COLUMN IF NOT EXISTS algorithm TEXT DEFAULT 'RSA-PSS' NOT NULL
+  CHECK (algorithm IN ('RSA-PSS', 'ECDSA-P256', 'Ed25519'));
+
+ALTER TABLE public.images
+  ADD COLUMN IF NOT EXISTS signature_algorithm TEXT DEFAULT 'RSA-PSS' NOT NULL
+  CHECK (signature_algorithm IN ('RSA-PSS', 'ECDSA-P256', 'Ed25519'));
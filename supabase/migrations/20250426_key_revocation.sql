@@ -0,0 +1,18 @@
+-- Key revocation
+-- A revoked key invalidates signatures made at or after revocation_effective_at,
+-- which may lie before revoked_at when a compromise is discovered late
+ALTER TABLE public.user_keys
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS revocation_reason TEXT
+    CHECK (revocation_reason IN ('unspecified', 'key_compromise', 'superseded', 'cessation_of_operation')),
+  ADD COLUMN IF NOT EXISTS revocation_effective_at TIMESTAMP WITH TIME ZONE;
+
+-- Revocation details are recorded together or not at all
+ALTER TABLE public.user_keys
+  DROP CONSTRAINT IF EXISTS user_keys_revocation_complete;
+
+ALTER TABLE public.user_keys
+  ADD CONSTRAINT user_keys_revocation_complete CHECK (
+    (revoked_at IS NULL AND revocation_reason IS NULL AND revocation_effective_at IS NULL)
+    OR (revoked_at IS NOT NULL AND revocation_reason IS NOT NULL AND revocation_effective_at IS NOT NULL)
+  );
@@ -0,0 +1,25 @@
+-- Devices that remember a signing key in the browser
+-- The private key never leaves the device; this table only lists where keys
+-- are stored so that users can review devices and forget them remotely
+CREATE TABLE IF NOT EXISTS public.device_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  key_id UUID REFERENCES public.user_keys(id) ON DELETE CASCADE NOT NULL,
+  device_id TEXT NOT NULL,
+  device_name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  last_used_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (user_id, device_id, key_id)
+);
+
+-- Enable RLS on device_keys
+ALTER TABLE public.device_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own device keys" ON public.device_keys;
+
+CREATE POLICY "Users can view their own device keys"
+  ON public.device_keys
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS device_keys_user_id_idx ON public.device_keys (user_id);
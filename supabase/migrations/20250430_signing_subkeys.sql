@@ -0,0 +1,47 @@
+-- Short-lived signing sub-keys certified by a user's long-term identity key
+-- Each device signs with its own sub-key, so losing a device only requires
+-- revoking that sub-key; the identity key itself stays offline
+CREATE TABLE IF NOT EXISTS public.signing_subkeys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  identity_key_id UUID REFERENCES public.user_keys(id) ON DELETE CASCADE NOT NULL,
+  public_key TEXT NOT NULL,
+  fingerprint TEXT NOT NULL,
+  algorithm TEXT NOT NULL
+    CHECK (algorithm IN ('RSA-PSS', 'ECDSA-P256', 'Ed25519')),
+  device_label TEXT NOT NULL,
+  not_before TIMESTAMP WITH TIME ZONE NOT NULL,
+  not_after TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- The certificate as signed by the identity key, and that signature
+  certificate JSONB NOT NULL,
+  certificate_signature TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revocation_reason TEXT
+    CHECK (revocation_reason IN ('unspecified', 'key_compromise', 'superseded', 'cessation_of_operation')),
+  revocation_effective_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (user_id, fingerprint),
+  CONSTRAINT signing_subkeys_validity CHECK (not_after > not_before),
+  CONSTRAINT signing_subkeys_revocation_complete CHECK (
+    (revoked_at IS NULL AND revocation_reason IS NULL AND revocation_effective_at IS NULL)
+    OR (revoked_at IS NOT NULL AND revocation_reason IS NOT NULL AND revocation_effective_at IS NOT NULL)
+  )
+);
+
+-- Enable RLS on signing_subkeys
+ALTER TABLE public.signing_subkeys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own sub-keys" ON public.signing_subkeys;
+
+CREATE POLICY "Users can view their own sub-keys"
+  ON public.signing_subkeys
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS signing_subkeys_user_id_idx ON public.signing_subkeys (user_id);
+
+-- Images signed with a sub-key keep the certificate chain from the sub-key up
+-- to the identity key (key_id), so they verify without looking up the sub-key
+ALTER TABLE public.images
+  ADD COLUMN IF NOT EXISTS subkey_id UUID REFERENCES public.signing_subkeys(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS certificate_chain JSONB;
@@ -0,0 +1,20 @@
+-- Key expiry
+-- Every key carries a not-after date set by the key policy when it is enrolled.
+-- Signatures made after that date are not trusted; earlier ones stay valid
+ALTER TABLE public.user_keys
+  ADD COLUMN IF NOT EXISTS not_after TIMESTAMP WITH TIME ZONE;
+
+-- Keys enrolled before expiry existed get the policy's 365 days, but never less
+-- than 30 days from now so that nobody is locked out without a renewal notice
+UPDATE public.user_keys
+SET not_after = GREATEST(created_at + INTERVAL '365 days', NOW() + INTERVAL '30 days')
+WHERE not_after IS NULL;
+
+ALTER TABLE public.user_keys
+  ALTER COLUMN not_after SET NOT NULL;
+
+ALTER TABLE public.user_keys
+  DROP CONSTRAINT IF EXISTS user_keys_validity;
+
+ALTER TABLE public.user_keys
+  ADD CONSTRAINT user_keys_validity CHECK (not_after > created_at);
@@ -0,0 +1,6 @@
+-- Signed image manifests
+-- The signature of images uploaded from now on covers this manifest (hash, size,
+-- type, name, owner, signing key and signing time) rather than only the file hash.
+-- Images without a manifest were signed over the file hash alone
+ALTER TABLE public.images
+  ADD COLUMN IF NOT EXISTS manifest JSONB;
@@ -0,0 +1,6 @@
+-- RFC 3161 timestamps on image signatures
+-- A timestamp authority countersigns each new signature value with the time it
+-- saw it. The token is stored base64 encoded (DER) and is what the trusted
+-- signing time is read from. Images signed before this have none
+ALTER TABLE public.images
+  ADD COLUMN IF NOT EXISTS timestamp_token TEXT;
@@ -0,0 +1,72 @@
+-- Append-only transparency log of image signatures
+-- Every upload appends a leaf to a Merkle tree; tree heads committing to the
+-- tree's size and root hash are signed and published. Neither table accepts
+-- updates or deletes, and a rewrite done by bypassing that is exposed by the
+-- consistency proofs between published tree heads
+CREATE TABLE IF NOT EXISTS public.transparency_log (
+  leaf_index BIGINT PRIMARY KEY CHECK (leaf_index >= 0),
+  -- Not a foreign key: deleting an image must not touch the log
+  image_id UUID NOT NULL,
+  -- The image hash, signature, key fingerprint and timestamp the leaf hashes
+  entry JSONB NOT NULL,
+  leaf_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.transparency_tree_heads (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  tree_size BIGINT NOT NULL CHECK (tree_size >= 0),
+  root_hash TEXT NOT NULL,
+  published_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- Fingerprint of the key that signed the tree head
+  log_id TEXT NOT NULL,
+  signature TEXT NOT NULL
+);
+
+-- The log is public: anyone may read it to audit it
+ALTER TABLE public.transparency_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transparency_tree_heads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read the transparency log" ON public.transparency_log;
+DROP POLICY IF EXISTS "Anyone can read tree heads" ON public.transparency_tree_heads;
+
+CREATE POLICY "Anyone can read the transparency log"
+  ON public.transparency_log
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can read tree heads"
+  ON public.transparency_tree_heads
+  FOR SELECT
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.reject_transparency_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The transparency log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transparency_log_append_only ON public.transparency_log;
+DROP TRIGGER IF EXISTS transparency_log_no_truncate ON public.transparency_log;
+DROP TRIGGER IF EXISTS transparency_tree_heads_append_only ON public.transparency_tree_heads;
+DROP TRIGGER IF EXISTS transparency_tree_heads_no_truncate ON public.transparency_tree_heads;
+
+CREATE TRIGGER transparency_log_append_only
+  BEFORE UPDATE OR DELETE ON public.transparency_log
+  FOR EACH ROW EXECUTE FUNCTION public.reject_transparency_log_changes();
+
+CREATE TRIGGER transparency_log_no_truncate
+  BEFORE TRUNCATE ON public.transparency_log
+  FOR EACH STATEMENT EXECUTE FUNCTION public.reject_transparency_log_changes();
+
+CREATE TRIGGER transparency_tree_heads_append_only
+  BEFORE UPDATE OR DELETE ON public.transparency_tree_heads
+  FOR EACH ROW EXECUTE FUNCTION public.reject_transparency_log_changes();
+
+CREATE TRIGGER transparency_tree_heads_no_truncate
+  BEFORE TRUNCATE ON public.transparency_tree_heads
+  FOR EACH STATEMENT EXECUTE FUNCTION public.reject_transparency_log_changes();
+
+CREATE INDEX IF NOT EXISTS transparency_log_image_id_idx ON public.transparency_log (image_id);
+CREATE INDEX IF NOT EXISTS transparency_tree_heads_tree_size_idx ON public.transparency_tree_heads (tree_size DESC, published_at DESC);
@@ -0,0 +1,8 @@
+-- Per-user chain of signed manifests
+-- From manifest version 2 each manifest names the hash of its uploader's
+-- previous manifest. Two uploads linking to the same manifest would fork the
+-- chain, so at most one image per user may name a given previous manifest.
+-- Version 1 manifests and a user's first manifest have no link and are not
+-- constrained
+CREATE UNIQUE INDEX IF NOT EXISTS images_manifest_chain_link_idx
+  ON public.images (user_id, (manifest->>'previousManifestHash'));
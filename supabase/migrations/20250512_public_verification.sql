@@ -0,0 +1,14 @@
+-- Public verification of published images
+-- Owners can publish an image so that anyone, signed in or not, can verify a
+-- copy of it. Public verification reveals only the signer's display name, key
+-- fingerprint and signing time, so profiles gain a display name to show
+ALTER TABLE public.images
+  ADD COLUMN IF NOT EXISTS is_public BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS images_public_hash_idx
+  ON public.images (hash)
+  WHERE is_public;
+
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS display_name TEXT
+  CHECK (display_name IS NULL OR char_length(display_name) BETWEEN 1 AND 64);
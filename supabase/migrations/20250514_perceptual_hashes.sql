@@ -0,0 +1,14 @@
+-- Perceptual hashes for finding copies of registered images
+-- A resized, re-encoded or screenshotted copy of an image has different bytes
+-- but nearly the same perceptual hash. Each hash is 64 bits as 16 hex digits.
+-- The pHash is also stored split into eight 8-bit bands, each prefixed with its
+-- position; any two pHashes within Hamming distance 7 share a band, so the GIN
+-- index finds the candidates and only those are compared bit by bit
+ALTER TABLE public.images
+  ADD COLUMN IF NOT EXISTS ahash TEXT CHECK (ahash ~ '^[0-9a-f]{16}$'),
+  ADD COLUMN IF NOT EXISTS dhash TEXT CHECK (dhash ~ '^[0-9a-f]{16}$'),
+  ADD COLUMN IF NOT EXISTS phash TEXT CHECK (phash ~ '^[0-9a-f]{16}$'),
+  ADD COLUMN IF NOT EXISTS phash_bands TEXT[];
+
+CREATE INDEX IF NOT EXISTS images_phash_bands_idx
+  ON public.images USING GIN (phash_bands);
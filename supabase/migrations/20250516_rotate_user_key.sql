@@ -0,0 +1,37 @@
+-- Key rotation in one transaction
+-- Retiring the active key and inserting its successor happen together, so a
+-- failed insert can never leave a user without an active key. Only the
+-- service role may call it
+CREATE OR REPLACE FUNCTION public.rotate_user_key(
+  p_user_id UUID,
+  p_public_key TEXT,
+  p_fingerprint TEXT,
+  p_algorithm TEXT,
+  p_enrolled_at TIMESTAMP WITH TIME ZONE,
+  p_not_after TIMESTAMP WITH TIME ZONE
+)
+RETURNS public.user_keys AS $$
+DECLARE
+  new_key public.user_keys;
+BEGIN
+  UPDATE public.user_keys
+  SET retired_at = p_enrolled_at
+  WHERE user_id = p_user_id
+    AND retired_at IS NULL;
+
+  INSERT INTO public.user_keys (user_id, public_key, fingerprint, algorithm, created_at, not_after)
+  VALUES (p_user_id, p_public_key, p_fingerprint, p_algorithm, p_enrolled_at, p_not_after)
+  RETURNING * INTO new_key;
+
+  INSERT INTO public.user_profiles (user_id, public_key, updated_at)
+  VALUES (p_user_id, p_public_key, p_enrolled_at)
+  ON CONFLICT (user_id) DO UPDATE
+  SET public_key = EXCLUDED.public_key,
+      updated_at = EXCLUDED.updated_at;
+
+  RETURN new_key;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.rotate_user_key(UUID, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE)
+  FROM PUBLIC, anon, authenticated;
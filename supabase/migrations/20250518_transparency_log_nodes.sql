@@ -0,0 +1,24 @@
+-- Stored hashes of the transparency log's complete subtrees
+-- The node at (level, node_index) is the Merkle tree hash of the 2^level
+-- leaves from leaf node_index * 2^level on. Leaves never change, so neither
+-- do these nodes; storing them lets a proof read one node per level instead
+-- of every leaf in the log. Only the service role reads or writes them
+CREATE TABLE IF NOT EXISTS public.transparency_log_nodes (
+  level SMALLINT NOT NULL CHECK (level > 0),
+  node_index BIGINT NOT NULL CHECK (node_index >= 0),
+  hash TEXT NOT NULL,
+  PRIMARY KEY (level, node_index)
+);
+
+ALTER TABLE public.transparency_log_nodes ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS transparency_log_nodes_append_only ON public.transparency_log_nodes;
+DROP TRIGGER IF EXISTS transparency_log_nodes_no_truncate ON public.transparency_log_nodes;
+
+CREATE TRIGGER transparency_log_nodes_append_only
+  BEFORE UPDATE OR DELETE ON public.transparency_log_nodes
+  FOR EACH ROW EXECUTE FUNCTION public.reject_transparency_log_changes();
+
+CREATE TRIGGER transparency_log_nodes_no_truncate
+  BEFORE TRUNCATE ON public.transparency_log_nodes
+  FOR EACH STATEMENT EXECUTE FUNCTION public.reject_transparency_log_changes();
@@ -0,0 +1,10 @@
+-- Keep transparency log entries private
+-- Each leaf now hashes a salted commitment to its entry instead of the entry
+-- itself, and the table is no longer readable by everyone: the image hash,
+-- signature and key fingerprint of unpublished images stayed readable there.
+-- Leaf hashes are still served to auditors through the API, and an entry
+-- with its salt is opened only in the proof for its own image. Entries
+-- logged before this migration have no salt and are hashed as they are
+ALTER TABLE public.transparency_log ADD COLUMN IF NOT EXISTS salt TEXT;
+
+DROP POLICY IF EXISTS "Anyone can read the transparency log" ON public.transparency_log;
@@ -0,0 +1,60 @@
+-- Records of deleted images
+-- Deleting an image used to leave a permanent gap in its owner's manifest
+-- chain, or no trace at all when it was the newest. Every delete from images,
+-- however it is made, now leaves the image's signed manifest here, so the
+-- chain audit can tell a deletion from a removal behind the owner's back,
+-- and the next upload links to a deleted newest image. Records can't be
+-- changed or removed
+CREATE TABLE IF NOT EXISTS public.image_deletions (
+  image_id UUID PRIMARY KEY,
+  -- Not a foreign key: the record must outlive the image and its owner
+  user_id UUID NOT NULL,
+  file_name TEXT NOT NULL,
+  manifest JSONB,
+  image_created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  deleted_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.image_deletions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own image deletions" ON public.image_deletions;
+
+CREATE POLICY "Users can view their own image deletions"
+  ON public.image_deletions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.record_image_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.image_deletions (image_id, user_id, file_name, manifest, image_created_at)
+  VALUES (OLD.id, OLD.user_id, OLD.file_name, OLD.manifest, OLD.created_at);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.reject_image_deletion_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Image deletion records are permanent';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS images_record_deletion ON public.images;
+DROP TRIGGER IF EXISTS image_deletions_append_only ON public.image_deletions;
+DROP TRIGGER IF EXISTS image_deletions_no_truncate ON public.image_deletions;
+
+CREATE TRIGGER images_record_deletion
+  AFTER DELETE ON public.images
+  FOR EACH ROW EXECUTE FUNCTION public.record_image_deletion();
+
+CREATE TRIGGER image_deletions_append_only
+  BEFORE UPDATE OR DELETE ON public.image_deletions
+  FOR EACH ROW EXECUTE FUNCTION public.reject_image_deletion_changes();
+
+CREATE TRIGGER image_deletions_no_truncate
+  BEFORE TRUNCATE ON public.image_deletions
+  FOR EACH STATEMENT EXECUTE FUNCTION public.reject_image_deletion_changes();
+
+CREATE INDEX IF NOT EXISTS image_deletions_user_id_idx
+  ON public.image_deletions (user_id, image_created_at DESC);
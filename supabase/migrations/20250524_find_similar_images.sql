@@ -0,0 +1,40 @@
+-- Ranked search for images that look alike
+-- Candidates sharing a pHash band come from the GIN index; they are ranked by
+-- Hamming distance before the limit is applied, so a large number of distant
+-- candidates can't push the closest matches out of the result. Only the
+-- service role may call it
+CREATE OR REPLACE FUNCTION public.find_similar_images(
+  p_user_id UUID,
+  p_phash TEXT,
+  p_bands TEXT[],
+  p_max_distance INTEGER,
+  p_limit INTEGER
+)
+RETURNS TABLE (
+  id UUID,
+  file_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  distance INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT candidates.id, candidates.file_name, candidates.created_at, candidates.distance
+  FROM (
+    SELECT
+      images.id,
+      images.file_name,
+      images.created_at,
+      -- The number of set bits in the XOR of the two 64-bit hashes
+      length(replace((('x' || images.phash)::BIT(64) # ('x' || p_phash)::BIT(64))::TEXT, '0', ''))::INTEGER AS distance
+    FROM public.images
+    WHERE images.user_id = p_user_id
+      AND images.phash_bands && p_bands
+  ) AS candidates
+  WHERE candidates.distance <= p_max_distance
+  ORDER BY candidates.distance, candidates.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.find_similar_images(UUID, TEXT, TEXT[], INTEGER, INTEGER)
+  FROM PUBLIC, anon, authenticated;
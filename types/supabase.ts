@@ -20,6 +20,17 @@ export interface Database {
           hash: string
           signature: string
           verified: boolean
+          key_id: string | null
+          signature_algorithm: string
+          subkey_id: string | null
+          certificate_chain: Json | null
+          manifest: Json | null
+          timestamp_token: string | null
+          is_public: boolean
+          ahash: string | null
+          dhash: string | null
+          phash: string | null
+          phash_bands: string[] | null
         }
         Insert: {
           id?: string
@@ -31,6 +42,17 @@ export interface Database {
           hash: string
           signature: string
           verified?: boolean
+          key_id?: string | null
+          signature_algorithm?: string
+          subkey_id?: string | null
+          certificate_chain?: Json | null
+          manifest?: Json | null
+          timestamp_token?: string | null
+          is_public?: boolean
+          ahash?: string | null
+          dhash?: string | null
+          phash?: string | null
+          phash_bands?: string[] | null
         }
         Update: {
           id?: string
@@ -42,6 +64,17 @@ export interface Database {
           hash?: string
           signature?: string
           verified?: boolean
+          key_id?: string | null
+          signature_algorithm?: string
+          subkey_id?: string | null
+          certificate_chain?: Json | null
+          manifest?: Json | null
+          timestamp_token?: string | null
+          is_public?: boolean
+          ahash?: string | null
+          dhash?: string | null
+          phash?: string | null
+          phash_bands?: string[] | null
         }
       }
       user_profiles: {
@@ -51,6 +84,7 @@ export interface Database {
           updated_at: string
           user_id: string
           public_key: string
+          display_name: string | null
         }
         Insert: {
           id?: string
@@ -58,6 +92,7 @@ export interface Database {
           updated_at?: string
           user_id: string
           public_key: string
+          display_name?: string | null
         }
         Update: {
           id?: string
@@ -65,6 +100,251 @@ export interface Database {
           updated_at?: string
           user_id?: string
           public_key?: string
+          display_name?: string | null
+        }
+      }
+      user_keys: {
+        Row: {
+          id: string
+          user_id: string
+          public_key: string
+          fingerprint: string
+          algorithm: string
+          created_at: string
+          not_after: string
+          retired_at: string | null
+          revoked_at: string | null
+          revocation_reason: string | null
+          revocation_effective_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          public_key: string
+          fingerprint: string
+          algorithm?: string
+          created_at?: string
+          not_after: string
+          retired_at?: string | null
+          revoked_at?: string | null
+          revocation_reason?: string | null
+          revocation_effective_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          public_key?: string
+          fingerprint?: string
+          algorithm?: string
+          created_at?: string
+          not_after?: string
+          retired_at?: string | null
+          revoked_at?: string | null
+          revocation_reason?: string | null
+          revocation_effective_at?: string | null
+        }
+      }
+      device_keys: {
+        Row: {
+          id: string
+          user_id: string
+          key_id: string
+          device_id: string
+          device_name: string
+          created_at: string
+          last_used_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          key_id: string
+          device_id: string
+          device_name: string
+          created_at?: string
+          last_used_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          key_id?: string
+          device_id?: string
+          device_name?: string
+          created_at?: string
+          last_used_at?: string
+        }
+      }
+      signing_subkeys: {
+        Row: {
+          id: string
+          user_id: string
+          identity_key_id: string
+          public_key: string
+          fingerprint: string
+          algorithm: string
+          device_label: string
+          not_before: string
+          not_after: string
+          certificate: Json
+          certificate_signature: string
+          created_at: string
+          revoked_at: string | null
+          revocation_reason: string | null
+          revocation_effective_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          identity_key_id: string
+          public_key: string
+          fingerprint: string
+          algorithm: string
+          device_label: string
+          not_before: string
+          not_after: string
+          certificate: Json
+          certificate_signature: string
+          created_at?: string
+          revoked_at?: string | null
+          revocation_reason?: string | null
+          revocation_effective_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          identity_key_id?: string
+          public_key?: string
+          fingerprint?: string
+          algorithm?: string
+          device_label?: string
+          not_before?: string
+          not_after?: string
+          certificate?: Json
+          certificate_signature?: string
+          created_at?: string
+          revoked_at?: string | null
+          revocation_reason?: string | null
+          revocation_effective_at?: string | null
+        }
+      }
+      key_enrollment_challenges: {
+        Row: {
+          id: string
+          user_id: string
+          challenge: string
+          created_at: string
+          expires_at: string
+          used_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          challenge: string
+          created_at?: string
+          expires_at: string
+          used_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          challenge?: string
+          created_at?: string
+          expires_at?: string
+          used_at?: string | null
+        }
+      }
+      image_deletions: {
+        Row: {
+          image_id: string
+          user_id: string
+          file_name: string
+          manifest: Json | null
+          image_created_at: string
+          deleted_at: string
+        }
+        Insert: {
+          image_id: string
+          user_id: string
+          file_name: string
+          manifest?: Json | null
+          image_created_at: string
+          deleted_at?: string
+        }
+        Update: {
+          image_id?: string
+          user_id?: string
+          file_name?: string
+          manifest?: Json | null
+          image_created_at?: string
+          deleted_at?: string
+        }
+      }
+      transparency_log: {
+        Row: {
+          leaf_index: number
+          image_id: string
+          entry: Json
+          salt: string | null
+          leaf_hash: string
+          created_at: string
+        }
+        Insert: {
+          leaf_index: number
+          image_id: string
+          entry: Json
+          salt?: string | null
+          leaf_hash: string
+          created_at?: string
+        }
+        Update: {
+          leaf_index?: number
+          image_id?: string
+          entry?: Json
+          salt?: string | null
+          leaf_hash?: string
+          created_at?: string
+        }
+      }
+      transparency_log_nodes: {
+        Row: {
+          level: number
+          node_index: number
+          hash: string
+        }
+        Insert: {
+          level: number
+          node_index: number
+          hash: string
+        }
+        Update: {
+          level?: number
+          node_index?: number
+          hash?: string
+        }
+      }
+      transparency_tree_heads: {
+        Row: {
+          id: string
+          tree_size: number
+          root_hash: string
+          published_at: string
+          log_id: string
+          signature: string
+        }
+        Insert: {
+          id?: string
+          tree_size: number
+          root_hash: string
+          published_at: string
+          log_id: string
+          signature: string
+        }
+        Update: {
+          id?: string
+          tree_size?: number
+          root_hash?: string
+          published_at?: string
+          log_id?: string
+          signature?: string
         }
       }
     }
@@ -72,7 +352,32 @@ export interface Database {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      rotate_user_key: {
+        Args: {
+          p_user_id: string
+          p_public_key: string
+          p_fingerprint: string
+          p_algorithm: string
+          p_enrolled_at: string
+          p_not_after: string
+        }
+        Returns: Database["public"]["Tables"]["user_keys"]["Row"]
+      }
+      find_similar_images: {
+        Args: {
+          p_user_id: string
+          p_phash: string
+          p_bands: string[]
+          p_max_distance: number
+          p_limit: number
+        }
+        Returns: {
+          id: string
+          file_name: string
+          created_at: string
+          distance: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never